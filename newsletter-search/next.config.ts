@@ -1,11 +1,19 @@
+import path from "path";
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  // Silence "detected multiple lockfiles" warning in monorepo
+  // The repo root is the workspace: the query route imports the shared
+  // RAG library from ../src (the @ncc/* path alias). This also silences the
+  // "detected multiple lockfiles" warning.
   // process.cwd() returns absolute path at runtime
   turbopack: {
-    root: process.cwd(),
+    root: path.join(process.cwd(), ".."),
   },
+  experimental: {
+    externalDir: true,
+  },
+  // Server SDKs used by the shared library; load them from node_modules as-is
+  serverExternalPackages: ["@google-cloud/bigquery", "@google-cloud/vertexai", "google-auth-library"],
 };
 
 export default nextConfig;
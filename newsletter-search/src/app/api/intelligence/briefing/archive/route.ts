@@ -3,6 +3,10 @@
  * 
  * Fetches list of all briefings (metadata only, no content).
  * Used for the archive sidebar in the UI.
+ * 
+ * Query params:
+ *   limit - max briefings (default 30)
+ *   lens  - only briefings generated with this lens; "none" for whole-inbox briefings
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -14,8 +18,9 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get('limit') || '30', 10);
+    const lens = searchParams.get('lens');
 
-    const archive = await getBriefingArchive(limit);
+    const archive = await getBriefingArchive(limit, lens === null ? undefined : lens === 'none' ? null : lens);
 
     return NextResponse.json({
       count: archive.length,
@@ -7,7 +7,10 @@
  * Request body (optional):
  * {
  *   "windowHours": 24,    // Override: process last N hours instead of delta
- *   "maxEmails": 100      // Override: limit number of emails to process
+ *   "maxEmails": 100,     // Override: limit number of emails to process
+ *   "refreshInsights": true, // Re-extract instead of reusing cached insights
+ *   "lens": "Crypto"      // Optional: saved lens name, or an inline lens
+ *                         // { name, query?, entities?, publishers?, min_similarity? }
  * }
  * 
  * Response:
@@ -17,12 +20,15 @@
  *   "time_window_start": "ISO timestamp",
  *   "time_window_end": "ISO timestamp",
  *   "email_count": 42,
- *   "content": { ... }
+ *   "content": { ... },
+ *   "lens": { ... } | null,
+ *   "window_email_count": 42, // Emails in the window (> email_count if maxEmails truncated it)
+ *   "map_stats": { "cached": 30, "extracted": 12, "failed": 0 }
  * }
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { generateBriefing } from '@/lib/briefing';
+import { generateBriefing, getSavedLens, parseLens, toBriefingLens } from '@/lib/briefing';
 import type { BriefingPipelineOptions } from '@/lib/briefing';
 
 // Admin key for protecting the generate endpoint
@@ -66,20 +72,48 @@ export async function POST(request: NextRequest) {
   try {
     // Parse optional request body
     const options: BriefingPipelineOptions = {};
-    
+    let body: Record<string, unknown> = {};
+
     try {
-      const body = await request.json();
-      if (body.windowHours && typeof body.windowHours === 'number') {
-        options.windowStart = new Date(Date.now() - body.windowHours * 60 * 60 * 1000);
-        options.windowEnd = new Date();
-      }
-      if (body.maxEmails && typeof body.maxEmails === 'number') {
-        options.maxEmails = body.maxEmails;
+      const parsed: unknown = await request.json();
+      if (parsed && typeof parsed === 'object') {
+        body = parsed as Record<string, unknown>;
       }
     } catch {
       // No body or invalid JSON - use defaults
     }
 
+    if (body.windowHours && typeof body.windowHours === 'number') {
+      options.windowStart = new Date(Date.now() - body.windowHours * 60 * 60 * 1000);
+      options.windowEnd = new Date();
+    }
+    if (body.maxEmails && typeof body.maxEmails === 'number') {
+      options.maxEmails = body.maxEmails;
+    }
+    if (body.refreshInsights === true) {
+      options.refreshInsights = true;
+    }
+
+    if (typeof body.lens === 'string') {
+      const saved = await getSavedLens(body.lens);
+      if (!saved) {
+        return NextResponse.json(
+          { error: 'Unknown lens', message: `No saved lens named "${body.lens}"` },
+          { status: 400 }
+        );
+      }
+      options.lens = toBriefingLens(saved);
+    } else if (body.lens) {
+      try {
+        options.lens = parseLens(body.lens);
+      } catch (error) {
+        return NextResponse.json(
+          { error: 'Invalid lens', message: error instanceof Error ? error.message : String(error) },
+          { status: 400 }
+        );
+      }
+    }
+
     // Run the pipeline
     const result = await generateBriefing(options);
 
@@ -0,0 +1,113 @@
+/**
+ * /api/intelligence/briefing/lenses
+ *
+ * GET  - Lists saved lenses (public read), for the Generate modal.
+ * POST - Saves a lens, replacing one with the same name.
+ *        Protected by Admin Key (Authorization header).
+ *
+ * Request body (POST):
+ * {
+ *   "name": "Crypto",
+ *   "query": "cryptocurrency, bitcoin, stablecoins and crypto regulation",
+ *   "entities": ["Bitcoin", "Coinbase", "SEC"],
+ *   "publishers": ["The Block"],       // Optional hard filter
+ *   "min_similarity": 0.6              // Optional
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSavedLenses, saveLens, parseLens } from '@/lib/briefing';
+
+// Same key as the generate endpoint
+const ADMIN_KEY = process.env.BRIEFING_ADMIN_KEY || process.env.NEXT_PUBLIC_API_KEY;
+
+function isAuthorized(request: NextRequest): boolean {
+  if (!ADMIN_KEY) {
+    console.warn('⚠️  No BRIEFING_ADMIN_KEY configured - running in dev mode');
+    return true;
+  }
+
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader) {
+    return false;
+  }
+
+  const key = authHeader.replace('Bearer ', '').trim();
+  return key === ADMIN_KEY;
+}
+
+export async function GET() {
+  console.log('\n🔭 GET /api/intelligence/briefing/lenses');
+
+  try {
+    const lenses = await getSavedLenses();
+
+    return NextResponse.json({
+      count: lenses.length,
+      lenses,
+    });
+
+  } catch (error) {
+    console.error('❌ Failed to fetch lenses:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch lenses',
+        message: errorMessage,
+        hint: 'Run scripts/setup-briefings-table.ts to create the briefing_lenses table',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  console.log('\n🔭 POST /api/intelligence/briefing/lenses');
+
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      {
+        error: 'Unauthorized',
+        message: 'Valid admin key required in Authorization header',
+      },
+      { status: 401 }
+    );
+  }
+
+  let lens;
+  try {
+    lens = parseLens(await request.json());
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: 'Invalid lens',
+        message: error instanceof Error ? error.message : 'Request body must be a JSON lens',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const saved = await saveLens(lens);
+
+    return NextResponse.json({
+      success: true,
+      lens: saved,
+    });
+
+  } catch (error) {
+    console.error('❌ Failed to save lens:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to save lens',
+        message: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
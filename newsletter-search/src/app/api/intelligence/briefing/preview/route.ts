@@ -2,6 +2,7 @@
  * GET /api/intelligence/briefing/preview
  * 
  * Renders a briefing as HTML email for preview or testing.
+ * Roll-ups render with the roll-up template.
  * Accepts either an ID or uses the latest briefing.
  * 
  * Query Params:
@@ -18,6 +19,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { render } from '@react-email/render';
 import { getLatestBriefing, getBriefingById } from '@/lib/briefing';
 import { DailyBriefingEmail } from '@/emails/daily-briefing-template';
+import { RollupBriefingEmail } from '@/emails/rollup-briefing-template';
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
@@ -72,13 +74,24 @@ export async function GET(request: NextRequest) {
 
     // Render the email to HTML
     const html = await render(
-      DailyBriefingEmail({
-        content: briefing.content_json,
-        briefingId: briefing.briefing_id,
-        generatedAt: briefing.generated_at,
-        emailCount: briefing.email_count,
-        dashboardUrl,
-      }),
+      briefing.briefing_type === 'daily'
+        ? DailyBriefingEmail({
+            content: briefing.content_json,
+            briefingId: briefing.briefing_id,
+            generatedAt: briefing.generated_at,
+            emailCount: briefing.email_count,
+            dashboardUrl,
+          })
+        : RollupBriefingEmail({
+            content: briefing.content_json,
+            briefingId: briefing.briefing_id,
+            briefingType: briefing.briefing_type,
+            periodStart: briefing.time_window_start,
+            periodEnd: briefing.time_window_end,
+            emailCount: briefing.email_count,
+            childCount: briefing.child_briefing_ids.length,
+            dashboardUrl,
+          }),
       {
         pretty: true,
       }
@@ -0,0 +1,123 @@
+/**
+ * POST /api/intelligence/briefing/rollup
+ *
+ * Generates a weekly or monthly roll-up from the stored daily briefings
+ * in the period. Protected by Admin Key (Authorization header).
+ *
+ * Request body:
+ * {
+ *   "period": "weekly",       // Or "monthly"
+ *   "periodEnd": "ISO date",  // Optional: defaults to now
+ *   "lens": "Crypto"          // Optional: roll up that saved lens's briefings
+ * }
+ *
+ * Response:
+ * {
+ *   "briefing_id": "uuid",
+ *   "briefing_type": "weekly",
+ *   "time_window_start": "ISO timestamp",
+ *   "time_window_end": "ISO timestamp",
+ *   "email_count": 310,        // Sum over the daily briefings
+ *   "child_briefing_ids": ["uuid", ...],
+ *   "content": { ... }         // Clusters carry a trajectory (new/growing/continuing/fading)
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { generateRollup, getSavedLens, toBriefingLens } from '@/lib/briefing';
+import type { RollupOptions } from '@/lib/briefing';
+
+// Same key as the generate endpoint
+const ADMIN_KEY = process.env.BRIEFING_ADMIN_KEY || process.env.NEXT_PUBLIC_API_KEY;
+
+function isAuthorized(request: NextRequest): boolean {
+  if (!ADMIN_KEY) {
+    console.warn('⚠️  No BRIEFING_ADMIN_KEY configured - running in dev mode');
+    return true;
+  }
+
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader) {
+    return false;
+  }
+
+  const key = authHeader.replace('Bearer ', '').trim();
+  return key === ADMIN_KEY;
+}
+
+export async function POST(request: NextRequest) {
+  console.log('\n🗞️  POST /api/intelligence/briefing/rollup');
+
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      {
+        error: 'Unauthorized',
+        message: 'Valid admin key required in Authorization header',
+      },
+      { status: 401 }
+    );
+  }
+
+  let body: Record<string, unknown> = {};
+  try {
+    const parsed: unknown = await request.json();
+    if (parsed && typeof parsed === 'object') {
+      body = parsed as Record<string, unknown>;
+    }
+  } catch {
+    // Validated below
+  }
+
+  if (body.period !== 'weekly' && body.period !== 'monthly') {
+    return NextResponse.json(
+      { error: 'Invalid period', message: 'period must be "weekly" or "monthly"' },
+      { status: 400 }
+    );
+  }
+  const options: RollupOptions = { period: body.period };
+
+  if (body.periodEnd) {
+    const periodEnd = new Date(String(body.periodEnd));
+    if (isNaN(periodEnd.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid periodEnd', message: 'periodEnd must be an ISO date' },
+        { status: 400 }
+      );
+    }
+    options.periodEnd = periodEnd;
+  }
+
+  try {
+    if (typeof body.lens === 'string') {
+      const saved = await getSavedLens(body.lens);
+      if (!saved) {
+        return NextResponse.json(
+          { error: 'Unknown lens', message: `No saved lens named "${body.lens}"` },
+          { status: 400 }
+        );
+      }
+      options.lens = toBriefingLens(saved);
+    }
+
+    const result = await generateRollup(options);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+
+  } catch (error) {
+    console.error('❌ Roll-up generation failed:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      {
+        error: 'Roll-up generation failed',
+        message: errorMessage,
+        hint: 'Roll-ups need daily briefings in the period; check server logs for details',
+      },
+      { status: 500 }
+    );
+  }
+}
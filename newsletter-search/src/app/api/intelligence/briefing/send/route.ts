@@ -1,7 +1,8 @@
 /**
  * POST /api/intelligence/briefing/send
  * 
- * Sends a briefing via email using Resend.
+ * Sends a briefing via email using Resend. Weekly/monthly roll-ups use
+ * the roll-up template.
  * 
  * Request body:
  * {
@@ -29,6 +30,7 @@ import { Resend } from 'resend';
 import { render } from '@react-email/render';
 import { getLatestBriefing, getBriefingById } from '@/lib/briefing';
 import { DailyBriefingEmail } from '@/emails/daily-briefing-template';
+import { RollupBriefingEmail } from '@/emails/rollup-briefing-template';
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
@@ -111,13 +113,14 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Format date for subject line
-    const date = new Date(briefing.generated_at);
-    const formattedDate = date.toLocaleDateString('en-US', {
+    // Format date for subject line (roll-ups: their period)
+    const formatDate = (iso: string) => new Date(iso).toLocaleDateString('en-US', {
       month: 'short',
       day: 'numeric',
     });
-    const subject = `Intelligence Briefing: ${formattedDate}`;
+    const subject = briefing.briefing_type === 'daily'
+      ? `Intelligence Briefing: ${formatDate(briefing.generated_at)}`
+      : `${briefing.briefing_type === 'weekly' ? 'Weekly' : 'Monthly'} Intelligence Roll-up: ${formatDate(briefing.time_window_start)} – ${formatDate(briefing.time_window_end)}`;
 
     // Get the dashboard URL
     const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 
@@ -127,13 +130,24 @@ export async function POST(request: NextRequest) {
     // Render the email HTML
     console.log('   Rendering email template...');
     const html = await render(
-      DailyBriefingEmail({
-        content: briefing.content_json,
-        briefingId: briefing.briefing_id,
-        generatedAt: briefing.generated_at,
-        emailCount: briefing.email_count,
-        dashboardUrl,
-      }),
+      briefing.briefing_type === 'daily'
+        ? DailyBriefingEmail({
+            content: briefing.content_json,
+            briefingId: briefing.briefing_id,
+            generatedAt: briefing.generated_at,
+            emailCount: briefing.email_count,
+            dashboardUrl,
+          })
+        : RollupBriefingEmail({
+            content: briefing.content_json,
+            briefingId: briefing.briefing_id,
+            briefingType: briefing.briefing_type,
+            periodStart: briefing.time_window_start,
+            periodEnd: briefing.time_window_end,
+            emailCount: briefing.email_count,
+            childCount: briefing.child_briefing_ids.length,
+            dashboardUrl,
+          }),
       { pretty: false } // Minify for email
     );
 
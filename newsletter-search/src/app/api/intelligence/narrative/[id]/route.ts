@@ -0,0 +1,48 @@
+/**
+ * GET /api/intelligence/narrative/[id]
+ *
+ * Fetches a narrative's timeline: every briefing cluster matched to it,
+ * oldest first, with sentiment breakdowns and source counts.
+ * No authentication required (public read).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getNarrativeTimeline } from '@/lib/briefing';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  console.log(`\n🧵 GET /api/intelligence/narrative/${id}`);
+
+  try {
+    const timeline = await getNarrativeTimeline(id);
+
+    if (!timeline) {
+      return NextResponse.json(
+        {
+          error: 'Narrative not found',
+          message: `No narrative found with ID: ${id}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(timeline);
+
+  } catch (error) {
+    console.error('❌ Failed to fetch narrative:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch narrative',
+        message: errorMessage,
+        hint: 'Run scripts/setup-briefings-table.ts to create the narrative_appearances table',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -186,6 +186,7 @@ function BriefingContent() {
                 emailCount={briefing.email_count}
                 timeWindowStart={briefing.time_window_start}
                 timeWindowEnd={briefing.time_window_end}
+                lensName={briefing.lens?.name}
               />
 
               {/* Executive Summary */}
@@ -0,0 +1,208 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { Loader2, AlertCircle, ArrowLeft, GitCommitVertical, Link2, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { NarrativeTimeline, NarrativeAppearance } from '@/lib/briefing';
+
+const sentimentConfig = {
+  Positive: { icon: TrendingUp, color: 'text-emerald-400', bar: 'bg-emerald-500/60' },
+  Negative: { icon: TrendingDown, color: 'text-red-400', bar: 'bg-red-500/60' },
+  Mixed: { icon: Minus, color: 'text-amber-400', bar: 'bg-amber-500/60' },
+};
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+/**
+ * Sources per appearance, one bar each, coloured by consensus sentiment
+ */
+function CoverageChart({ appearances }: { appearances: NarrativeAppearance[] }) {
+  const max = Math.max(...appearances.map(a => a.source_count), 1);
+
+  return (
+    <div className="p-4 rounded-lg bg-zinc-900/50 border border-zinc-800 mb-8">
+      <span className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">
+        Sources per Briefing
+      </span>
+      <div className="flex items-end gap-1.5 h-24 mt-3">
+        {appearances.map(appearance => {
+          const config = sentimentConfig[appearance.consensus_sentiment] || sentimentConfig.Mixed;
+          return (
+            <div
+              key={appearance.briefing_id}
+              title={`${formatDate(appearance.generated_at)}: ${appearance.source_count} sources, ${appearance.consensus_sentiment}`}
+              className={cn('flex-1 max-w-10 rounded-t', config.bar)}
+              style={{ height: `${Math.max(8, (appearance.source_count / max) * 100)}%` }}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function AppearanceCard({ appearance, index }: { appearance: NarrativeAppearance; index: number }) {
+  const config = sentimentConfig[appearance.consensus_sentiment] || sentimentConfig.Mixed;
+  const Icon = config.icon;
+  const breakdown = appearance.sentiment_breakdown;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: index * 0.05, duration: 0.3 }}
+      className="relative pl-8"
+    >
+      <GitCommitVertical className="absolute left-0 top-1 w-5 h-5 text-zinc-600" />
+      <div className="p-5 rounded-lg border border-zinc-800 bg-zinc-900/50">
+        <div className="flex items-center gap-3 mb-2 flex-wrap text-xs">
+          <Link
+            href={`/briefing?id=${appearance.briefing_id}`}
+            className="font-medium text-emerald-400 hover:text-emerald-300"
+          >
+            {formatDate(appearance.generated_at)}
+          </Link>
+          <span className={cn('flex items-center gap-1', config.color)}>
+            <Icon className="w-3 h-3" />
+            {appearance.consensus_sentiment}
+            {breakdown && (
+              <span className="text-zinc-500 ml-1">
+                ({breakdown.positive}↑ {breakdown.negative}↓ {breakdown.neutral}–)
+              </span>
+            )}
+          </span>
+          <span className="flex items-center gap-1 text-zinc-400">
+            <Link2 className="w-3 h-3" />
+            {appearance.source_count} {appearance.source_count === 1 ? 'Source' : 'Sources'}
+          </span>
+          <span className="text-zinc-600">
+            {appearance.match_score === null ? 'Story starts' : `Match ${appearance.match_score.toFixed(2)}`}
+          </span>
+        </div>
+        <h3 className="text-base font-semibold text-zinc-100 mb-2">
+          {appearance.cluster_title}
+        </h3>
+        <p className="text-sm text-zinc-400 leading-relaxed font-narrative">
+          {appearance.synthesis}
+        </p>
+      </div>
+    </motion.div>
+  );
+}
+
+export default function NarrativePage({ params }: { params: Promise<{ id: string }> }) {
+  const [timeline, setTimeline] = useState<NarrativeTimeline | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchTimeline = async () => {
+      try {
+        const { id } = await params;
+        const response = await fetch(`/api/intelligence/narrative/${id}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.message || data.error || 'Failed to fetch narrative');
+        }
+
+        setTimeline(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch narrative');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTimeline();
+  }, [params]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-zinc-950 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-emerald-400 animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !timeline) {
+    return (
+      <div className="min-h-screen bg-zinc-950 flex items-center justify-center">
+        <div className="max-w-md w-full mx-4 bg-red-950/30 border border-red-900/50 rounded-lg p-6">
+          <div className="flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+            <div>
+              <h3 className="font-medium text-red-400 mb-1">Failed to Load Narrative</h3>
+              <p className="text-sm text-red-300/70">{error}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Entities named most often across the appearances
+  const entityCounts = new Map<string, number>();
+  for (const appearance of timeline.appearances) {
+    for (const entity of appearance.entities) {
+      entityCounts.set(entity, (entityCounts.get(entity) || 0) + 1);
+    }
+  }
+  const topEntities = Array.from(entityCounts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 10)
+    .map(([entity]) => entity);
+
+  return (
+    <div className="min-h-screen bg-zinc-950">
+      <main className="max-w-3xl mx-auto px-6 py-8">
+        <div className="mb-6 pb-4 border-b border-zinc-800">
+          <Link
+            href="/briefing"
+            className="inline-flex items-center gap-2 text-xs text-zinc-500 uppercase tracking-wider font-medium hover:text-zinc-300"
+          >
+            <ArrowLeft className="w-3.5 h-3.5" />
+            Briefing
+          </Link>
+        </div>
+
+        {/* Header */}
+        <span className="text-xs font-semibold text-emerald-400 uppercase tracking-wider">
+          Narrative
+        </span>
+        <h1 className="text-2xl font-semibold text-zinc-100 mt-1 mb-2">
+          {timeline.title}
+        </h1>
+        <p className="text-sm text-zinc-500 mb-4">
+          First seen {formatDate(timeline.first_seen)} · Last seen {formatDate(timeline.last_seen)} · {timeline.appearances.length} {timeline.appearances.length === 1 ? 'briefing' : 'briefings'}
+        </p>
+        {topEntities.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-8">
+            {topEntities.map(entity => (
+              <span key={entity} className="text-xs text-zinc-300 bg-zinc-800 px-2 py-1 rounded capitalize">
+                {entity}
+              </span>
+            ))}
+          </div>
+        )}
+
+        <CoverageChart appearances={timeline.appearances} />
+
+        {/* Timeline, newest first */}
+        <div className="space-y-4">
+          {[...timeline.appearances].reverse().map((appearance, index) => (
+            <AppearanceCard key={appearance.briefing_id} appearance={appearance} index={index} />
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
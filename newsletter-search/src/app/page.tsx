@@ -5,9 +5,10 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { AlertCircle, Newspaper } from 'lucide-react';
 import Link from 'next/link';
 import { SearchInput } from '@/components/search-input';
-import { ProcessTheater } from '@/components/process-theater';
+import { ProcessTheater, QueryProgress, INITIAL_PROGRESS } from '@/components/process-theater';
 import { NarrativePanel } from '@/components/narrative-panel';
 import { EvidenceCard } from '@/components/evidence-card';
+import { createSSEParser } from '@ncc/lib/sse';
 
 // --- Types ---
 interface Citation {
@@ -22,6 +23,8 @@ interface Citation {
 
 interface SemanticResult {
   query: string;
+  conversation_id?: string;
+  standalone_query?: string;
   answer: string;
   citations: Citation[];
   chunks_used: number;
@@ -34,6 +37,9 @@ export default function Page() {
   const [appState, setAppState] = useState<AppState>('idle');
   const [results, setResults] = useState<SemanticResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<QueryProgress>(INITIAL_PROGRESS);
+  // Set once an answer comes back; the next search is a follow-up in the same conversation
+  const [conversationId, setConversationId] = useState<string | null>(null);
   const [highlightedCitation, setHighlightedCitation] = useState<number | null>(null);
   
   const evidenceRefs = useRef<(HTMLDivElement | null)[]>([]);
@@ -42,6 +48,7 @@ export default function Page() {
     setAppState('loading');
     setError(null);
     setResults(null);
+    setProgress(INITIAL_PROGRESS);
 
     try {
       const apiKey = process.env.NEXT_PUBLIC_API_KEY;
@@ -60,22 +67,63 @@ export default function Page() {
 
       const res = await fetch('/api/intelligence/query', {
         method: 'POST',
-        headers,
-        body: JSON.stringify({ query }),
+        headers: { ...headers, Accept: 'text/event-stream' },
+        body: JSON.stringify({ query, stream: true, ...(conversationId ? { conversationId } : {}) }),
       });
 
       console.log('📥 API Response Status:', res.status, res.statusText);
 
-      const data = await res.json();
-
-      if (!res.ok) {
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => ({}));
         console.error('❌ API Error Response:', data);
         throw new Error(data.error || data.message || `Search failed with status ${res.status}`);
       }
 
-      console.log('✅ Search successful:', data);
-      setResults(data);
-      setAppState('results');
+      // Progress events drive the theater; the first answer token switches to
+      // the results view, which fills in as the rest arrive
+      let chunksFound = 0;
+      let streamError: string | null = null;
+      const parse = createSSEParser((event, data) => {
+        switch (event) {
+          case 'embedding':
+            setProgress((p) => ({ ...p, stage: 1 }));
+            break;
+          case 'search':
+            chunksFound = data.chunks;
+            setProgress((p) => ({ ...p, stage: 2, chunksFound: data.chunks }));
+            break;
+          case 'facts':
+            setProgress((p) => ({ ...p, stage: 3, factsFound: data.count }));
+            break;
+          case 'token':
+            setResults((prev) => prev
+              ? { ...prev, answer: prev.answer + data.text }
+              : { query, answer: data.text, citations: [], chunks_used: chunksFound, cost_usd: 0 });
+            setAppState('results');
+            break;
+          case 'done':
+            console.log('✅ Search successful:', data);
+            setResults(data);
+            if (data.conversation_id) setConversationId(data.conversation_id);
+            setAppState('results');
+            break;
+          case 'error':
+            streamError = data.message;
+            break;
+        }
+      });
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parse(decoder.decode(value, { stream: true }));
+      }
+
+      if (streamError) {
+        throw new Error(streamError);
+      }
     } catch (err: unknown) {
       console.error('💥 Fetch/Handling Error:', err);
       const errorMessage = err instanceof Error ? err.message : 'An error occurred';
@@ -84,6 +132,12 @@ export default function Page() {
     }
   };
 
+  const handleNewConversation = () => {
+    setConversationId(null);
+    setResults(null);
+    setAppState('idle');
+  };
+
   const handleCitationHover = useCallback((index: number | null) => {
     setHighlightedCitation(index);
   }, []);
@@ -120,6 +174,15 @@ export default function Page() {
             <span className="text-sm font-semibold text-zinc-400 uppercase tracking-wider">
               Intelligence Center
             </span>
+            {conversationId && (
+              <button
+                onClick={handleNewConversation}
+                disabled={isSearching}
+                className="ml-2 px-2 py-1 rounded text-xs text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800/50 transition-colors disabled:opacity-50"
+              >
+                New conversation
+              </button>
+            )}
           </div>
           <Link
             href="/briefing"
@@ -169,7 +232,7 @@ export default function Page() {
               exit={{ opacity: 0 }}
               className="flex-1 flex items-center justify-center px-4"
             >
-              <ProcessTheater isActive={true} />
+              <ProcessTheater isActive={true} progress={progress} />
             </motion.div>
           )}
 
@@ -1,5 +1,6 @@
 'use client';
 
+import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { Calendar, FileText, ChevronRight } from 'lucide-react';
 import Link from 'next/link';
@@ -34,7 +35,13 @@ function isToday(dateStr: string): boolean {
   }
 }
 
+// Lens filter values: every briefing, whole-inbox briefings, or one lens by name
+const ALL_BRIEFINGS = '__all__';
+const NO_LENS = '__none__';
+
 export function ArchiveSidebar({ archive, currentBriefingId }: ArchiveSidebarProps) {
+  const [lensFilter, setLensFilter] = useState<string>(ALL_BRIEFINGS);
+
   if (!archive || archive.length === 0) {
     return (
       <div className="p-4 text-center">
@@ -43,6 +50,15 @@ export function ArchiveSidebar({ archive, currentBriefingId }: ArchiveSidebarPro
     );
   }
 
+  const lensNames = Array.from(new Set(
+    archive.map(item => item.lens_name).filter((name): name is string => !!name)
+  )).sort();
+  const visible = archive.filter(item =>
+    lensFilter === ALL_BRIEFINGS ? true
+      : lensFilter === NO_LENS ? !item.lens_name
+      : item.lens_name === lensFilter
+  );
+
   return (
     <div className="h-full flex flex-col">
       {/* Header */}
@@ -54,14 +70,38 @@ export function ArchiveSidebar({ archive, currentBriefingId }: ArchiveSidebarPro
           </h2>
         </div>
         <p className="text-xs text-zinc-500 mt-1">
-          {archive.length} briefings
+          {visible.length} briefings
         </p>
+
+        {/* Lens filter (only once a lens briefing exists) */}
+        {lensNames.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mt-3">
+            {[
+              { value: ALL_BRIEFINGS, label: 'All' },
+              { value: NO_LENS, label: 'Daily' },
+              ...lensNames.map(name => ({ value: name, label: name })),
+            ].map(option => (
+              <button
+                key={option.value}
+                onClick={() => setLensFilter(option.value)}
+                className={cn(
+                  'text-xs px-2 py-1 rounded border transition-colors',
+                  lensFilter === option.value
+                    ? 'bg-emerald-500/10 border-emerald-500/50 text-emerald-300'
+                    : 'bg-zinc-800/50 border-zinc-700 text-zinc-400 hover:border-zinc-600'
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
       
       {/* Archive list */}
       <div className="flex-1 overflow-y-auto">
         <div className="divide-y divide-zinc-800/50">
-          {archive.map((item, index) => {
+          {visible.map((item, index) => {
             const { day, month, time } = formatArchiveDate(item.generated_at);
             const isCurrent = item.briefing_id === currentBriefingId;
             const today = isToday(item.generated_at);
@@ -113,6 +153,16 @@ export function ArchiveSidebar({ archive, currentBriefingId }: ArchiveSidebarPro
                             Current
                           </span>
                         )}
+                        {item.briefing_type && item.briefing_type !== 'daily' && (
+                          <span className="text-xs font-medium text-violet-300 bg-violet-500/10 px-1.5 py-0.5 rounded capitalize">
+                            {item.briefing_type}
+                          </span>
+                        )}
+                        {item.lens_name && (
+                          <span className="text-xs font-medium text-zinc-300 bg-zinc-800 px-1.5 py-0.5 rounded truncate">
+                            {item.lens_name}
+                          </span>
+                        )}
                       </div>
                       <p className="text-sm text-zinc-400 mt-0.5">
                         {time} · {item.email_count} emails
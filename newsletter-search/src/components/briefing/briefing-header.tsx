@@ -2,7 +2,7 @@
 
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Calendar, Mail, Clock, ArrowLeft, Scan, Info } from 'lucide-react';
+import { Calendar, Mail, Clock, ArrowLeft, Scan, Info, Telescope } from 'lucide-react';
 import Link from 'next/link';
 
 interface BriefingHeaderProps {
@@ -10,6 +10,8 @@ interface BriefingHeaderProps {
   emailCount: number;
   timeWindowStart: string;
   timeWindowEnd: string;
+  /** Lens the briefing was scoped to, if any */
+  lensName?: string | null;
 }
 
 function formatBriefingDate(dateStr: string): string {
@@ -83,6 +85,7 @@ export function BriefingHeader({
   emailCount,
   timeWindowStart,
   timeWindowEnd,
+  lensName,
 }: BriefingHeaderProps) {
   const [showTooltip, setShowTooltip] = useState(false);
   const windowHours = getWindowDurationHours(timeWindowStart, timeWindowEnd);
@@ -116,6 +119,15 @@ export function BriefingHeader({
         
         {/* Stats badges */}
         <div className="flex flex-wrap items-center gap-3">
+          {lensName && (
+            <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-emerald-500/10 border border-emerald-500/30">
+              <Telescope className="w-4 h-4 text-emerald-400" />
+              <span className="text-sm text-emerald-300">
+                <strong>{lensName}</strong> lens
+              </span>
+            </div>
+          )}
+          
           <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-zinc-800/50 border border-zinc-700/50">
             <Mail className="w-4 h-4 text-zinc-400" />
             <span className="text-sm text-zinc-300">
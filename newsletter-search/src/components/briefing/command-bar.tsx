@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Play, 
@@ -10,9 +10,11 @@ import {
   CheckCircle, 
   AlertCircle,
   Clock,
-  Zap
+  Zap,
+  Telescope
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import type { SavedLens } from '@/lib/briefing';
 
 // ============================================================================
 // Types
@@ -80,15 +82,39 @@ function Toast({ toast, onDismiss }: { toast: ToastState; onDismiss: () => void
 // Generate Modal Component
 // ============================================================================
 
+/**
+ * One-line summary of what a lens selects
+ */
+function describeLens(lens?: SavedLens): string {
+  if (!lens) return '';
+  const parts = [
+    lens.query && `Topic: ${lens.query}`,
+    lens.entities?.length && `Mentions: ${lens.entities.join(', ')}`,
+    lens.publishers?.length && `From: ${lens.publishers.join(', ')}`,
+  ].filter(Boolean);
+  return parts.join(' · ');
+}
+
 interface GenerateModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onGenerate: (windowHours: number | null) => Promise<void>;
+  onGenerate: (windowHours: number | null, lensName: string | null) => Promise<void>;
   isGenerating: boolean;
 }
 
 function GenerateModal({ isOpen, onClose, onGenerate, isGenerating }: GenerateModalProps) {
   const [selectedWindow, setSelectedWindow] = useState<TimeWindow>('24');
+  const [lenses, setLenses] = useState<SavedLens[]>([]);
+  const [selectedLens, setSelectedLens] = useState<string | null>(null);
+
+  // Saved lenses; without any (or if the table is missing) only the whole inbox is offered
+  useEffect(() => {
+    if (!isOpen) return;
+    fetch('/api/intelligence/briefing/lenses')
+      .then(res => (res.ok ? res.json() : { lenses: [] }))
+      .then(data => setLenses(data.lenses || []))
+      .catch(() => setLenses([]));
+  }, [isOpen]);
 
   const windowOptions: { value: TimeWindow; label: string; description: string }[] = [
     { value: '24', label: 'Last 24 Hours', description: 'Standard daily briefing' },
@@ -98,7 +124,7 @@ function GenerateModal({ isOpen, onClose, onGenerate, isGenerating }: GenerateMo
 
   const handleGenerate = () => {
     const hours = selectedWindow === 'delta' ? null : parseInt(selectedWindow);
-    onGenerate(hours);
+    onGenerate(hours, selectedLens);
   };
 
   return (
@@ -186,6 +212,35 @@ function GenerateModal({ isOpen, onClose, onGenerate, isGenerating }: GenerateMo
                   ))}
                 </div>
 
+                {lenses.length > 0 && (
+                  <>
+                    <label className="block text-sm font-medium text-zinc-300 mt-6 mb-3">
+                      Lens
+                    </label>
+                    <div className="relative">
+                      <Telescope className="w-4 h-4 text-zinc-500 absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none" />
+                      <select
+                        value={selectedLens ?? ''}
+                        onChange={(e) => setSelectedLens(e.target.value || null)}
+                        disabled={isGenerating}
+                        className="w-full pl-9 pr-3 py-2.5 rounded-lg bg-zinc-800/50 border border-zinc-700 text-sm text-zinc-200 focus:outline-none focus:border-emerald-500/50"
+                      >
+                        <option value="">Whole inbox</option>
+                        {lenses.map((lens) => (
+                          <option key={lens.name} value={lens.name}>
+                            {lens.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    {selectedLens && (
+                      <p className="text-xs text-zinc-500 mt-2">
+                        {describeLens(lenses.find((lens) => lens.name === selectedLens))}
+                      </p>
+                    )}
+                  </>
+                )}
+
                 {isGenerating && (
                   <motion.div
                     initial={{ opacity: 0, height: 0 }}
@@ -274,7 +329,7 @@ export function CommandBar({ briefingId, onBriefingGenerated, adminKey }: Comman
     setToast(prev => ({ ...prev, visible: false }));
   }, []);
 
-  const handleGenerate = async (windowHours: number | null) => {
+  const handleGenerate = async (windowHours: number | null, lensName: string | null) => {
     setIsGenerating(true);
 
     try {
@@ -297,6 +352,9 @@ export function CommandBar({ briefingId, onBriefingGenerated, adminKey }: Comman
       if (windowHours !== null) {
         body.windowHours = windowHours;
       }
+      if (lensName) {
+        body.lens = lensName;
+      }
 
       const response = await fetch('/api/intelligence/briefing/generate', {
         method: 'POST',
@@ -311,7 +369,9 @@ export function CommandBar({ briefingId, onBriefingGenerated, adminKey }: Comman
 
       const result = await response.json();
       
-      showToast('success', `Briefing generated! ${result.email_count} emails processed.`);
+      showToast('success', result.lens
+        ? `${result.lens.name} briefing generated! ${result.email_count} of ${result.candidate_count} emails matched.`
+        : `Briefing generated! ${result.email_count} emails processed.`);
       setIsModalOpen(false);
 
       // Trigger refresh callback
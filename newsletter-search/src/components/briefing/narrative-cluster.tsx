@@ -2,7 +2,8 @@
 
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ChevronDown, TrendingUp, TrendingDown, Minus, AlertTriangle, Link2, Copy, Check, FileText, Calculator } from 'lucide-react';
+import Link from 'next/link';
+import { ChevronDown, TrendingUp, TrendingDown, Minus, AlertTriangle, Link2, Copy, Check, FileText, Calculator, History } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { NarrativeCluster as NarrativeClusterType, SourceCitation, SentimentBreakdown } from '@/lib/briefing';
 
@@ -446,6 +447,17 @@ export function NarrativeCluster({ cluster, index, defaultExpanded = false }: Na
                   </div>
                 </div>
               ) : null}
+              
+              {/* Narrative timeline - the same story in earlier briefings */}
+              {cluster.narrative_id && (
+                <Link
+                  href={`/narrative/${cluster.narrative_id}`}
+                  className="mt-4 inline-flex items-center gap-2 text-xs font-medium text-emerald-400 hover:text-emerald-300"
+                >
+                  <History className="w-3.5 h-3.5" />
+                  How this story evolved →
+                </Link>
+              )}
             </div>
           </motion.div>
         )}
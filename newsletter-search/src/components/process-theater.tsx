@@ -1,101 +1,44 @@
 'use client';
 
-import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Radar, Target, Brain, Sparkles } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
+/**
+ * Where a streaming query has got to, from the route's SSE events:
+ * stage 0 until "embedding", 1 until "search", 2 until "facts", then 3
+ */
+export interface QueryProgress {
+  stage: number;
+  chunksFound: number | null;
+  factsFound: number | null;
+}
+
+export const INITIAL_PROGRESS: QueryProgress = { stage: 0, chunksFound: null, factsFound: null };
+
 interface ProcessTheaterProps {
   isActive: boolean;
-  onComplete?: () => void;
+  progress: QueryProgress;
 }
 
 interface Stage {
   id: number;
   label: string;
-  sublabel: string;
+  sublabel: (progress: QueryProgress) => string;
   icon: React.ElementType;
-  duration: number; // in ms
 }
 
 const stages: Stage[] = [
-  { id: 1, label: 'Scanning Vector Space', sublabel: 'Searching 70,000+ chunks...', icon: Radar, duration: 2000 },
-  { id: 2, label: 'Triangulating Sources', sublabel: 'Found {count} relevant chunks', icon: Target, duration: 3000 },
-  { id: 3, label: 'Extracting Facts', sublabel: 'Analyzing key insights...', icon: Brain, duration: 2000 },
-  { id: 4, label: 'Synthesizing Narrative', sublabel: 'Composing intelligence brief...', icon: Sparkles, duration: 1000 },
+  { id: 1, label: 'Scanning Vector Space', sublabel: () => 'Embedding your query...', icon: Radar },
+  { id: 2, label: 'Triangulating Sources', sublabel: () => 'Searching newsletter chunks...', icon: Target },
+  { id: 3, label: 'Extracting Facts', sublabel: (p) => `Found ${p.chunksFound ?? 0} relevant chunks, analyzing...`, icon: Brain },
+  { id: 4, label: 'Synthesizing Narrative', sublabel: (p) => `Composing brief from ${p.factsFound ?? 0} facts...`, icon: Sparkles },
 ];
 
-export function ProcessTheater({ isActive }: ProcessTheaterProps) {
-  const [currentStage, setCurrentStage] = useState(0);
-  const [chunksFound, setChunksFound] = useState(0);
-  const [progress, setProgress] = useState(0);
-
-  // Reset when becoming active
-  useEffect(() => {
-    if (isActive) {
-      setCurrentStage(0);
-      setChunksFound(0);
-      setProgress(0);
-    }
-  }, [isActive]);
-
-  // Stage progression
-  useEffect(() => {
-    if (!isActive) return;
-
-    const stageTimers: NodeJS.Timeout[] = [];
-    let accumulatedTime = 0;
-
-    stages.forEach((stage, index) => {
-      const timer = setTimeout(() => {
-        setCurrentStage(index);
-      }, accumulatedTime);
-      stageTimers.push(timer);
-      accumulatedTime += stage.duration;
-    });
-
-    return () => {
-      stageTimers.forEach(clearTimeout);
-    };
-  }, [isActive]);
-
-  // Chunks counter animation (for stage 2)
-  useEffect(() => {
-    if (!isActive || currentStage !== 1) return;
-
-    const targetChunks = Math.floor(Math.random() * 20) + 15; // 15-35 chunks
-    const interval = setInterval(() => {
-      setChunksFound((prev) => {
-        if (prev >= targetChunks) {
-          clearInterval(interval);
-          return prev;
-        }
-        return prev + 1;
-      });
-    }, 80);
-
-    return () => clearInterval(interval);
-  }, [isActive, currentStage]);
-
-  // Progress bar animation
-  useEffect(() => {
-    if (!isActive) return;
-
-    const totalDuration = stages.reduce((sum, s) => sum + s.duration, 0);
-    const startTime = Date.now();
-
-    const interval = setInterval(() => {
-      const elapsed = Date.now() - startTime;
-      const newProgress = Math.min((elapsed / totalDuration) * 100, 100);
-      setProgress(newProgress);
-
-      if (newProgress >= 100) {
-        clearInterval(interval);
-      }
-    }, 50);
-
-    return () => clearInterval(interval);
-  }, [isActive]);
+export function ProcessTheater({ isActive, progress: queryProgress }: ProcessTheaterProps) {
+  const currentStage = Math.min(queryProgress.stage, stages.length - 1);
+  // Each completed stage fills its share of the bar; the current one shows half
+  const progress = ((currentStage + 0.5) / stages.length) * 100;
 
   if (!isActive) return null;
 
@@ -196,9 +139,7 @@ export function ProcessTheater({ isActive }: ProcessTheaterProps) {
                 exit={{ opacity: 0 }}
                 className="text-sm text-zinc-500 font-mono"
               >
-                {currentStage === 1
-                  ? stage.sublabel.replace('{count}', String(chunksFound))
-                  : stage.sublabel}
+                {stage.sublabel(queryProgress)}
               </motion.p>
             </AnimatePresence>
           </div>
@@ -210,7 +151,7 @@ export function ProcessTheater({ isActive }: ProcessTheaterProps) {
                 className="h-full bg-gradient-to-r from-emerald-600 to-emerald-400"
                 initial={{ width: 0 }}
                 animate={{ width: `${progress}%` }}
-                transition={{ duration: 0.1 }}
+                transition={{ duration: 0.4, ease: 'easeOut' }}
               />
             </div>
 
@@ -5,6 +5,7 @@
  * to HTML for inbox delivery. Mirrors the Glass Cockpit aesthetic.
  * 
  * Uses @react-email/components for maximum email client compatibility.
+ * The palette, styles and cards are shared with rollup-briefing-template.
  */
 
 import {
@@ -38,7 +39,7 @@ interface DailyBriefingEmailProps {
 // Color Palette (Dark Mode Professional)
 // ============================================================================
 
-const colors = {
+export const colors = {
   bg: '#09090b',           // zinc-950
   bgCard: '#18181b',       // zinc-900
   bgCardHover: '#27272a',  // zinc-800
@@ -60,7 +61,7 @@ const colors = {
 // Styles (Inline for email compatibility)
 // ============================================================================
 
-const styles = {
+export const styles = {
   body: {
     backgroundColor: colors.bg,
     fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
@@ -266,7 +267,7 @@ function SourceCountBadge({ count }: { count: number }) {
   );
 }
 
-function ClusterCard({ cluster }: { cluster: NarrativeCluster }) {
+export function ClusterCard({ cluster }: { cluster: NarrativeCluster }) {
   return (
     <Section style={styles.clusterCard}>
       <div>
@@ -294,7 +295,7 @@ function ClusterCard({ cluster }: { cluster: NarrativeCluster }) {
   );
 }
 
-function SerendipityCard({ item }: { item: SerendipityItem }) {
+export function SerendipityCard({ item }: { item: SerendipityItem }) {
   return (
     <Section style={styles.serendipityCard}>
       <Heading as="h4" style={styles.serendipityTitle}>
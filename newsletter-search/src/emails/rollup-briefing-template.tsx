@@ -0,0 +1,194 @@
+/**
+ * Weekly / Monthly Roll-up - Email Template
+ *
+ * The daily template's look, reorganised around how stories moved over
+ * the period: narratives are grouped by trajectory (new, growing,
+ * continuing, fading) and show how many daily briefings carried them.
+ */
+
+import {
+  Html,
+  Head,
+  Body,
+  Container,
+  Section,
+  Text,
+  Heading,
+  Hr,
+  Link,
+  Preview,
+  Font,
+} from '@react-email/components';
+import type { BriefingContent, ClusterTrajectory, NarrativeCluster } from '@/lib/briefing';
+import { colors, styles, ClusterCard, SerendipityCard } from './daily-briefing-template';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface RollupBriefingEmailProps {
+  content: BriefingContent;
+  briefingId: string;
+  briefingType: 'weekly' | 'monthly';
+  periodStart: string;
+  periodEnd: string;
+  emailCount: number;
+  childCount: number;          // Daily briefings rolled up
+  dashboardUrl?: string;
+}
+
+// ============================================================================
+// Trajectory Sections
+// ============================================================================
+
+const trajectorySections: { status: ClusterTrajectory['status']; label: string; color: string; description: string }[] = [
+  { status: 'new', label: '🆕 New', color: colors.serendipity, description: 'First appeared in the second half of the period' },
+  { status: 'growing', label: '↗ Growing', color: colors.positive, description: 'More coverage late in the period than early' },
+  { status: 'continuing', label: '→ Continuing', color: colors.accent, description: 'Steady coverage throughout' },
+  { status: 'fading', label: '↘ Fading', color: colors.textMuted, description: 'Coverage dropped off over the period' },
+];
+
+function TrajectoryLine({ cluster, childCount }: { cluster: NarrativeCluster; childCount: number }) {
+  const appearances = cluster.trajectory?.briefing_ids.length || 0;
+  // One bar per daily briefing: filled where the story appeared
+  const bars = (cluster.trajectory?.source_counts || []).map(count => (count > 0 ? '▮' : '▯')).join('');
+
+  return (
+    <Text style={{ ...styles.sourcesLabel, marginTop: '-8px', marginBottom: '16px', paddingLeft: '20px' }}>
+      {bars} In {appearances} of {childCount} daily briefings
+    </Text>
+  );
+}
+
+// ============================================================================
+// Main Template
+// ============================================================================
+
+export function RollupBriefingEmail({
+  content,
+  briefingId,
+  briefingType,
+  periodStart,
+  periodEnd,
+  emailCount,
+  childCount,
+  dashboardUrl = 'https://newsletter-control-center.vercel.app/briefing',
+}: RollupBriefingEmailProps) {
+  const formatDate = (iso: string) => new Date(iso).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+  });
+  const period = `${formatDate(periodStart)} – ${formatDate(periodEnd)}`;
+  const title = briefingType === 'weekly' ? 'Weekly Intelligence Roll-up' : 'Monthly Intelligence Roll-up';
+
+  return (
+    <Html>
+      <Head>
+        <Font
+          fontFamily="Georgia"
+          fallbackFontFamily="serif"
+        />
+        <title>{title} • {period}</title>
+      </Head>
+      <Preview>
+        {content.executive_summary?.[0]?.substring(0, 100) || `Your ${title}`}...
+      </Preview>
+      <Body style={styles.body}>
+        <Container style={styles.container}>
+          {/* Header */}
+          <Section style={styles.header}>
+            <Heading as="h1" style={styles.headerTitle}>
+              {title}
+            </Heading>
+            <Text style={styles.headerSubtitle}>
+              {period} • {childCount} daily briefings • {emailCount} newsletters
+            </Text>
+          </Section>
+
+          {/* Executive Summary */}
+          <Text style={styles.sectionTitle}>The Period in Brief</Text>
+          {content.executive_summary?.map((point, idx) => (
+            <Section key={idx} style={styles.executiveSummaryCard}>
+              <Text style={styles.executiveSummaryText}>
+                {point}
+              </Text>
+            </Section>
+          ))}
+
+          <Hr style={styles.hr} />
+
+          {/* Narratives by trajectory */}
+          {trajectorySections.map(({ status, label, color, description }) => {
+            const clusters = (content.narrative_clusters || []).filter(
+              cluster => (cluster.trajectory?.status || 'continuing') === status
+            );
+            if (clusters.length === 0) return null;
+
+            return (
+              <Section key={status}>
+                <Text style={{ ...styles.sectionTitle, color }}>{label}</Text>
+                <Text style={{ ...styles.footerText, marginBottom: '16px' }}>
+                  {description}
+                </Text>
+                {clusters.map((cluster, idx) => (
+                  <div key={idx}>
+                    <ClusterCard cluster={cluster} />
+                    <TrajectoryLine cluster={cluster} childCount={childCount} />
+                  </div>
+                ))}
+              </Section>
+            );
+          })}
+
+          <Hr style={styles.hr} />
+
+          {/* Serendipity Corner */}
+          {content.serendipity_corner && content.serendipity_corner.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>✨ Worth Resurfacing</Text>
+              {content.serendipity_corner.map((item, idx) => (
+                <SerendipityCard key={idx} item={item} />
+              ))}
+              <Hr style={styles.hr} />
+            </>
+          )}
+
+          {/* Radar Signals */}
+          {content.radar_signals && content.radar_signals.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>📡 Recurring Signals</Text>
+              <Text style={{ ...styles.footerText, marginBottom: '12px' }}>
+                Terms flagged on the most days
+              </Text>
+              <div style={styles.radarContainer}>
+                {content.radar_signals.map((signal, idx) => (
+                  <span key={idx} style={styles.radarSignal}>
+                    {signal}
+                  </span>
+                ))}
+              </div>
+              <Hr style={styles.hr} />
+            </>
+          )}
+
+          {/* Footer */}
+          <Section style={styles.footer}>
+            <Text style={styles.footerText}>
+              Generated by Newsletter Control Center
+            </Text>
+            <Text style={styles.footerText}>
+              <Link href={`${dashboardUrl}?id=${briefingId}`} style={styles.footerLink}>
+                View Interactive Dashboard →
+              </Link>
+            </Text>
+            <Text style={{ ...styles.footerText, fontSize: '11px' }}>
+              Briefing ID: {briefingId}
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
+
+export default RollupBriefingEmail;
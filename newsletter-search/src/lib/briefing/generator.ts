@@ -4,42 +4,96 @@
  * The main orchestrator for generating daily intelligence briefings.
  * Implements a Map-Reduce pattern:
  * 
- * 1. Delta Query: Find emails since last briefing (or 24h fallback)
- * 2. Map Phase: Extract insights from each email (Gemini Flash)
- * 3. Reduce Phase: Synthesize into briefing (Gemini Pro)
+ * 1. Delta Query: Find emails since last briefing (or 24h fallback),
+ *    narrowed to the lens's topic when one is given
+ * 2. Map Phase: Extract insights from each email (Gemini Flash), reusing
+ *    insights already in email_insights for the same prompt and model
+ * 3. Reduce Phase: Synthesize into briefing (Gemini Pro), then match its
+ *    clusters to earlier briefings' narratives (narrative_appearances)
  * 4. Storage: Save to BigQuery
  * 
+ * Both phases go through LLMProvider, so LLM_PROVIDER=openai|stub (or
+ * mapProvider/reduceProvider in the options) swaps the models out.
+ * 
+ * generateRollup builds weekly/monthly briefings from the stored daily
+ * briefings instead of emails, linking back to them (child_briefing_ids).
+ * 
  * CRITICAL: BigQuery uses 'US' location, Vertex AI uses 'us-central1'
  */
 
+import { createHash } from 'crypto';
 import { BigQuery } from '@google-cloud/bigquery';
 import { v4 as uuidv4 } from 'uuid';
+import { embedQuery } from '@ncc/core/rag';
+import { embedBatch } from '@ncc/embeddings/vertex';
+import { getLLMProviderFor } from '@ncc/lib/llm/factory';
+import type { LLMProvider } from '@ncc/lib/llm/types';
 import type { 
   RawEmail, 
+  BriefingLens,
+  SavedLens,
   InsightObject,
+  InsightSearchOptions,
+  NarrativeCluster,
+  SerendipityItem,
+  SentimentBreakdown,
+  SourceCitation,
+  ClusterTrajectory,
+  MapPhaseStats,
   BriefingContent, 
   BriefingPipelineOptions, 
   BriefingPipelineResult,
   StoredBriefing,
-  BriefingArchiveItem
+  BriefingArchiveItem,
+  BriefingType,
+  RollupOptions,
+  RollupResult,
+  NarrativeAppearance,
+  NarrativeTimeline
 } from './types';
 
 // Configuration
 const PROJECT_ID = process.env.BIGQUERY_PROJECT_ID || 'newsletter-control-center';
 const DATASET_ID = 'ncc_production';
 const BIGQUERY_LOCATION = 'US';           // CRITICAL: Must be 'US' for BigQuery
-const VERTEX_LOCATION = 'us-central1';    // Vertex AI regional endpoint
+
+// The shared Gemini provider reads the project from BQ_PROJECT_ID
+process.env.BQ_PROJECT_ID ||= PROJECT_ID;
 
 // Model versions (must match available Vertex AI models)
 const FLASH_MODEL = 'gemini-2.0-flash';  // Fast extraction
 const PRO_MODEL = 'gemini-2.5-pro';       // Intelligent synthesis
-const MODEL_VERSION = `flash:${FLASH_MODEL},pro:${PRO_MODEL}`;
 
 // Default settings
 const DEFAULT_FALLBACK_HOURS = 24;
-const DEFAULT_MAX_EMAILS = 500;
+const DEFAULT_MAX_EMAILS = 2000;
 const DEFAULT_MAP_BATCH_SIZE = 10;
 
+// Reduce: insights per prompt; above this the reduce is hierarchical
+const REDUCE_BATCH_SIZE = 80;
+const MERGE_BATCH_SIZE = 60;              // Partial clusters per merge prompt
+const REDUCE_CONCURRENCY = 4;             // Parallel Pro calls per level
+const MAX_SERENDIPITY_CANDIDATES = 40;
+
+// Lens selection: emails fetched per email kept, and the query-match cut-off
+const LENS_CANDIDATE_MULTIPLIER = 4;
+const MAX_LENS_CANDIDATES = 4000;
+const DEFAULT_LENS_MIN_SIMILARITY = 0.6;
+
+// Roll-ups: late-half/early-half daily average that counts as growing (its
+// inverse as fading), and radar signals kept
+const TRAJECTORY_GROWTH_RATIO = 1.5;
+const ROLLUP_RADAR_SIGNALS = 5;
+
+// Narrative continuity: how far back a story can resume, and how a cluster's
+// match to a narrative is scored (weights sum to 1; a match also needs a
+// shared source or entity, since embedding similarity alone clears the threshold)
+const NARRATIVE_LOOKBACK_DAYS = 14;
+const NARRATIVE_MATCH_THRESHOLD = 0.45;
+const NARRATIVE_SOURCE_WEIGHT = 0.2;
+const NARRATIVE_ENTITY_WEIGHT = 0.3;
+const NARRATIVE_EMBEDDING_WEIGHT = 0.5;
+
 // ============================================================================
 // BigQuery Client
 // ============================================================================
@@ -51,40 +105,28 @@ function getBigQueryClient(): BigQuery {
   });
 }
 
-// ============================================================================
-// Authentication
-// ============================================================================
-
-async function getAccessToken(): Promise<string> {
-  const { GoogleAuth } = await import('google-auth-library');
-  
-  const auth = new GoogleAuth({
-    scopes: ['https://www.googleapis.com/auth/cloud-platform']
-  });
-  const client = await auth.getClient();
-  const accessToken = await client.getAccessToken();
-  
-  if (!accessToken.token) {
-    throw new Error('Failed to get access token');
-  }
-  
-  return accessToken.token;
-}
-
 // ============================================================================
 // Delta Query (Step A)
 // ============================================================================
 
-async function getLastBriefingEndTime(bigquery: BigQuery): Promise<Date | null> {
+/**
+ * End of the last briefing with the same lens (or the last whole-inbox
+ * briefing), so a lens briefing doesn't move the daily briefing's delta.
+ * Roll-ups are built from briefings, not emails, and don't count either.
+ */
+async function getLastBriefingEndTime(bigquery: BigQuery, lens?: BriefingLens): Promise<Date | null> {
   const query = `
     SELECT MAX(time_window_end) as last_end
     FROM \`${PROJECT_ID}.${DATASET_ID}.briefings\`
+    WHERE ${lens ? 'lens_name = @lensName' : 'lens_name IS NULL'}
+      AND IFNULL(briefing_type, 'daily') = 'daily'
   `;
 
   try {
     const [rows] = await bigquery.query({
       query,
       location: BIGQUERY_LOCATION,
+      params: lens ? { lensName: lens.name } : {},
     });
 
     if (rows.length > 0 && rows[0].last_end) {
@@ -106,7 +148,7 @@ async function fetchDeltaEmails(
   windowStart: Date,
   windowEnd: Date,
   maxEmails: number
-): Promise<RawEmail[]> {
+): Promise<{ emails: RawEmail[]; total: number }> {
   const query = `
     SELECT 
       gmail_message_id,
@@ -116,7 +158,8 @@ async function fetchDeltaEmails(
       from_name,
       body_html,
       body_text,
-      FORMAT_TIMESTAMP('%Y-%m-%dT%H:%M:%SZ', ingested_at) as ingested_at
+      FORMAT_TIMESTAMP('%Y-%m-%dT%H:%M:%SZ', ingested_at) as ingested_at,
+      COUNT(*) OVER () as window_total
     FROM \`${PROJECT_ID}.${DATASET_ID}.raw_emails\`
     WHERE ingested_at > TIMESTAMP('${windowStart.toISOString()}')
       AND ingested_at <= TIMESTAMP('${windowEnd.toISOString()}')
@@ -142,16 +185,228 @@ async function fetchDeltaEmails(
     location: BIGQUERY_LOCATION,
   });
 
-  console.log(`   Found:        ${rows.length} emails`);
+  const total = rows.length > 0 ? Number(rows[0].window_total) : 0;
+  console.log(`   Found:        ${total} emails`);
+  if (total > rows.length) {
+    console.warn(`   ⚠️  Truncated:  keeping the ${rows.length} most recent (maxEmails), ${total - rows.length} skipped`);
+  }
   console.log(`${'─'.repeat(50)}\n`);
 
-  return rows as RawEmail[];
+  const emails = rows.map(row => {
+    const email = { ...row };
+    delete email.window_total;
+    return email as RawEmail;
+  });
+  return { emails, total };
+}
+
+// ============================================================================
+// Lens Selection (Step A2)
+// ============================================================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Best chunk similarity to the lens query for each email. Emails not yet
+ * chunked and embedded have no score and can only match by entity.
+ */
+async function scoreEmailsAgainstQuery(
+  bigquery: BigQuery,
+  emails: RawEmail[],
+  query: string
+): Promise<Map<string, number>> {
+  const embedding = await embedQuery(query);
+
+  const [rows] = await bigquery.query({
+    query: `
+      SELECT
+        c.gmail_message_id,
+        MAX(1 - ML.DISTANCE(ce.embedding, @embedding, 'COSINE')) as similarity
+      FROM \`${PROJECT_ID}.${DATASET_ID}.chunks\` c
+      JOIN \`${PROJECT_ID}.${DATASET_ID}.chunk_embeddings\` ce
+        ON ce.chunk_id = c.chunk_id
+      WHERE c.gmail_message_id IN UNNEST(@ids)
+      GROUP BY c.gmail_message_id
+    `,
+    params: { embedding, ids: emails.map(e => e.gmail_message_id) },
+    types: { embedding: ['FLOAT64'], ids: ['STRING'] },
+    location: BIGQUERY_LOCATION,
+  });
+
+  return new Map(rows.map((row: { gmail_message_id: string; similarity: number }) => [row.gmail_message_id, row.similarity]));
+}
+
+/**
+ * Keep the emails the lens selects: from one of its publishers (if any),
+ * and matching its query or mentioning one of its entities (if either is set)
+ */
+async function selectLensEmails(
+  bigquery: BigQuery,
+  emails: RawEmail[],
+  lens: BriefingLens
+): Promise<RawEmail[]> {
+  const publishers = (lens.publishers || []).map(p => p.trim().toLowerCase()).filter(Boolean);
+  const fromPublishers = publishers.length === 0 ? emails : emails.filter(email => {
+    const sender = `${email.from_name || ''} ${email.from_email}`.toLowerCase();
+    return publishers.some(p => sender.includes(p));
+  });
+
+  const entities = (lens.entities || []).map(e => e.trim()).filter(Boolean);
+  const entityPattern = entities.length > 0
+    ? new RegExp(`(^|[^\\p{L}\\p{N}])(${entities.map(escapeRegExp).join('|')})(?=$|[^\\p{L}\\p{N}])`, 'iu')
+    : null;
+  const query = lens.query?.trim();
+  if (!entityPattern && !query) {
+    return fromPublishers;
+  }
+
+  const similarities = query && fromPublishers.length > 0
+    ? await scoreEmailsAgainstQuery(bigquery, fromPublishers, query)
+    : new Map<string, number>();
+  const minSimilarity = lens.min_similarity ?? DEFAULT_LENS_MIN_SIMILARITY;
+
+  let byQuery = 0;
+  let byEntity = 0;
+  const selected = fromPublishers.filter(email => {
+    if (query && (similarities.get(email.gmail_message_id) ?? 0) >= minSimilarity) {
+      byQuery++;
+      return true;
+    }
+    if (entityPattern && entityPattern.test(`${email.subject}\n${extractEmailText(email)}`)) {
+      byEntity++;
+      return true;
+    }
+    return false;
+  });
+
+  console.log(`🔎 Lens "${lens.name}": ${selected.length}/${emails.length} emails selected`);
+  console.log(`   Publishers: ${fromPublishers.length} in scope · Query match: ${byQuery} · Entity match: ${byEntity}`);
+  if (query && similarities.size < fromPublishers.length) {
+    console.log(`   ${fromPublishers.length - similarities.size} emails have no embeddings yet (entity match only)`);
+  }
+
+  return selected;
+}
+
+// ============================================================================
+// Insight Cache (email_insights)
+// ============================================================================
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof Error && error.message.includes('Not found');
+}
+
+/**
+ * An email_insights row; repeated columns can come back null
+ */
+interface InsightRow extends Omit<InsightObject, 'themes' | 'entities' | 'key_claims'> {
+  themes: string[] | null;
+  entities: string[] | null;
+  key_claims: string[] | null;
+}
+
+function toInsight(row: InsightRow): InsightObject {
+  return {
+    ...row,
+    themes: row.themes || [],
+    entities: row.entities || [],
+    key_claims: row.key_claims || [],
+  };
+}
+
+/**
+ * Insights already extracted for these emails with the current prompt and
+ * this model. An empty map (with a warning) if the table doesn't exist yet.
+ */
+async function loadCachedInsights(
+  bigquery: BigQuery,
+  messageIds: string[],
+  model: string
+): Promise<Map<string, InsightObject>> {
+  if (messageIds.length === 0) {
+    return new Map();
+  }
+
+  try {
+    const [rows] = await bigquery.query({
+      query: `
+        SELECT
+          gmail_message_id,
+          publisher,
+          subject,
+          FORMAT_TIMESTAMP('%Y-%m-%dT%H:%M:%SZ', sent_date) as sent_date,
+          snippet,
+          themes,
+          entities,
+          sentiment,
+          summary,
+          key_claims
+        FROM \`${PROJECT_ID}.${DATASET_ID}.email_insights\`
+        WHERE gmail_message_id IN UNNEST(@ids)
+          AND prompt_version = @promptVersion
+          AND model = @model
+        QUALIFY ROW_NUMBER() OVER (PARTITION BY gmail_message_id ORDER BY extracted_at DESC) = 1
+      `,
+      params: { ids: messageIds, promptVersion: MAP_PROMPT_VERSION, model },
+      types: { ids: ['STRING'] },
+      location: BIGQUERY_LOCATION,
+    });
+
+    return new Map(rows.map((row: InsightRow) => [row.gmail_message_id, toInsight(row)]));
+  } catch (error) {
+    if (isNotFound(error)) {
+      console.warn('⚠️  email_insights table not found; extracting every email (run scripts/setup-briefings-table.ts)');
+      return new Map();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Append freshly extracted insights. A failed write costs a re-extraction
+ * next time, not this briefing, so it only warns.
+ */
+async function storeInsights(
+  bigquery: BigQuery,
+  insights: InsightObject[],
+  model: string
+): Promise<void> {
+  if (insights.length === 0) {
+    return;
+  }
+
+  const extractedAt = new Date().toISOString();
+  const rows = insights.map(insight => ({
+    gmail_message_id: insight.gmail_message_id,
+    prompt_version: MAP_PROMPT_VERSION,
+    model,
+    publisher: insight.publisher,
+    subject: insight.subject,
+    sent_date: insight.sent_date,
+    snippet: insight.snippet,
+    themes: insight.themes,
+    entities: insight.entities,
+    sentiment: insight.sentiment,
+    summary: insight.summary,
+    key_claims: insight.key_claims,
+    extracted_at: extractedAt,
+  }));
+
+  try {
+    await bigquery.dataset(DATASET_ID).table('email_insights').insert(rows);
+  } catch (error) {
+    console.warn(`⚠️  Could not cache ${insights.length} insights:`, error instanceof Error ? error.message : error);
+  }
 }
 
 // ============================================================================
 // Map Phase (Step B) - Gemini Flash
 // ============================================================================
 
+const MAP_INSTRUCTION = 'Analyze this newsletter. Extract the key themes, entities, sentiment, summary, and claims.';
+
 const MAP_SYSTEM_PROMPT = `You are an intelligence analyst extracting key information from newsletter content.
 
 For each newsletter, extract:
@@ -170,6 +425,12 @@ Return ONLY valid JSON matching this exact structure:
   "key_claims": ["claim1", "claim2"]
 }`;
 
+// Cached insights are reused only while the prompt is unchanged
+const MAP_PROMPT_VERSION = createHash('sha256')
+  .update(`${MAP_SYSTEM_PROMPT}\n${MAP_INSTRUCTION}`)
+  .digest('hex')
+  .slice(0, 12);
+
 function extractEmailText(email: RawEmail): string {
   if (email.body_text && email.body_text.trim().length > 0) {
     return email.body_text;
@@ -213,63 +474,39 @@ function extractSnippet(emailText: string, subject: string): string {
   return snippet || `[Content preview unavailable] ${subject}`;
 }
 
+/**
+ * Extract one email's insight; null if the model call or its JSON fails
+ */
 async function mapEmailToInsight(
   email: RawEmail,
-  accessToken: string
-): Promise<InsightObject> {
+  provider: LLMProvider
+): Promise<InsightObject | null> {
   const emailText = extractEmailText(email);
   const snippet = extractSnippet(emailText, email.subject);
   const truncatedText = emailText.length > 15000 
     ? emailText.substring(0, 15000) + '\n\n[Content truncated...]'
     : emailText;
   
-  const userPrompt = `Analyze this newsletter:
-
-Publisher: ${email.from_email}
+  const newsletter = `Publisher: ${email.from_email}
 Subject: ${email.subject}
 Date: ${email.sent_date}
 
 Content:
-${truncatedText}
+${truncatedText}`;
 
-Extract the key themes, entities, sentiment, summary, and claims.`;
-
-  const endpoint = `https://${VERTEX_LOCATION}-aiplatform.googleapis.com/v1/projects/${PROJECT_ID}/locations/${VERTEX_LOCATION}/publishers/google/models/${FLASH_MODEL}:generateContent`;
-  
   try {
-    const response = await fetch(endpoint, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            role: 'user',
-            parts: [{ text: MAP_SYSTEM_PROMPT + '\n\n' + userPrompt }]
-          }
-        ],
-        generationConfig: {
-          temperature: 0.2,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 1024,
-          responseMimeType: 'application/json'
-        }
-      })
+    const response = await provider.generateAnswer({
+      query: MAP_INSTRUCTION,
+      context: newsletter,
+      systemPrompt: MAP_SYSTEM_PROMPT,
+      temperature: 0.2,
+      maxOutputTokens: 1024,
+      responseFormat: 'json',
     });
-
-    if (!response.ok) {
-      console.error(`Gemini Flash API error for ${email.gmail_message_id}`);
-      return createDefaultInsight(email);
-    }
-
-    const data = await response.json();
-    const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    const text = response.content;
     
     if (!text) {
-      return createDefaultInsight(email);
+      return null;
     }
     
     const parsed = JSON.parse(text);
@@ -288,7 +525,7 @@ Extract the key themes, entities, sentiment, summary, and claims.`;
     };
   } catch (error) {
     console.warn(`Failed to extract insight for ${email.gmail_message_id}:`, error);
-    return createDefaultInsight(email);
+    return null;
   }
 }
 
@@ -311,35 +548,59 @@ function createDefaultInsight(email: RawEmail): InsightObject {
 }
 
 async function mapEmailsToInsights(
+  bigquery: BigQuery,
   emails: RawEmail[],
-  batchSize: number = DEFAULT_MAP_BATCH_SIZE
-): Promise<InsightObject[]> {
+  provider: LLMProvider,
+  batchSize: number = DEFAULT_MAP_BATCH_SIZE,
+  refresh: boolean = false
+): Promise<{ insights: InsightObject[]; stats: MapPhaseStats }> {
+  const stats: MapPhaseStats = { cached: 0, extracted: 0, failed: 0 };
   if (emails.length === 0) {
-    return [];
+    return { insights: [], stats };
   }
   
-  console.log(`📧 Starting Map phase: ${emails.length} emails in batches of ${batchSize}`);
+  const cached = refresh
+    ? new Map<string, InsightObject>()
+    : await loadCachedInsights(bigquery, emails.map(e => e.gmail_message_id), provider.modelName);
+  const misses = emails.filter(email => !cached.has(email.gmail_message_id));
+  stats.cached = emails.length - misses.length;
+  
+  console.log(`📧 Starting Map phase: ${emails.length} emails (${stats.cached} cached, ${misses.length} to extract) in batches of ${batchSize}`);
   
-  const accessToken = await getAccessToken();
-  const insights: InsightObject[] = [];
-  const totalBatches = Math.ceil(emails.length / batchSize);
+  const extracted = new Map<string, InsightObject>();
+  const totalBatches = Math.ceil(misses.length / batchSize);
   
-  for (let i = 0; i < emails.length; i += batchSize) {
+  for (let i = 0; i < misses.length; i += batchSize) {
     const batchNum = Math.floor(i / batchSize) + 1;
-    const batch = emails.slice(i, i + batchSize);
+    const batch = misses.slice(i, i + batchSize);
     
     console.log(`  Batch ${batchNum}/${totalBatches}: Processing ${batch.length} emails...`);
     
     const batchResults = await Promise.all(
-      batch.map(email => mapEmailToInsight(email, accessToken))
+      batch.map(email => mapEmailToInsight(email, provider))
     );
     
-    insights.push(...batchResults);
+    const succeeded = batchResults.filter((insight): insight is InsightObject => insight !== null);
+    stats.extracted += succeeded.length;
+    stats.failed += batch.length - succeeded.length;
+    for (const insight of succeeded) {
+      extracted.set(insight.gmail_message_id, insight);
+    }
+    
+    // Per batch, so a later failure doesn't lose what was already paid for
+    await storeInsights(bigquery, succeeded, provider.modelName);
   }
   
-  console.log(`✅ Map phase complete: ${insights.length} insights extracted`);
+  // Failed extractions get a placeholder and are retried next time
+  const insights = emails.map(email =>
+    cached.get(email.gmail_message_id)
+      || extracted.get(email.gmail_message_id)
+      || createDefaultInsight(email)
+  );
+  
+  console.log(`✅ Map phase complete: ${insights.length} insights (${stats.cached} cached, ${stats.extracted} extracted, ${stats.failed} failed)`);
   
-  return insights;
+  return { insights, stats };
 }
 
 // ============================================================================
@@ -408,6 +669,27 @@ Before generating, verify:
 
 Return ONLY valid JSON. No markdown, no explanation, just the JSON object.`;
 
+/**
+ * "the past day", "the past 7 days": the window as the prompts describe it
+ */
+function describePeriod(windowStart: Date, windowEnd: Date): string {
+  const days = Math.round((windowEnd.getTime() - windowStart.getTime()) / (24 * 60 * 60 * 1000));
+  return days <= 1 ? 'the past day' : `the past ${days} days`;
+}
+
+function briefingKind(period: string): string {
+  return period === 'the past day' ? 'a Daily Intelligence Briefing' : 'an Intelligence Briefing';
+}
+
+/**
+ * Tells the editor what the lens selected the newsletters for
+ */
+function lensScope(lens?: BriefingLens): string {
+  if (!lens) return '';
+  const focus = [lens.query, ...(lens.entities || [])].filter(Boolean).join('; ');
+  return `, selected for the "${lens.name}" lens${focus ? ` (${focus})` : ''}. Keep the briefing focused on that topic`;
+}
+
 function formatInsightsForContext(insights: InsightObject[]): string {
   return insights.map((insight, idx) => `
 --- Insight ${idx + 1} ---
@@ -424,71 +706,13 @@ ${insight.key_claims.map(c => `  • ${c}`).join('\n')}
 `).join('\n');
 }
 
-async function reduceInsightsToBriefing(
-  insights: InsightObject[]
-): Promise<BriefingContent> {
-  if (insights.length === 0) {
-    return {
-      executive_summary: ['No newsletters processed in this time window.'],
-      narrative_clusters: [],
-      serendipity_corner: [],
-      radar_signals: [],
-    };
-  }
-  
-  console.log(`🧠 Starting Reduce phase: Synthesizing ${insights.length} insights...`);
-  
-  const accessToken = await getAccessToken();
-  const insightsContext = formatInsightsForContext(insights);
-  
-  const userPrompt = `Here are ${insights.length} newsletter insights from the past day. Synthesize them into a Daily Intelligence Briefing:
-
-${insightsContext}
-
-Generate the briefing JSON now:`;
-
-  const endpoint = `https://${VERTEX_LOCATION}-aiplatform.googleapis.com/v1/projects/${PROJECT_ID}/locations/${VERTEX_LOCATION}/publishers/google/models/${PRO_MODEL}:generateContent`;
-  
-  const response = await fetch(endpoint, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      contents: [
-        {
-          role: 'user',
-          parts: [{ text: EDITOR_IN_CHIEF_PROMPT + '\n\n' + userPrompt }]
-        }
-      ],
-      generationConfig: {
-        temperature: 0.1,  // Lowered from 0.3 for strict grounding
-        topK: 40,
-        topP: 0.95,
-        maxOutputTokens: 8192,
-        responseMimeType: 'application/json'
-      }
-    })
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('Gemini Pro API error:', errorText);
-    throw new Error(`Gemini Pro API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
-  
-  if (!text) {
-    throw new Error('Empty response from Gemini Pro');
-  }
-  
-  // Try to parse JSON with repair logic for truncation
-  let briefing: BriefingContent;
+/**
+ * Parse model JSON, closing any brackets left open by a truncated response;
+ * null if even the repaired text doesn't parse
+ */
+function parseModelJson<T>(text: string): T | null {
   try {
-    briefing = JSON.parse(text) as BriefingContent;
+    return JSON.parse(text) as T;
   } catch (parseError) {
     console.warn('⚠️  Initial JSON parse failed, attempting repair...');
     console.log('Raw text preview:', text.substring(0, 500));
@@ -516,148 +740,845 @@ Generate the briefing JSON now:`;
     }
     
     try {
-      briefing = JSON.parse(repairedText) as BriefingContent;
+      const repaired = JSON.parse(repairedText) as T;
       console.log('✅ JSON repair successful');
+      return repaired;
     } catch (repairError) {
-      // Final fallback: return a minimal valid briefing
-      console.error('❌ JSON repair failed, returning fallback briefing');
-      briefing = {
-        executive_summary: ['[Briefing generation encountered parsing issues]'],
-        narrative_clusters: [],
-        serendipity_corner: [],
-        radar_signals: [],
-      };
+      console.error('❌ JSON repair failed');
+      return null;
     }
   }
+}
+
+/**
+ * One prompt over every insight (windows up to REDUCE_BATCH_SIZE emails)
+ */
+async function reduceSinglePass(
+  insights: InsightObject[],
+  provider: LLMProvider,
+  lens: BriefingLens | undefined,
+  period: string
+): Promise<BriefingContent> {
+  const insightsContext = formatInsightsForContext(insights);
   
-  // Validate and fix structure
-  if (!briefing.executive_summary || !Array.isArray(briefing.executive_summary)) {
-    briefing.executive_summary = ['[Briefing generation incomplete]'];
-  }
-  if (!briefing.narrative_clusters || !Array.isArray(briefing.narrative_clusters)) {
-    briefing.narrative_clusters = [];
-  }
-  if (!briefing.serendipity_corner || !Array.isArray(briefing.serendipity_corner)) {
-    briefing.serendipity_corner = [];
-  }
-  if (!briefing.radar_signals || !Array.isArray(briefing.radar_signals)) {
-    briefing.radar_signals = [];
-  }
-  
-  // Enrich clusters with source citations and DETERMINISTIC SENTIMENT MATH
-  const insightsMap = new Map(insights.map(insight => [insight.gmail_message_id, insight]));
-  
-  briefing.narrative_clusters = briefing.narrative_clusters.map(cluster => {
-    // Get all insights for this cluster
-    const clusterInsights = cluster.source_ids
-      .map(id => insightsMap.get(id))
-      .filter((insight): insight is InsightObject => insight !== undefined);
-    
-    // Enrich sources with sentiment
-    const enrichedSources = clusterInsights.map(insight => ({
-      gmail_message_id: insight.gmail_message_id,
-      publisher: insight.publisher,
-      subject: insight.subject,
-      sent_date: insight.sent_date,
-      snippet: insight.snippet,
-      sentiment: insight.sentiment,
-    }));
-    
-    // DETERMINISTIC SENTIMENT MATH (100% Falsifiable)
-    const sentimentCounts = {
-      positive: clusterInsights.filter(i => i.sentiment === 'positive').length,
-      negative: clusterInsights.filter(i => i.sentiment === 'negative').length,
-      neutral: clusterInsights.filter(i => i.sentiment === 'neutral').length,
-    };
-    const total = sentimentCounts.positive + sentimentCounts.negative + sentimentCounts.neutral;
-    
-    // Calculate mathematical consensus
-    let calculated_consensus: 'Positive' | 'Negative' | 'Mixed';
-    if (total === 0) {
-      calculated_consensus = 'Mixed';
-    } else if (sentimentCounts.positive > sentimentCounts.negative && sentimentCounts.positive > sentimentCounts.neutral) {
-      calculated_consensus = 'Positive';
-    } else if (sentimentCounts.negative > sentimentCounts.positive && sentimentCounts.negative > sentimentCounts.neutral) {
-      calculated_consensus = 'Negative';
-    } else {
-      calculated_consensus = 'Mixed';
-    }
-    
-    // Check if math overrides LLM
-    const llm_consensus = cluster.consensus_sentiment;
-    const override_applied = calculated_consensus !== llm_consensus;
-    
-    if (override_applied) {
-      console.log(`   ⚠️  Sentiment override: "${cluster.title}" LLM said ${llm_consensus}, Math says ${calculated_consensus}`);
-    }
-    
-    return {
-      ...cluster,
-      // MATH WINS: Use calculated consensus, not LLM guess
-      consensus_sentiment: calculated_consensus,
-      sources: enrichedSources.length > 0 ? enrichedSources : undefined,
-      sentiment_breakdown: {
-        positive: sentimentCounts.positive,
-        negative: sentimentCounts.negative,
-        neutral: sentimentCounts.neutral,
-        total,
-        calculated_consensus,
-        llm_consensus,
-        override_applied,
-      },
-    };
+  const response = await provider.generateAnswer({
+    query: `Here are ${insights.length} newsletter insights from ${period}${lensScope(lens)}. Synthesize them into ${briefingKind(period)} and generate the briefing JSON now.`,
+    context: insightsContext,
+    systemPrompt: EDITOR_IN_CHIEF_PROMPT,
+    temperature: 0.1,  // Lowered from 0.3 for strict grounding
+    maxOutputTokens: 8192,
+    responseFormat: 'json',
   });
+  const text = response.content;
   
-  console.log(`✅ Reduce phase complete:`);
-  console.log(`   - Executive summary: ${briefing.executive_summary.length} points`);
-  console.log(`   - Narrative clusters: ${briefing.narrative_clusters.length}`);
-  console.log(`   - Serendipity items: ${briefing.serendipity_corner.length}`);
-  console.log(`   - Radar signals: ${briefing.radar_signals.length}`);
+  if (!text) {
+    throw new Error(`Empty response from ${response.modelUsed}`);
+  }
   
-  return briefing;
+  // Final fallback: a minimal valid briefing
+  return parseModelJson<BriefingContent>(text) || {
+    executive_summary: ['[Briefing generation encountered parsing issues]'],
+    narrative_clusters: [],
+    serendipity_corner: [],
+    radar_signals: [],
+  };
 }
 
-// ============================================================================
-// Storage (Step D)
-// ============================================================================
+// ----------------------------------------------------------------------------
+// Hierarchical reduce (windows larger than REDUCE_BATCH_SIZE emails)
+//
+// Level 0: insights are sorted by theme and cut into batches; each batch is
+//          reduced to partial clusters that cite gmail_message_ids.
+// Level 1+: partial clusters are merged in batches until they fit one prompt.
+// Final:   the editor writes the briefing from the partial clusters.
+//
+// Merges name the clusters they combine (P1, P2, ...) and their source_ids
+// are unioned in code, so every cluster's sources are exactly the emails
+// its level-0 clusters cited.
+// ----------------------------------------------------------------------------
+
+interface PartialCluster {
+  title: string;
+  synthesis: string;
+  consensus_sentiment: 'Positive' | 'Negative' | 'Mixed';
+  counter_point: string | null;
+  source_ids: string[];
+}
 
-async function storeBriefing(
-  bigquery: BigQuery,
-  briefingId: string,
-  generatedAt: Date,
-  windowStart: Date,
-  windowEnd: Date,
-  emailCount: number,
-  content: BriefingContent,
-  modelVersion: string
-): Promise<void> {
-  const table = bigquery.dataset(DATASET_ID).table('briefings');
+/**
+ * Model output as parsed, before validation: any field may be missing or
+ * the wrong type
+ */
+interface RawModelCluster {
+  title?: unknown;
+  synthesis?: unknown;
+  consensus_sentiment?: unknown;
+  counter_point?: unknown;
+  source_ids?: unknown;    // Level 0
+  partial_ids?: unknown;   // Merges and final
+}
 
-  const row = {
-    briefing_id: briefingId,
-    generated_at: generatedAt.toISOString(),
-    time_window_start: windowStart.toISOString(),
-    time_window_end: windowEnd.toISOString(),
-    content_json: JSON.stringify(content),
-    email_count: emailCount,
-    model_version: modelVersion,
-  };
+interface RawSerendipityItem {
+  candidate_id?: unknown;
+  title?: unknown;
+  insight?: unknown;
+}
 
-  await table.insert([row]);
-  console.log(`💾 Briefing ${briefingId} stored in BigQuery`);
+interface RawBriefingOutput {
+  executive_summary?: unknown;
+  narrative_clusters?: unknown;
+  serendipity_corner?: unknown;
+  radar_signals?: unknown;
 }
 
-// ============================================================================
-// Main Generator Function
-// ============================================================================
+const PARTIAL_REDUCE_PROMPT = `You are an intelligence analyst grouping newsletter insights into narrative clusters.
+These insights are ONE BATCH of a larger set; other batches are clustered separately and merged later.
 
-/**
- * Generate a daily intelligence briefing
- * 
- * @param windowHours - Optional: Override lookback window in hours
- * @returns The generated briefing with metadata
- */
-export async function generateBriefing(
+## RULES
+1. ONLY use information from the provided insights. No outside knowledge.
+2. Every cluster MUST list the exact gmail_message_id values (the ID lines) of the insights it draws on.
+3. A cluster may have a single source if it is a substantive story; do not pad clusters.
+4. Use the language of the sources; no invented framings or generic tropes.
+5. counter_point only when a source explicitly disagrees with the others in the cluster.
+
+## OUTPUT (JSON)
+{
+  "clusters": [
+    {
+      "title": "Short descriptive title using source language",
+      "synthesis": "2-3 sentences on what the sources actually say, with specifics",
+      "consensus_sentiment": "Positive" | "Negative" | "Mixed",
+      "counter_point": "Publisher X argued Y" or null,
+      "source_ids": ["gmail_message_id_1", "gmail_message_id_2"]
+    }
+  ]
+}
+
+Return ONLY valid JSON.`;
+
+const MERGE_PROMPT = `You are an intelligence analyst merging partial narrative clusters.
+The clusters were produced separately from batches of the same newsletters, so several may describe the same story.
+
+## RULES
+1. Merge clusters that cover the same story or theme; keep distinct stories separate.
+2. Every merged cluster MUST list the IDs (P1, P2, ...) of ALL the input clusters it combines, in "partial_ids".
+   Every input cluster should appear in exactly one output cluster.
+3. ONLY use information in the input clusters. Rewrite the synthesis to cover all merged clusters, keeping specifics.
+4. counter_point only when an input cluster records explicit disagreement.
+
+## OUTPUT (JSON)
+{
+  "clusters": [
+    {
+      "title": "Short descriptive title using source language",
+      "synthesis": "2-3 sentences",
+      "consensus_sentiment": "Positive" | "Negative" | "Mixed",
+      "counter_point": "..." or null,
+      "partial_ids": ["P1", "P4"]
+    }
+  ]
+}
+
+Return ONLY valid JSON.`;
+
+const FINAL_MERGE_PROMPT = `You are a Senior Intelligence Analyst compiling a briefing from pre-clustered newsletter narratives.
+Each input cluster (P1, P2, ...) was built from the newsletters themselves and records how many sources support it.
+
+## CRITICAL GROUNDING RULES
+1. ONLY use information in the input clusters and candidate items. You have ZERO outside knowledge.
+2. Use the language of the clusters; no invented dramatic framings or generic tropes.
+3. Prefer clusters with more sources for the executive summary and narrative clusters.
+
+## OUTPUT STRUCTURE (JSON)
+{
+  "executive_summary": ["Dominant theme 1 (1-2 sentences)", "Dominant theme 2", "Dominant theme 3"],
+  "narrative_clusters": [
+    {
+      "title": "Short descriptive title using source language",
+      "synthesis": "2-3 sentences covering all merged input clusters",
+      "consensus_sentiment": "Positive" | "Negative" | "Mixed",
+      "counter_point": "..." or null,
+      "partial_ids": ["P1", "P7"]
+    }
+  ],
+  "serendipity_corner": [
+    { "candidate_id": "S3", "title": "Title from the candidate", "insight": "1-2 sentences from the candidate" }
+  ],
+  "radar_signals": ["term1", "term2", "term3"]
+}
+
+## STRICT REQUIREMENTS
+1. executive_summary: EXACTLY 3 points.
+2. narrative_clusters: 3-7 clusters, each merging one or more input clusters listed in partial_ids. Merge input clusters about the same story.
+3. serendipity_corner: EXACTLY 2 items chosen from the candidates (S1, S2, ...) that don't fit the main clusters.
+4. radar_signals: 3-5 specific names/terms that appear in the clusters.
+
+Return ONLY valid JSON. No markdown, no explanation, just the JSON object.`;
+
+function formatPartialClusters(clusters: PartialCluster[], insightsMap: Map<string, InsightObject>): string {
+  return clusters.map((cluster, idx) => {
+    const publishers = Array.from(new Set(
+      cluster.source_ids.map(id => insightsMap.get(id)?.publisher).filter(Boolean)
+    ));
+    return `
+--- Cluster P${idx + 1} ---
+Title: ${cluster.title}
+Sources: ${cluster.source_ids.length} (${publishers.slice(0, 8).join(', ')}${publishers.length > 8 ? ', ...' : ''})
+Sentiment: ${cluster.consensus_sentiment}
+Synthesis: ${cluster.synthesis}${cluster.counter_point ? `\nCounter-point: ${cluster.counter_point}` : ''}
+`;
+  }).join('\n');
+}
+
+/**
+ * Sort insights so ones sharing their most common theme sit together, then
+ * cut them into equal batches of at most batchSize
+ */
+function batchInsightsByTheme(insights: InsightObject[], batchSize: number): InsightObject[][] {
+  const normalize = (term: string) => term.trim().toLowerCase();
+  const themeCounts = new Map<string, number>();
+  for (const insight of insights) {
+    for (const theme of new Set(insight.themes.map(normalize))) {
+      themeCounts.set(theme, (themeCounts.get(theme) || 0) + 1);
+    }
+  }
+
+  // An insight's key: its themes, most widespread first; entities, then publisher, break ties
+  const sortKey = (insight: InsightObject) => [
+    ...Array.from(new Set(insight.themes.map(normalize)))
+      .sort((a, b) => (themeCounts.get(b)! - themeCounts.get(a)!) || a.localeCompare(b)),
+    ...insight.entities.map(normalize).sort(),
+    normalize(insight.publisher),
+  ].join('\u0000');
+
+  const sorted = insights
+    .map(insight => ({ insight, key: sortKey(insight) }))
+    .sort((a, b) => a.key.localeCompare(b.key))
+    .map(entry => entry.insight);
+
+  const batchCount = Math.ceil(sorted.length / batchSize);
+  const perBatch = Math.ceil(sorted.length / batchCount);
+  const batches: InsightObject[][] = [];
+  for (let i = 0; i < sorted.length; i += perBatch) {
+    batches.push(sorted.slice(i, i + perBatch));
+  }
+  return batches;
+}
+
+/**
+ * Run fn over items, at most REDUCE_CONCURRENCY calls at a time
+ */
+async function mapWithConcurrency<T, R>(items: T[], fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += REDUCE_CONCURRENCY) {
+    results.push(...await Promise.all(items.slice(i, i + REDUCE_CONCURRENCY).map((item, j) => fn(item, i + j))));
+  }
+  return results;
+}
+
+function toSentiment(value: unknown): PartialCluster['consensus_sentiment'] {
+  return value === 'Positive' || value === 'Negative' ? value : 'Mixed';
+}
+
+function toCounterPoint(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
+
+/**
+ * The objects in a model array field; anything else is dropped
+ */
+function modelObjects<T extends object>(value: unknown): T[] {
+  return Array.isArray(value) ? value.filter((item): item is T => !!item && typeof item === 'object') : [];
+}
+
+function modelStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function hasTitle<T extends RawModelCluster>(cluster: T): cluster is T & { title: string } {
+  return typeof cluster.title === 'string';
+}
+
+/**
+ * Level 0: one batch of insights to partial clusters citing its emails
+ */
+async function reduceBatchToClusters(
+  batch: InsightObject[],
+  provider: LLMProvider,
+  lens: BriefingLens | undefined,
+  period: string
+): Promise<PartialCluster[]> {
+  const response = await provider.generateAnswer({
+    query: `Here are ${batch.length} newsletter insights from ${period}${lensScope(lens)}. Group them into narrative clusters.`,
+    context: formatInsightsForContext(batch),
+    systemPrompt: PARTIAL_REDUCE_PROMPT,
+    temperature: 0.1,
+    maxOutputTokens: 8192,
+    responseFormat: 'json',
+  });
+
+  const parsed = parseModelJson<{ clusters?: unknown }>(response.content);
+  const batchIds = new Set(batch.map(insight => insight.gmail_message_id));
+  const clusters: PartialCluster[] = modelObjects<RawModelCluster>(parsed?.clusters)
+    .filter(hasTitle)
+    .map(cluster => ({
+      title: cluster.title,
+      synthesis: String(cluster.synthesis || ''),
+      consensus_sentiment: toSentiment(cluster.consensus_sentiment),
+      counter_point: toCounterPoint(cluster.counter_point),
+      // Only IDs from this batch; anything else was invented
+      source_ids: Array.from(new Set(modelStrings(cluster.source_ids).filter(id => batchIds.has(id)))),
+    }))
+    .filter(cluster => cluster.source_ids.length > 0);
+
+  if (clusters.length === 0) {
+    console.warn(`   ⚠️  A batch of ${batch.length} insights produced no usable clusters`);
+  }
+  return clusters;
+}
+
+/**
+ * Resolve a merge's partial_ids (P1, P2, ...) to the input clusters'
+ * combined source_ids; inputs the model left out are returned as unused
+ */
+function resolvePartialIds(
+  partialIds: unknown,
+  inputs: PartialCluster[],
+  used: Set<number>
+): string[] {
+  const sourceIds = new Set<string>();
+  for (const id of Array.isArray(partialIds) ? partialIds : []) {
+    const index = parseInt(String(id).replace(/^P/i, ''), 10) - 1;
+    if (index >= 0 && index < inputs.length) {
+      used.add(index);
+      inputs[index].source_ids.forEach(sourceId => sourceIds.add(sourceId));
+    }
+  }
+  return Array.from(sourceIds);
+}
+
+/**
+ * Level 1+: merge a batch of partial clusters into fewer partial clusters.
+ * Inputs the model doesn't place are carried over unchanged.
+ */
+async function mergeClusterBatch(
+  inputs: PartialCluster[],
+  provider: LLMProvider,
+  insightsMap: Map<string, InsightObject>
+): Promise<PartialCluster[]> {
+  const response = await provider.generateAnswer({
+    query: `Merge these ${inputs.length} partial clusters.`,
+    context: formatPartialClusters(inputs, insightsMap),
+    systemPrompt: MERGE_PROMPT,
+    temperature: 0.1,
+    maxOutputTokens: 8192,
+    responseFormat: 'json',
+  });
+
+  const parsed = parseModelJson<{ clusters?: unknown }>(response.content);
+  const used = new Set<number>();
+  const merged: PartialCluster[] = modelObjects<RawModelCluster>(parsed?.clusters)
+    .filter(hasTitle)
+    .map(cluster => ({
+      title: cluster.title,
+      synthesis: String(cluster.synthesis || ''),
+      consensus_sentiment: toSentiment(cluster.consensus_sentiment),
+      counter_point: toCounterPoint(cluster.counter_point),
+      source_ids: resolvePartialIds(cluster.partial_ids, inputs, used),
+    }))
+    .filter(cluster => cluster.source_ids.length > 0);
+
+  return [...merged, ...inputs.filter((_, index) => !used.has(index))];
+}
+
+async function reduceHierarchically(
+  insights: InsightObject[],
+  provider: LLMProvider,
+  lens: BriefingLens | undefined,
+  period: string
+): Promise<BriefingContent> {
+  const insightsMap = new Map(insights.map(insight => [insight.gmail_message_id, insight]));
+
+  // Level 0: insights -> partial clusters
+  const batches = batchInsightsByTheme(insights, REDUCE_BATCH_SIZE);
+  console.log(`   Level 0: ${insights.length} insights in ${batches.length} theme batches`);
+  let clusters = (await mapWithConcurrency(batches, batch => reduceBatchToClusters(batch, provider, lens, period))).flat();
+  console.log(`   Level 0: ${clusters.length} partial clusters`);
+
+  // Level 1+: merge until the clusters fit the final prompt
+  let level = 1;
+  let catchAll: PartialCluster | null = null;
+  while (clusters.length > MERGE_BATCH_SIZE) {
+    const groups: PartialCluster[][] = [];
+    for (let i = 0; i < clusters.length; i += MERGE_BATCH_SIZE) {
+      groups.push(clusters.slice(i, i + MERGE_BATCH_SIZE));
+    }
+    const merged = (await mapWithConcurrency(groups, group => mergeClusterBatch(group, provider, insightsMap))).flat();
+    console.log(`   Level ${level}: ${clusters.length} -> ${merged.length} partial clusters`);
+    if (merged.length >= clusters.length) {
+      // No progress: keep the largest clusters and fold the rest into one
+      // catch-all, so their sources still reach the final prompt
+      const sorted = merged.sort((a, b) => b.source_ids.length - a.source_ids.length);
+      const rest = sorted.slice(MERGE_BATCH_SIZE - 1);
+      catchAll = {
+        title: 'Other developments',
+        synthesis: `Smaller stories: ${rest.map(cluster => cluster.title).join('; ')}`,
+        consensus_sentiment: 'Mixed',
+        counter_point: null,
+        source_ids: Array.from(new Set(rest.flatMap(cluster => cluster.source_ids))),
+      };
+      console.warn(`   ⚠️  Level ${level}: merging stalled; folded ${rest.length} smaller clusters (${catchAll.source_ids.length} sources) into one catch-all cluster`);
+      clusters = [...sorted.slice(0, MERGE_BATCH_SIZE - 1), catchAll];
+      break;
+    }
+    clusters = merged;
+    level++;
+  }
+
+  // Serendipity candidates: insights no cluster with 2+ sources covers (the
+  // catch-all's small stories stay eligible)
+  const clustered = new Set(clusters.filter(c => c.source_ids.length > 1 && c !== catchAll).flatMap(c => c.source_ids));
+  const candidates = insights
+    .filter(insight => !clustered.has(insight.gmail_message_id) && insight.summary && !insight.summary.startsWith('[Extraction failed]'))
+    .slice(0, MAX_SERENDIPITY_CANDIDATES);
+  const candidateContext = candidates.map((insight, idx) =>
+    `S${idx + 1}: ${insight.subject} (${insight.publisher}) - ${insight.summary}`
+  ).join('\n');
+
+  // Final: partial clusters -> briefing
+  const response = await provider.generateAnswer({
+    query: `Here are ${clusters.length} narrative clusters built from ${insights.length} newsletters from ${period}${lensScope(lens)}. Compile them into ${briefingKind(period)} and generate the briefing JSON now.`,
+    context: `${formatPartialClusters(clusters, insightsMap)}\n\n--- Serendipity candidates ---\n${candidateContext || '(none)'}`,
+    systemPrompt: FINAL_MERGE_PROMPT,
+    temperature: 0.1,
+    maxOutputTokens: 8192,
+    responseFormat: 'json',
+  });
+
+  const parsed = parseModelJson<RawBriefingOutput>(response.content);
+  if (!parsed) {
+    return {
+      executive_summary: ['[Briefing generation encountered parsing issues]'],
+      narrative_clusters: [],
+      serendipity_corner: [],
+      radar_signals: [],
+    };
+  }
+
+  const used = new Set<number>();
+  const narrativeClusters: NarrativeCluster[] = modelObjects<RawModelCluster>(parsed.narrative_clusters)
+    .filter(hasTitle)
+    .map(cluster => ({
+      title: cluster.title,
+      synthesis: String(cluster.synthesis || ''),
+      consensus_sentiment: toSentiment(cluster.consensus_sentiment),
+      counter_point: toCounterPoint(cluster.counter_point),
+      source_ids: resolvePartialIds(cluster.partial_ids, clusters, used),
+    }))
+    .filter(cluster => cluster.source_ids.length > 0);
+
+  const serendipity: SerendipityItem[] = modelObjects<RawSerendipityItem>(parsed.serendipity_corner)
+    .map(item => {
+      const candidate = candidates[parseInt(String(item.candidate_id || '').replace(/^S/i, ''), 10) - 1];
+      return candidate ? {
+        title: typeof item.title === 'string' && item.title ? item.title : candidate.subject,
+        insight: typeof item.insight === 'string' && item.insight ? item.insight : candidate.summary,
+        source_id: candidate.gmail_message_id,
+        publisher: candidate.publisher,
+      } : null;
+    })
+    .filter((item): item is SerendipityItem => item !== null);
+
+  console.log(`   Final: ${narrativeClusters.length} clusters from ${used.size}/${clusters.length} partial clusters`);
+
+  return {
+    executive_summary: modelStrings(parsed.executive_summary),
+    narrative_clusters: narrativeClusters,
+    serendipity_corner: serendipity,
+    radar_signals: modelStrings(parsed.radar_signals),
+  };
+}
+
+/**
+ * Consensus from the sources' own sentiments: a label wins only with a strict
+ * plurality, otherwise (or with no sources) the cluster is Mixed
+ */
+function calculateSentimentBreakdown(
+  sentiments: InsightObject['sentiment'][],
+  llm_consensus: NarrativeCluster['consensus_sentiment']
+): SentimentBreakdown {
+  const positive = sentiments.filter(s => s === 'positive').length;
+  const negative = sentiments.filter(s => s === 'negative').length;
+  const neutral = sentiments.filter(s => s === 'neutral').length;
+  const total = positive + negative + neutral;
+  
+  // Calculate mathematical consensus
+  let calculated_consensus: 'Positive' | 'Negative' | 'Mixed';
+  if (total === 0) {
+    calculated_consensus = 'Mixed';
+  } else if (positive > negative && positive > neutral) {
+    calculated_consensus = 'Positive';
+  } else if (negative > positive && negative > neutral) {
+    calculated_consensus = 'Negative';
+  } else {
+    calculated_consensus = 'Mixed';
+  }
+  
+  return {
+    positive,
+    negative,
+    neutral,
+    total,
+    calculated_consensus,
+    llm_consensus,
+    override_applied: calculated_consensus !== llm_consensus,  // Math overrides the LLM
+  };
+}
+
+async function reduceInsightsToBriefing(
+  insights: InsightObject[],
+  provider: LLMProvider,
+  lens?: BriefingLens,
+  period: string = 'the past day'
+): Promise<BriefingContent> {
+  if (insights.length === 0) {
+    return {
+      executive_summary: ['No newsletters processed in this time window.'],
+      narrative_clusters: [],
+      serendipity_corner: [],
+      radar_signals: [],
+    };
+  }
+  
+  const hierarchical = insights.length > REDUCE_BATCH_SIZE;
+  console.log(`🧠 Starting Reduce phase: Synthesizing ${insights.length} insights${hierarchical ? ' (hierarchical)' : ''}...`);
+  
+  const briefing = hierarchical
+    ? await reduceHierarchically(insights, provider, lens, period)
+    : await reduceSinglePass(insights, provider, lens, period);
+  
+  // Validate and fix structure
+  if (!briefing.executive_summary || !Array.isArray(briefing.executive_summary)) {
+    briefing.executive_summary = ['[Briefing generation incomplete]'];
+  }
+  if (!briefing.narrative_clusters || !Array.isArray(briefing.narrative_clusters)) {
+    briefing.narrative_clusters = [];
+  }
+  if (!briefing.serendipity_corner || !Array.isArray(briefing.serendipity_corner)) {
+    briefing.serendipity_corner = [];
+  }
+  if (!briefing.radar_signals || !Array.isArray(briefing.radar_signals)) {
+    briefing.radar_signals = [];
+  }
+  
+  // Enrich clusters with source citations and DETERMINISTIC SENTIMENT MATH
+  const insightsMap = new Map(insights.map(insight => [insight.gmail_message_id, insight]));
+  
+  briefing.narrative_clusters = briefing.narrative_clusters.map(cluster => {
+    // Get all insights for this cluster
+    const clusterInsights = cluster.source_ids
+      .map(id => insightsMap.get(id))
+      .filter((insight): insight is InsightObject => insight !== undefined);
+    
+    // Enrich sources with sentiment
+    const enrichedSources = clusterInsights.map(insight => ({
+      gmail_message_id: insight.gmail_message_id,
+      publisher: insight.publisher,
+      subject: insight.subject,
+      sent_date: insight.sent_date,
+      snippet: insight.snippet,
+      sentiment: insight.sentiment,
+    }));
+    
+    // DETERMINISTIC SENTIMENT MATH (100% Falsifiable)
+    const breakdown = calculateSentimentBreakdown(
+      clusterInsights.map(i => i.sentiment),
+      cluster.consensus_sentiment
+    );
+    
+    if (breakdown.override_applied) {
+      console.log(`   ⚠️  Sentiment override: "${cluster.title}" LLM said ${breakdown.llm_consensus}, Math says ${breakdown.calculated_consensus}`);
+    }
+    
+    return {
+      ...cluster,
+      // MATH WINS: Use calculated consensus, not LLM guess
+      consensus_sentiment: breakdown.calculated_consensus,
+      sources: enrichedSources.length > 0 ? enrichedSources : undefined,
+      sentiment_breakdown: breakdown,
+    };
+  });
+  
+  console.log(`✅ Reduce phase complete:`);
+  console.log(`   - Executive summary: ${briefing.executive_summary.length} points`);
+  console.log(`   - Narrative clusters: ${briefing.narrative_clusters.length}`);
+  console.log(`   - Serendipity items: ${briefing.serendipity_corner.length}`);
+  console.log(`   - Radar signals: ${briefing.radar_signals.length}`);
+  
+  return briefing;
+}
+
+// ============================================================================
+// Narrative Continuity (Step C2)
+//
+// Each cluster is matched to the narratives seen in the last
+// NARRATIVE_LOOKBACK_DAYS (their latest appearance) in briefings with the
+// same lens, by source overlap, entity overlap and title/synthesis embedding
+// similarity. A match keeps the narrative_id; an unmatched cluster starts a
+// new narrative.
+// ============================================================================
+
+/**
+ * A narrative's latest appearance, as the next briefing matches against it
+ */
+interface NarrativeCandidate {
+  narrative_id: string;
+  source_ids: string[];
+  entities: string[];
+  embedding: number[];
+}
+
+interface NarrativeAppearanceRow {
+  appearance: NarrativeAppearance;
+  embedding: number[];
+}
+
+/**
+ * narrative_appearances as read back; repeated columns can come back null
+ * and sentiment_breakdown is a JSON column
+ */
+interface StoredAppearanceRow extends Omit<NarrativeAppearance, 'source_ids' | 'entities' | 'sentiment_breakdown'> {
+  source_ids: string[] | null;
+  entities: string[] | null;
+  sentiment_breakdown: unknown;
+  embedding: number[] | null;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Shared share of the smaller set: 1 when one cluster's sources (or
+ * entities) are all in the other
+ */
+function overlap(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const setB = new Set(b);
+  return a.filter(item => setB.has(item)).length / Math.min(a.length, setB.size);
+}
+
+/**
+ * 0 unless the cluster shares a source or an entity with the narrative:
+ * similar wording alone doesn't make two stories the same one
+ */
+function narrativeMatchScore(
+  cluster: { source_ids: string[]; entities: string[]; embedding: number[] },
+  candidate: NarrativeCandidate
+): number {
+  const sources = overlap(cluster.source_ids, candidate.source_ids);
+  const entities = overlap(cluster.entities, candidate.entities);
+  if (sources === 0 && entities === 0) return 0;
+  return NARRATIVE_SOURCE_WEIGHT * sources
+    + NARRATIVE_ENTITY_WEIGHT * entities
+    + NARRATIVE_EMBEDDING_WEIGHT * Math.max(0, cosineSimilarity(cluster.embedding, candidate.embedding));
+}
+
+/**
+ * Latest appearance of every narrative seen since `since` in briefings with
+ * the same lens (or whole-inbox briefings). Empty (with a warning) if the
+ * table doesn't exist yet.
+ */
+async function loadRecentNarratives(bigquery: BigQuery, since: Date, lens?: BriefingLens): Promise<NarrativeCandidate[]> {
+  try {
+    const [rows] = await bigquery.query({
+      query: `
+        SELECT a.narrative_id, a.source_ids, a.entities, a.embedding
+        FROM \`${PROJECT_ID}.${DATASET_ID}.narrative_appearances\` a
+        JOIN \`${PROJECT_ID}.${DATASET_ID}.briefings\` b USING (briefing_id)
+        WHERE a.generated_at > TIMESTAMP(@since)
+          AND ${lens ? 'b.lens_name = @lensName' : 'b.lens_name IS NULL'}
+        QUALIFY ROW_NUMBER() OVER (PARTITION BY a.narrative_id ORDER BY a.generated_at DESC) = 1
+      `,
+      params: lens ? { since: since.toISOString(), lensName: lens.name } : { since: since.toISOString() },
+      location: BIGQUERY_LOCATION,
+    });
+
+    return rows.map((row: Pick<StoredAppearanceRow, 'narrative_id' | 'source_ids' | 'entities' | 'embedding'>) => ({
+      narrative_id: row.narrative_id,
+      source_ids: row.source_ids || [],
+      entities: row.entities || [],
+      embedding: row.embedding || [],
+    }));
+  } catch (error) {
+    if (isNotFound(error)) {
+      console.warn('⚠️  narrative_appearances table not found; every cluster starts a narrative (run scripts/setup-briefings-table.ts)');
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Give every cluster a narrative_id (set on the cluster) and return the
+ * appearance rows to store. Matches are one-to-one, best score first.
+ */
+async function trackNarratives(
+  bigquery: BigQuery,
+  clusters: NarrativeCluster[],
+  insights: InsightObject[],
+  briefingId: string,
+  generatedAt: Date,
+  lens?: BriefingLens
+): Promise<NarrativeAppearanceRow[]> {
+  if (clusters.length === 0) {
+    return [];
+  }
+  console.log(`🧵 Matching ${clusters.length} clusters to earlier narratives...`);
+
+  const insightsMap = new Map(insights.map(insight => [insight.gmail_message_id, insight]));
+  const features = clusters.map(cluster => ({
+    source_ids: cluster.source_ids,
+    entities: Array.from(new Set(cluster.source_ids.flatMap(id =>
+      (insightsMap.get(id)?.entities || []).map(entity => entity.trim().toLowerCase())
+    ))),
+    embedding: [] as number[],
+  }));
+
+  // Without embeddings, matches rely on sources and entities alone
+  try {
+    const embeddings = await embedBatch(clusters.map(cluster => `${cluster.title}. ${cluster.synthesis}`));
+    embeddings.forEach((embedding, idx) => { features[idx].embedding = embedding; });
+  } catch (error) {
+    console.warn('⚠️  Could not embed clusters; matching on sources and entities only:', error);
+  }
+
+  const since = new Date(generatedAt.getTime() - NARRATIVE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const candidates = await loadRecentNarratives(bigquery, since, lens);
+
+  const pairs: { cluster: number; candidate: number; score: number }[] = [];
+  features.forEach((feature, c) => {
+    candidates.forEach((candidate, n) => {
+      const score = narrativeMatchScore(feature, candidate);
+      if (score >= NARRATIVE_MATCH_THRESHOLD) {
+        pairs.push({ cluster: c, candidate: n, score });
+      }
+    });
+  });
+  pairs.sort((a, b) => b.score - a.score);
+
+  const matches = new Map<number, { narrative_id: string; score: number }>();
+  const taken = new Set<number>();
+  for (const pair of pairs) {
+    if (matches.has(pair.cluster) || taken.has(pair.candidate)) continue;
+    matches.set(pair.cluster, { narrative_id: candidates[pair.candidate].narrative_id, score: pair.score });
+    taken.add(pair.candidate);
+  }
+
+  const rows = clusters.map((cluster, idx) => {
+    const match = matches.get(idx);
+    cluster.narrative_id = match?.narrative_id ?? uuidv4();
+    return {
+      appearance: {
+        narrative_id: cluster.narrative_id,
+        briefing_id: briefingId,
+        generated_at: generatedAt.toISOString(),
+        cluster_title: cluster.title,
+        synthesis: cluster.synthesis,
+        consensus_sentiment: cluster.consensus_sentiment,
+        source_count: cluster.source_ids.length,
+        source_ids: cluster.source_ids,
+        entities: features[idx].entities,
+        sentiment_breakdown: cluster.sentiment_breakdown ?? null,
+        match_score: match ? Math.round(match.score * 1000) / 1000 : null,
+      },
+      embedding: features[idx].embedding,
+    };
+  });
+
+  console.log(`✅ ${matches.size} clusters continue earlier narratives, ${clusters.length - matches.size} start new ones`);
+  return rows;
+}
+
+/**
+ * Append the briefing's narrative appearances. Losing them breaks the
+ * timeline but not the briefing, so a failed write only warns.
+ */
+async function storeNarrativeAppearances(
+  bigquery: BigQuery,
+  rows: NarrativeAppearanceRow[]
+): Promise<void> {
+  if (rows.length === 0) {
+    return;
+  }
+
+  try {
+    await bigquery.dataset(DATASET_ID).table('narrative_appearances').insert(rows.map(({ appearance, embedding }) => ({
+      ...appearance,
+      sentiment_breakdown: appearance.sentiment_breakdown ? JSON.stringify(appearance.sentiment_breakdown) : null,
+      embedding,
+    })));
+    console.log(`💾 Stored ${rows.length} narrative appearances`);
+  } catch (error) {
+    console.warn('⚠️  Could not store narrative appearances:', error);
+  }
+}
+
+// ============================================================================
+// Storage (Step D)
+// ============================================================================
+
+async function storeBriefing(
+  bigquery: BigQuery,
+  briefingId: string,
+  generatedAt: Date,
+  windowStart: Date,
+  windowEnd: Date,
+  emailCount: number,
+  content: BriefingContent,
+  modelVersion: string,
+  lens: BriefingLens | null,
+  briefingType: BriefingType = 'daily',
+  childBriefingIds: string[] = []
+): Promise<void> {
+  const table = bigquery.dataset(DATASET_ID).table('briefings');
+
+  const row = {
+    briefing_id: briefingId,
+    generated_at: generatedAt.toISOString(),
+    time_window_start: windowStart.toISOString(),
+    time_window_end: windowEnd.toISOString(),
+    content_json: JSON.stringify(content),
+    email_count: emailCount,
+    model_version: modelVersion,
+    lens_name: lens?.name ?? null,
+    lens_json: lens ? JSON.stringify(lens) : null,
+    briefing_type: briefingType,
+    child_briefing_ids: childBriefingIds,
+  };
+
+  await table.insert([row]);
+  console.log(`💾 Briefing ${briefingId} stored in BigQuery`);
+}
+
+// ============================================================================
+// Main Generator Function
+// ============================================================================
+
+/**
+ * Generate a daily intelligence briefing
+ * 
+ * @param windowHours - Optional: Override lookback window in hours
+ * @returns The generated briefing with metadata
+ */
+export async function generateBriefing(
   windowHours?: number
 ): Promise<BriefingPipelineResult>;
 
@@ -684,6 +1605,13 @@ export async function generateBriefing(
   const bigquery = getBigQueryClient();
   const maxEmails = options.maxEmails ?? DEFAULT_MAX_EMAILS;
   const mapBatchSize = options.mapBatchSize ?? DEFAULT_MAP_BATCH_SIZE;
+  const mapProvider = options.mapProvider || getLLMProviderFor(FLASH_MODEL);
+  const reduceProvider = options.reduceProvider || getLLMProviderFor(PRO_MODEL);
+  const modelVersion = `flash:${mapProvider.modelName},pro:${reduceProvider.modelName}`;
+  const lens = options.lens ?? null;
+  if (lens) {
+    console.log(`🔭 Lens: ${lens.name}`);
+  }
 
   // Determine time window
   let windowStart: Date;
@@ -699,7 +1627,7 @@ export async function generateBriefing(
     console.log(`📅 Override mode: Looking back ${options.windowHours} hours`);
   } else {
     // Delta: based on last briefing
-    const lastBriefingEnd = await getLastBriefingEndTime(bigquery);
+    const lastBriefingEnd = await getLastBriefingEndTime(bigquery, lens ?? undefined);
 
     if (lastBriefingEnd) {
       windowStart = lastBriefingEnd;
@@ -711,8 +1639,16 @@ export async function generateBriefing(
     }
   }
 
-  // Step A: Fetch delta emails
-  const emails = await fetchDeltaEmails(bigquery, windowStart, windowEnd, maxEmails);
+  // Step A: Fetch delta emails (more of them when a lens will narrow them down)
+  const { emails: candidates, total: windowEmailCount } = await fetchDeltaEmails(
+    bigquery,
+    windowStart,
+    windowEnd,
+    lens ? Math.min(maxEmails * LENS_CANDIDATE_MULTIPLIER, MAX_LENS_CANDIDATES) : maxEmails
+  );
+  const emails = lens
+    ? (await selectLensEmails(bigquery, candidates, lens)).slice(0, maxEmails)
+    : candidates;
 
   if (emails.length === 0) {
     console.log('⚠️  No emails found in time window. Creating empty briefing.');
@@ -720,7 +1656,9 @@ export async function generateBriefing(
     const briefingId = uuidv4();
     const generatedAt = new Date();
     const emptyContent: BriefingContent = {
-      executive_summary: ['No new newsletters were processed in this time window.'],
+      executive_summary: [lens && candidates.length > 0
+        ? `No newsletters in this time window matched the "${lens.name}" lens.`
+        : 'No new newsletters were processed in this time window.'],
       narrative_clusters: [],
       serendipity_corner: [],
       radar_signals: [],
@@ -734,7 +1672,8 @@ export async function generateBriefing(
       windowEnd,
       0,
       emptyContent,
-      MODEL_VERSION
+      modelVersion,
+      lens
     );
 
     return {
@@ -744,22 +1683,46 @@ export async function generateBriefing(
       time_window_end: windowEnd.toISOString(),
       email_count: 0,
       content: emptyContent,
-      model_version: MODEL_VERSION,
+      model_version: modelVersion,
+      lens,
+      candidate_count: candidates.length,
+      window_email_count: windowEmailCount,
+      map_stats: { cached: 0, extracted: 0, failed: 0 },
     };
   }
 
   // Step B: Map phase
   console.log('\n--- MAP PHASE ---');
-  const insights = await mapEmailsToInsights(emails, mapBatchSize);
+  const { insights, stats: mapStats } = await mapEmailsToInsights(
+    bigquery,
+    emails,
+    mapProvider,
+    mapBatchSize,
+    options.refreshInsights ?? false
+  );
 
   // Step C: Reduce phase
   console.log('\n--- REDUCE PHASE ---');
-  const content = await reduceInsightsToBriefing(insights);
+  const content = await reduceInsightsToBriefing(
+    insights,
+    reduceProvider,
+    lens ?? undefined,
+    describePeriod(windowStart, windowEnd)
+  );
+  const briefingId = uuidv4();
+  const generatedAt = new Date();
+
+  // Step C2: Link clusters to earlier briefings' narratives
+  console.log('\n--- NARRATIVE CONTINUITY ---');
+  let appearances: NarrativeAppearanceRow[] = [];
+  try {
+    appearances = await trackNarratives(bigquery, content.narrative_clusters, insights, briefingId, generatedAt, lens ?? undefined);
+  } catch (error) {
+    console.warn('⚠️  Narrative tracking failed; storing the briefing without narrative IDs:', error);
+  }
 
   // Step D: Store
   console.log('\n--- STORAGE PHASE ---');
-  const briefingId = uuidv4();
-  const generatedAt = new Date();
 
   await storeBriefing(
     bigquery,
@@ -769,14 +1732,16 @@ export async function generateBriefing(
     windowEnd,
     emails.length,
     content,
-    MODEL_VERSION
+    modelVersion,
+    lens
   );
+  await storeNarrativeAppearances(bigquery, appearances);
 
   const duration = ((Date.now() - startTime) / 1000).toFixed(1);
   console.log('\n' + '='.repeat(60));
   console.log(`✅ Briefing Pipeline Complete in ${duration}s`);
   console.log(`   Briefing ID: ${briefingId}`);
-  console.log(`   Emails processed: ${emails.length}`);
+  console.log(`   Emails processed: ${emails.length} (${mapStats.cached} insights from cache)`);
   console.log(`   Clusters generated: ${content.narrative_clusters.length}`);
   console.log('='.repeat(60) + '\n');
 
@@ -787,7 +1752,342 @@ export async function generateBriefing(
     time_window_end: windowEnd.toISOString(),
     email_count: emails.length,
     content,
-    model_version: MODEL_VERSION,
+    model_version: modelVersion,
+    lens,
+    candidate_count: candidates.length,
+    window_email_count: windowEmailCount,
+    map_stats: mapStats,
+  };
+}
+
+// ============================================================================
+// Roll-ups (weekly / monthly briefings from stored daily briefings)
+// ============================================================================
+
+const ROLLUP_PROMPT = `You are a Senior Intelligence Analyst writing a periodic roll-up from a series of daily intelligence briefings.
+Each daily briefing (B1, B2, ... oldest first) lists its narrative clusters (B1.C1, B1.C2, ...) and serendipity items (B1.S1, ...).
+
+## YOUR TASK
+Follow each story ACROSS the days. A story that appears in several daily briefings, possibly under different titles, is ONE narrative arc.
+
+## CRITICAL GROUNDING RULES
+1. ONLY use information in the daily briefings. You have ZERO outside knowledge.
+2. Every arc MUST list the exact cluster IDs (e.g. "B1.C2", "B4.C1") it follows, in "cluster_refs". Each cluster belongs to at most one arc.
+3. Use the language of the briefings; no invented dramatic framings or generic tropes.
+4. The synthesis describes how the story developed over the period, not just its latest state.
+5. counter_point only when a daily cluster recorded explicit disagreement.
+
+## OUTPUT STRUCTURE (JSON)
+{
+  "executive_summary": ["Dominant story of the period (1-2 sentences)", "Second", "Third"],
+  "narrative_arcs": [
+    {
+      "title": "Short descriptive title using briefing language",
+      "synthesis": "2-3 sentences on how the story developed across the period",
+      "consensus_sentiment": "Positive" | "Negative" | "Mixed",
+      "counter_point": "..." or null,
+      "cluster_refs": ["B1.C2", "B3.C1", "B6.C4"]
+    }
+  ],
+  "serendipity_refs": ["B2.S1", "B5.S2"]
+}
+
+## STRICT REQUIREMENTS
+1. executive_summary: EXACTLY 3 points, favouring stories that ran across several days.
+2. narrative_arcs: 4-10 arcs. Include stories that faded or only appeared late in the period, not just the biggest ones.
+3. serendipity_refs: EXACTLY 2 serendipity item IDs worth resurfacing.
+
+Return ONLY valid JSON. No markdown, no explanation, just the JSON object.`;
+
+/**
+ * Start of a roll-up period: 7 days, or one calendar month, before its end
+ */
+function rollupPeriodStart(period: RollupOptions['period'], periodEnd: Date): Date {
+  const start = new Date(periodEnd);
+  if (period === 'weekly') {
+    start.setUTCDate(start.getUTCDate() - 7);
+  } else {
+    start.setUTCMonth(start.getUTCMonth() - 1);
+  }
+  return start;
+}
+
+/**
+ * Daily briefings (same lens, or whole-inbox) whose windows end in the
+ * period, oldest first
+ */
+async function getDailyBriefingIds(
+  bigquery: BigQuery,
+  periodStart: Date,
+  periodEnd: Date,
+  lens?: BriefingLens
+): Promise<string[]> {
+  const query = `
+    SELECT briefing_id
+    FROM \`${PROJECT_ID}.${DATASET_ID}.briefings\`
+    WHERE IFNULL(briefing_type, 'daily') = 'daily'
+      AND ${lens ? 'lens_name = @lensName' : 'lens_name IS NULL'}
+      AND time_window_end > TIMESTAMP('${periodStart.toISOString()}')
+      AND time_window_end <= TIMESTAMP('${periodEnd.toISOString()}')
+    ORDER BY time_window_end ASC
+  `;
+
+  const [rows] = await bigquery.query({
+    query,
+    location: BIGQUERY_LOCATION,
+    params: lens ? { lensName: lens.name } : {},
+  });
+
+  return rows.map(row => row.briefing_id as string);
+}
+
+function formatBriefingsForContext(children: StoredBriefing[]): string {
+  return children.map((child, b) => {
+    const content = child.content_json;
+    const clusters = (content.narrative_clusters || []).map((cluster, c) =>
+      `B${b + 1}.C${c + 1}: ${cluster.title} (${cluster.source_ids?.length || 0} sources, ${cluster.consensus_sentiment})\n  ${cluster.synthesis}${cluster.counter_point ? `\n  Counter-point: ${cluster.counter_point}` : ''}`
+    );
+    const serendipity = (content.serendipity_corner || []).map((item, s) =>
+      `B${b + 1}.S${s + 1}: ${item.title} (${item.publisher}) - ${item.insight}`
+    );
+    return `
+=== Briefing B${b + 1}: ${child.time_window_start} to ${child.time_window_end} (${child.email_count} newsletters) ===
+Executive summary:
+${(content.executive_summary || []).map(point => `  • ${point}`).join('\n')}
+Narrative clusters:
+${clusters.join('\n') || '  (none)'}
+Serendipity:
+${serendipity.join('\n') || '  (none)'}
+Radar: ${(content.radar_signals || []).join(', ')}
+`;
+  }).join('\n');
+}
+
+/**
+ * "B3.C2" -> [2, 1]; null for anything that isn't a valid reference
+ */
+function parseBriefingRef(ref: unknown, kind: 'C' | 'S', children: StoredBriefing[]): [number, number] | null {
+  const match = String(ref).trim().match(new RegExp(`^B(\\d+)\\.${kind}(\\d+)$`, 'i'));
+  if (!match) return null;
+  const b = parseInt(match[1], 10) - 1;
+  const i = parseInt(match[2], 10) - 1;
+  const items = kind === 'C'
+    ? children[b]?.content_json.narrative_clusters
+    : children[b]?.content_json.serendipity_corner;
+  return items && i >= 0 && i < items.length ? [b, i] : null;
+}
+
+/**
+ * Roll-up model output as parsed, before validation
+ */
+interface RawNarrativeArc extends RawModelCluster {
+  cluster_refs?: unknown;   // "B1.C2" references to daily clusters
+}
+
+interface RawRollupOutput {
+  executive_summary?: unknown;
+  narrative_arcs?: unknown;
+  serendipity_refs?: unknown;
+}
+
+/**
+ * Status from sources per child briefing (see ClusterTrajectory). A single
+ * briefing has no halves to compare, so a story in it is 'continuing'.
+ */
+function calculateTrajectoryStatus(sourceCounts: number[]): ClusterTrajectory['status'] {
+  if (sourceCounts.length < 2) return 'continuing';
+
+  const half = Math.floor(sourceCounts.length / 2);
+  const early = sourceCounts.slice(0, half);
+  const late = sourceCounts.slice(half);
+  const average = (counts: number[]) => counts.reduce((sum, n) => sum + n, 0) / counts.length;
+
+  if (early.every(n => n === 0)) return 'new';
+  if (late.every(n => n === 0)) return 'fading';
+
+  const ratio = average(late) / average(early);
+  if (ratio >= TRAJECTORY_GROWTH_RATIO) return 'growing';
+  if (ratio <= 1 / TRAJECTORY_GROWTH_RATIO) return 'fading';
+  return 'continuing';
+}
+
+/**
+ * The children's radar signals by how many briefings raised them; ties go
+ * to the one raised most recently
+ */
+function rollupRadarSignals(children: StoredBriefing[]): string[] {
+  const signals = new Map<string, { label: string; count: number; last: number }>();
+  children.forEach((child, b) => {
+    for (const signal of new Set(child.content_json.radar_signals || [])) {
+      const key = signal.trim().toLowerCase();
+      const entry = signals.get(key);
+      signals.set(key, { label: signal.trim(), count: (entry?.count || 0) + 1, last: b });
+    }
+  });
+  return Array.from(signals.values())
+    .sort((a, b) => (b.count - a.count) || (b.last - a.last))
+    .slice(0, ROLLUP_RADAR_SIGNALS)
+    .map(entry => entry.label);
+}
+
+/**
+ * Build an arc's cluster from the daily clusters it follows: sources and
+ * source_ids are their union, sentiment is recomputed from those sources
+ * and the narrative_id is the one most of them share
+ */
+function buildArcCluster(
+  arc: RawNarrativeArc,
+  children: StoredBriefing[],
+  used: Set<string>
+): NarrativeCluster | null {
+  const sourceCounts = children.map(() => 0);
+  const sourceIds = new Set<string>();
+  const sources = new Map<string, SourceCitation>();
+  const narrativeIds = new Map<string, number>();
+
+  for (const ref of Array.isArray(arc.cluster_refs) ? arc.cluster_refs : []) {
+    const parsed = parseBriefingRef(ref, 'C', children);
+    if (!parsed || used.has(parsed.join('.'))) continue;
+    used.add(parsed.join('.'));
+
+    const [b, c] = parsed;
+    const daily = children[b].content_json.narrative_clusters[c];
+    sourceCounts[b] += daily.source_ids?.length || 0;
+    (daily.source_ids || []).forEach(id => sourceIds.add(id));
+    (daily.sources || []).forEach(source => sources.set(source.gmail_message_id, source));
+    if (daily.narrative_id) {
+      narrativeIds.set(daily.narrative_id, (narrativeIds.get(daily.narrative_id) || 0) + 1);
+    }
+  }
+
+  if (sourceIds.size === 0 || typeof arc.title !== 'string') {
+    return null;
+  }
+
+  const breakdown = calculateSentimentBreakdown(
+    Array.from(sources.values()).map(source => source.sentiment),
+    toSentiment(arc.consensus_sentiment)
+  );
+
+  return {
+    title: arc.title,
+    synthesis: String(arc.synthesis || ''),
+    consensus_sentiment: breakdown.calculated_consensus,
+    counter_point: toCounterPoint(arc.counter_point),
+    source_ids: Array.from(sourceIds),
+    sources: sources.size > 0 ? Array.from(sources.values()) : undefined,
+    sentiment_breakdown: breakdown,
+    trajectory: {
+      status: calculateTrajectoryStatus(sourceCounts),
+      briefing_ids: children.filter((_, b) => sourceCounts[b] > 0).map(child => child.briefing_id),
+      source_counts: sourceCounts,
+    },
+    // The narrative most of its daily clusters belong to
+    narrative_id: Array.from(narrativeIds.entries()).sort((a, b) => b[1] - a[1])[0]?.[0],
+  };
+}
+
+/**
+ * Generate a weekly or monthly roll-up from the period's stored daily
+ * briefings, tracking which stories continued, grew, faded or first appeared
+ */
+export async function generateRollup(options: RollupOptions): Promise<RollupResult> {
+  const startTime = Date.now();
+  console.log('\n' + '='.repeat(60));
+  console.log(`🗞️  Starting ${options.period} roll-up`);
+  console.log('='.repeat(60) + '\n');
+
+  const bigquery = getBigQueryClient();
+  const provider = options.provider || getLLMProviderFor(PRO_MODEL);
+  const modelVersion = `rollup:${provider.modelName}`;
+  const lens = options.lens ?? null;
+  const windowEnd = options.periodEnd ?? new Date();
+  const windowStart = rollupPeriodStart(options.period, windowEnd);
+  console.log(`📅 Period: ${windowStart.toISOString()} to ${windowEnd.toISOString()}${lens ? ` (lens: ${lens.name})` : ''}`);
+
+  // Step A: Load the period's daily briefings
+  const childIds = await getDailyBriefingIds(bigquery, windowStart, windowEnd, lens ?? undefined);
+  const children = (await Promise.all(childIds.map(id => getBriefingById(id))))
+    .filter((child): child is StoredBriefing => child !== null);
+
+  if (children.length === 0) {
+    throw new Error(`No daily briefings between ${windowStart.toISOString()} and ${windowEnd.toISOString()} to roll up`);
+  }
+  console.log(`📚 Rolling up ${children.length} daily briefings`);
+
+  // Step B: Follow the stories across them
+  const response = await provider.generateAnswer({
+    query: `Here are ${children.length} daily intelligence briefings from ${describePeriod(windowStart, windowEnd)}${lensScope(lens ?? undefined)}. Write the ${options.period} roll-up JSON now.`,
+    context: formatBriefingsForContext(children),
+    systemPrompt: ROLLUP_PROMPT,
+    temperature: 0.1,
+    maxOutputTokens: 8192,
+    responseFormat: 'json',
+  });
+  const parsed = parseModelJson<RawRollupOutput>(response.content);
+
+  const used = new Set<string>();
+  const narrativeClusters = modelObjects<RawNarrativeArc>(parsed?.narrative_arcs)
+    .map(arc => buildArcCluster(arc, children, used))
+    .filter((cluster): cluster is NarrativeCluster => cluster !== null);
+
+  const serendipity: SerendipityItem[] = [];
+  for (const ref of Array.isArray(parsed?.serendipity_refs) ? parsed.serendipity_refs : []) {
+    const item = parseBriefingRef(ref, 'S', children);
+    if (!item) continue;
+    const [b, s] = item;
+    const daily = children[b].content_json.serendipity_corner[s];
+    if (!serendipity.some(existing => existing.source_id === daily.source_id)) {
+      serendipity.push(daily);
+    }
+  }
+
+  const content: BriefingContent = {
+    executive_summary: Array.isArray(parsed?.executive_summary)
+      ? modelStrings(parsed.executive_summary)
+      : ['[Roll-up generation encountered parsing issues]'],
+    narrative_clusters: narrativeClusters,
+    serendipity_corner: serendipity.slice(0, 2),
+    radar_signals: rollupRadarSignals(children),
+  };
+
+  const dailyClusterCount = children.reduce((sum, child) => sum + (child.content_json.narrative_clusters?.length || 0), 0);
+  console.log(`✅ ${narrativeClusters.length} arcs following ${used.size}/${dailyClusterCount} daily clusters`);
+
+  // Step C: Store
+  const briefingId = uuidv4();
+  const generatedAt = new Date();
+  const emailCount = children.reduce((sum, child) => sum + (child.email_count || 0), 0);
+  const childBriefingIds = children.map(child => child.briefing_id);
+
+  await storeBriefing(
+    bigquery,
+    briefingId,
+    generatedAt,
+    windowStart,
+    windowEnd,
+    emailCount,
+    content,
+    modelVersion,
+    lens,
+    options.period,
+    childBriefingIds
+  );
+
+  const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+  console.log(`✅ Roll-up ${briefingId} complete in ${duration}s\n`);
+
+  return {
+    briefing_id: briefingId,
+    briefing_type: options.period,
+    generated_at: generatedAt.toISOString(),
+    time_window_start: windowStart.toISOString(),
+    time_window_end: windowEnd.toISOString(),
+    email_count: emailCount,
+    child_briefing_ids: childBriefingIds,
+    content,
+    model_version: modelVersion,
+    lens,
   };
 }
 
@@ -795,6 +2095,18 @@ export async function generateBriefing(
 // Query Functions
 // ============================================================================
 
+/**
+ * JSON columns come back as strings or already parsed, depending on the client
+ */
+function parseJsonColumn<T>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  return typeof value === 'string' ? JSON.parse(value) : value as T;
+}
+
+/**
+ * Latest daily whole-inbox briefing; lens briefings and roll-ups are only
+ * reached by ID or through the archive
+ */
 export async function getLatestBriefing(): Promise<StoredBriefing | null> {
   const bigquery = getBigQueryClient();
 
@@ -806,8 +2118,13 @@ export async function getLatestBriefing(): Promise<StoredBriefing | null> {
       FORMAT_TIMESTAMP('%Y-%m-%dT%H:%M:%SZ', time_window_end) as time_window_end,
       content_json,
       email_count,
-      model_version
+      model_version,
+      lens_json,
+      IFNULL(briefing_type, 'daily') as briefing_type,
+      child_briefing_ids
     FROM \`${PROJECT_ID}.${DATASET_ID}.briefings\`
+    WHERE lens_name IS NULL
+      AND IFNULL(briefing_type, 'daily') = 'daily'
     ORDER BY generated_at DESC
     LIMIT 1
   `;
@@ -823,12 +2140,7 @@ export async function getLatestBriefing(): Promise<StoredBriefing | null> {
 
   const row = rows[0];
   
-  let content: BriefingContent;
-  if (typeof row.content_json === 'string') {
-    content = JSON.parse(row.content_json);
-  } else {
-    content = row.content_json;
-  }
+  const content = parseJsonColumn<BriefingContent>(row.content_json)!;
 
   return {
     briefing_id: row.briefing_id,
@@ -838,6 +2150,9 @@ export async function getLatestBriefing(): Promise<StoredBriefing | null> {
     content_json: content,
     email_count: row.email_count,
     model_version: row.model_version,
+    lens: parseJsonColumn<BriefingLens>(row.lens_json),
+    briefing_type: row.briefing_type,
+    child_briefing_ids: row.child_briefing_ids || [],
   };
 }
 
@@ -852,7 +2167,10 @@ export async function getBriefingById(briefingId: string): Promise<StoredBriefin
       FORMAT_TIMESTAMP('%Y-%m-%dT%H:%M:%SZ', time_window_end) as time_window_end,
       content_json,
       email_count,
-      model_version
+      model_version,
+      lens_json,
+      IFNULL(briefing_type, 'daily') as briefing_type,
+      child_briefing_ids
     FROM \`${PROJECT_ID}.${DATASET_ID}.briefings\`
     WHERE briefing_id = @briefingId
   `;
@@ -869,12 +2187,7 @@ export async function getBriefingById(briefingId: string): Promise<StoredBriefin
 
   const row = rows[0];
   
-  let content: BriefingContent;
-  if (typeof row.content_json === 'string') {
-    content = JSON.parse(row.content_json);
-  } else {
-    content = row.content_json;
-  }
+  const content = parseJsonColumn<BriefingContent>(row.content_json)!;
 
   return {
     briefing_id: row.briefing_id,
@@ -884,19 +2197,33 @@ export async function getBriefingById(briefingId: string): Promise<StoredBriefin
     content_json: content,
     email_count: row.email_count,
     model_version: row.model_version,
+    lens: parseJsonColumn<BriefingLens>(row.lens_json),
+    briefing_type: row.briefing_type,
+    child_briefing_ids: row.child_briefing_ids || [],
   };
 }
 
-export async function getBriefingArchive(limit: number = 30): Promise<BriefingArchiveItem[]> {
+/**
+ * Briefing list, newest first. lensName filters to one lens; null to
+ * whole-inbox briefings only; undefined returns all of them.
+ */
+export async function getBriefingArchive(limit: number = 30, lensName?: string | null): Promise<BriefingArchiveItem[]> {
   const bigquery = getBigQueryClient();
 
+  const lensFilter = lensName === undefined ? ''
+    : lensName === null ? 'WHERE lens_name IS NULL'
+    : 'WHERE lens_name = @lensName';
+
   const query = `
     SELECT 
       briefing_id,
       FORMAT_TIMESTAMP('%Y-%m-%dT%H:%M:%SZ', generated_at) as generated_at,
       email_count,
-      JSON_VALUE(content_json, '$.executive_summary[0]') as executive_summary
+      JSON_VALUE(content_json, '$.executive_summary[0]') as executive_summary,
+      lens_name,
+      IFNULL(briefing_type, 'daily') as briefing_type
     FROM \`${PROJECT_ID}.${DATASET_ID}.briefings\`
+    ${lensFilter}
     ORDER BY generated_at DESC
     LIMIT ${limit}
   `;
@@ -904,8 +2231,248 @@ export async function getBriefingArchive(limit: number = 30): Promise<BriefingAr
   const [rows] = await bigquery.query({
     query,
     location: BIGQUERY_LOCATION,
+    params: lensName ? { lensName } : {},
   });
 
   return rows as BriefingArchiveItem[];
 }
 
+
+/**
+ * Look up extracted insights by entity or theme (case-insensitive exact
+ * match), newest first; one row per email, from its latest extraction
+ */
+export async function searchInsights(options: InsightSearchOptions = {}): Promise<InsightObject[]> {
+  const bigquery = getBigQueryClient();
+
+  const limit = options.limit ?? 100;
+  if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+    throw new Error(`limit must be an integer from 1 to 1000 (got ${limit})`);
+  }
+
+  const conditions: string[] = [];
+  const params: Record<string, unknown> = { limit };
+  if (options.entity) {
+    conditions.push('EXISTS (SELECT 1 FROM UNNEST(entities) e WHERE LOWER(e) = LOWER(@entity))');
+    params.entity = options.entity;
+  }
+  if (options.theme) {
+    conditions.push('EXISTS (SELECT 1 FROM UNNEST(themes) t WHERE LOWER(t) = LOWER(@theme))');
+    params.theme = options.theme;
+  }
+  if (options.since) {
+    conditions.push('sent_date >= TIMESTAMP(@since)');
+    params.since = options.since;
+  }
+
+  const [rows] = await bigquery.query({
+    query: `
+      SELECT
+        gmail_message_id,
+        publisher,
+        subject,
+        FORMAT_TIMESTAMP('%Y-%m-%dT%H:%M:%SZ', sent_date) as sent_date,
+        snippet,
+        themes,
+        entities,
+        sentiment,
+        summary,
+        key_claims
+      FROM \`${PROJECT_ID}.${DATASET_ID}.email_insights\`
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      QUALIFY ROW_NUMBER() OVER (PARTITION BY gmail_message_id ORDER BY extracted_at DESC) = 1
+      ORDER BY sent_date DESC
+      LIMIT @limit
+    `,
+    params,
+    location: BIGQUERY_LOCATION,
+  });
+
+  return rows.map((row: InsightRow) => toInsight(row));
+}
+
+/**
+ * Every appearance of a narrative, oldest first; null for an unknown ID
+ */
+export async function getNarrativeTimeline(narrativeId: string): Promise<NarrativeTimeline | null> {
+  const bigquery = getBigQueryClient();
+
+  const query = `
+    SELECT
+      narrative_id,
+      briefing_id,
+      FORMAT_TIMESTAMP('%Y-%m-%dT%H:%M:%SZ', generated_at) as generated_at,
+      cluster_title,
+      synthesis,
+      consensus_sentiment,
+      source_count,
+      source_ids,
+      entities,
+      sentiment_breakdown,
+      match_score
+    FROM \`${PROJECT_ID}.${DATASET_ID}.narrative_appearances\`
+    WHERE narrative_id = @narrativeId
+    ORDER BY generated_at ASC
+  `;
+
+  const [rows] = await bigquery.query({
+    query,
+    location: BIGQUERY_LOCATION,
+    params: { narrativeId },
+  });
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const appearances: NarrativeAppearance[] = rows.map((row: StoredAppearanceRow) => ({
+    narrative_id: row.narrative_id,
+    briefing_id: row.briefing_id,
+    generated_at: row.generated_at,
+    cluster_title: row.cluster_title,
+    synthesis: row.synthesis,
+    consensus_sentiment: row.consensus_sentiment,
+    source_count: row.source_count,
+    source_ids: row.source_ids || [],
+    entities: row.entities || [],
+    sentiment_breakdown: parseJsonColumn<SentimentBreakdown>(row.sentiment_breakdown),
+    match_score: row.match_score,
+  }));
+
+  return {
+    narrative_id: narrativeId,
+    title: appearances[appearances.length - 1].cluster_title,
+    first_seen: appearances[0].generated_at,
+    last_seen: appearances[appearances.length - 1].generated_at,
+    appearances,
+  };
+}
+
+// ============================================================================
+// Saved Lenses
+// ============================================================================
+
+/**
+ * Validate a lens from a request body; throws on anything unusable
+ */
+export function parseLens(value: unknown): BriefingLens {
+  const input = value as Record<string, unknown>;
+  if (!input || typeof input !== 'object' || typeof input.name !== 'string' || !input.name.trim()) {
+    throw new Error('A lens needs a name');
+  }
+
+  const strings = (list: unknown, field: string): string[] | undefined => {
+    if (list === undefined || list === null) return undefined;
+    if (!Array.isArray(list) || list.some(item => typeof item !== 'string')) {
+      throw new Error(`Lens ${field} must be a list of strings`);
+    }
+    const cleaned = list.map(item => item.trim()).filter(Boolean);
+    return cleaned.length > 0 ? cleaned : undefined;
+  };
+
+  const lens: BriefingLens = {
+    name: input.name.trim(),
+    query: typeof input.query === 'string' && input.query.trim() ? input.query.trim() : undefined,
+    entities: strings(input.entities, 'entities'),
+    publishers: strings(input.publishers, 'publishers'),
+    min_similarity: typeof input.min_similarity === 'number' ? input.min_similarity : undefined,
+  };
+
+  if (!lens.query && !lens.entities && !lens.publishers) {
+    throw new Error(`Lens "${lens.name}" needs a query, entities or publishers`);
+  }
+  if (lens.min_similarity !== undefined && (lens.min_similarity < 0 || lens.min_similarity > 1)) {
+    throw new Error('Lens min_similarity must be between 0 and 1');
+  }
+  return lens;
+}
+
+interface SavedLensRow {
+  name: string;
+  query: string | null;
+  entities: string[] | null;
+  publishers: string[] | null;
+  min_similarity: number | null;
+  created_at: string;
+}
+
+export async function getSavedLenses(): Promise<SavedLens[]> {
+  const bigquery = getBigQueryClient();
+
+  const [rows] = await bigquery.query({
+    query: `
+      SELECT
+        name,
+        query,
+        entities,
+        publishers,
+        min_similarity,
+        FORMAT_TIMESTAMP('%Y-%m-%dT%H:%M:%SZ', created_at) as created_at
+      FROM \`${PROJECT_ID}.${DATASET_ID}.briefing_lenses\`
+      ORDER BY name
+    `,
+    location: BIGQUERY_LOCATION,
+  });
+
+  return rows.map((row: SavedLensRow) => ({
+    name: row.name,
+    query: row.query || undefined,
+    entities: row.entities?.length ? row.entities : undefined,
+    publishers: row.publishers?.length ? row.publishers : undefined,
+    min_similarity: row.min_similarity ?? undefined,
+    created_at: row.created_at,
+  }));
+}
+
+export async function getSavedLens(name: string): Promise<SavedLens | null> {
+  const lenses = await getSavedLenses();
+  return lenses.find(lens => lens.name === name) || null;
+}
+
+/**
+ * The lens itself, without the saved row's timestamp
+ */
+export function toBriefingLens(
+  { name, query, entities, publishers, min_similarity }: SavedLens
+): Omit<SavedLens, 'created_at'> {
+  return { name, query, entities, publishers, min_similarity };
+}
+
+/**
+ * Save a lens under its name, replacing any lens with the same name
+ */
+export async function saveLens(lens: BriefingLens): Promise<SavedLens> {
+  const bigquery = getBigQueryClient();
+  const saved: SavedLens = { ...lens, created_at: new Date().toISOString() };
+
+  // DML rather than a streaming insert, so the row can be replaced right away
+  await bigquery.query({
+    query: `
+      MERGE \`${PROJECT_ID}.${DATASET_ID}.briefing_lenses\` t
+      USING (SELECT @name AS name) s
+      ON t.name = s.name
+      WHEN MATCHED THEN UPDATE SET
+        query = @query, entities = @entities, publishers = @publishers,
+        min_similarity = @minSimilarity, created_at = TIMESTAMP(@createdAt)
+      WHEN NOT MATCHED THEN INSERT (name, query, entities, publishers, min_similarity, created_at)
+        VALUES (@name, @query, @entities, @publishers, @minSimilarity, TIMESTAMP(@createdAt))
+    `,
+    params: {
+      name: saved.name,
+      query: saved.query ?? null,
+      entities: saved.entities ?? [],
+      publishers: saved.publishers ?? [],
+      minSimilarity: saved.min_similarity ?? null,
+      createdAt: saved.created_at,
+    },
+    types: {
+      query: 'STRING',
+      entities: ['STRING'],
+      publishers: ['STRING'],
+      minSimilarity: 'FLOAT64',
+    },
+    location: BIGQUERY_LOCATION,
+  });
+
+  return saved;
+}
@@ -7,8 +7,16 @@
 export * from './types';
 export { 
   generateBriefing,
+  generateRollup,
   getLatestBriefing,
   getBriefingById,
   getBriefingArchive,
+  searchInsights,
+  getNarrativeTimeline,
+  getSavedLenses,
+  getSavedLens,
+  toBriefingLens,
+  saveLens,
+  parseLens,
 } from './generator';
 
@@ -5,6 +5,8 @@
  * that generates daily intelligence briefings.
  */
 
+import type { LLMProvider } from '@ncc/lib/llm/types';
+
 // ============================================================================
 // Raw Input Types (from BigQuery)
 // ============================================================================
@@ -44,6 +46,25 @@ export interface InsightObject {
   key_claims: string[];        // 2-3 bullet points summarizing the email
 }
 
+/**
+ * Where the Map phase's insights came from
+ */
+export interface MapPhaseStats {
+  cached: number;              // Reused from email_insights
+  extracted: number;           // Extracted by the model this run (and cached)
+  failed: number;              // Extraction failed; placeholder insight used
+}
+
+/**
+ * Filters for searching stored insights (email_insights)
+ */
+export interface InsightSearchOptions {
+  entity?: string;             // Exact entity, case-insensitive
+  theme?: string;              // Exact theme, case-insensitive
+  since?: string;              // ISO date/timestamp on sent_date
+  limit?: number;              // Default 100, max 1000
+}
+
 /**
  * Enriched source citation for trust & verification
  */
@@ -85,6 +106,23 @@ export interface NarrativeCluster {
   source_ids: string[];        // gmail_message_ids involved (for backward compatibility)
   sources?: SourceCitation[];   // Enriched source citations for trust & verification
   sentiment_breakdown?: SentimentBreakdown;  // Deterministic sentiment math (100% Falsifiable)
+  trajectory?: ClusterTrajectory;  // Roll-ups only: how the story moved across the period
+  narrative_id?: string;       // Same story across daily briefings (see NarrativeTimeline)
+}
+
+/**
+ * How a roll-up cluster's story moved across the period's daily briefings.
+ * status is computed from source_counts (sources per child briefing), not
+ * by the model: absent from the first half of the period is 'new', absent
+ * from the second half 'fading'; otherwise the daily average per half
+ * decides between 'growing', 'fading' and 'continuing'. A roll-up of a
+ * single daily briefing has no halves to compare: its stories are
+ * 'continuing'.
+ */
+export interface ClusterTrajectory {
+  status: 'new' | 'growing' | 'continuing' | 'fading';
+  briefing_ids: string[];      // Child briefings the story appeared in, oldest first
+  source_counts: number[];     // Sources per child briefing, oldest first (0 = absent)
 }
 
 /**
@@ -108,10 +146,72 @@ export interface BriefingContent {
   radar_signals: string[];     // 3-5 emerging terms/entities with unusual velocity
 }
 
+// ============================================================================
+// Narrative Types (one story across successive briefings)
+// ============================================================================
+
+/**
+ * A narrative's cluster in one briefing, as stored in narrative_appearances
+ */
+export interface NarrativeAppearance {
+  narrative_id: string;
+  briefing_id: string;
+  generated_at: string;        // ISO timestamp of the briefing
+  cluster_title: string;
+  synthesis: string;
+  consensus_sentiment: 'Positive' | 'Negative' | 'Mixed';
+  source_count: number;
+  source_ids: string[];
+  entities: string[];          // From the sources' insights, lowercased
+  sentiment_breakdown: SentimentBreakdown | null;
+  match_score: number | null;  // Match to the previous appearance; null where the narrative started
+}
+
+/**
+ * How one story evolved: every briefing cluster matched to it, oldest first
+ */
+export interface NarrativeTimeline {
+  narrative_id: string;
+  title: string;               // Latest appearance's title
+  first_seen: string;
+  last_seen: string;
+  appearances: NarrativeAppearance[];
+}
+
+// ============================================================================
+// Lens Types (topic-scoped briefings)
+// ============================================================================
+
+/**
+ * A lens narrows a briefing to one topic before the Map phase.
+ * publishers is a hard filter; when query and/or entities are set, an email
+ * must also match the query by embedding similarity or mention an entity.
+ */
+export interface BriefingLens {
+  name: string;                // e.g. "Crypto", "China"; stored with the briefing
+  query?: string;              // Topic description, matched against chunk embeddings
+  entities?: string[];         // Names/tickers matched as whole words in subject and body
+  publishers?: string[];       // Sender names or addresses (substring match)
+  min_similarity?: number;     // Cosine similarity for the query match (default 0.6)
+}
+
+/**
+ * A lens saved in the briefing_lenses table
+ */
+export interface SavedLens extends BriefingLens {
+  created_at: string;          // ISO timestamp
+}
+
 // ============================================================================
 // Stored Briefing Types (BigQuery)
 // ============================================================================
 
+/**
+ * 'daily' briefings are built from emails; roll-ups from stored daily
+ * briefings. Rows written before roll-ups existed read as 'daily'.
+ */
+export type BriefingType = 'daily' | 'weekly' | 'monthly';
+
 /**
  * Full briefing record as stored in BigQuery briefings table
  */
@@ -123,6 +223,9 @@ export interface StoredBriefing {
   content_json: BriefingContent;
   email_count: number;
   model_version: string | null;
+  lens: BriefingLens | null;   // null for a whole-inbox briefing
+  briefing_type: BriefingType;
+  child_briefing_ids: string[]; // Roll-ups: the daily briefings they cover, oldest first
 }
 
 /**
@@ -133,6 +236,8 @@ export interface BriefingArchiveItem {
   generated_at: string;
   email_count: number;
   executive_summary: string | null; // First item of executive_summary for preview
+  lens_name: string | null;
+  briefing_type: BriefingType;
 }
 
 // ============================================================================
@@ -149,6 +254,13 @@ export interface BriefingPipelineOptions {
   maxEmails?: number;
   /** Batch size for parallel map operations */
   mapBatchSize?: number;
+  /** Re-extract every email instead of reusing cached insights */
+  refreshInsights?: boolean;
+  /** Scope the briefing to a topic (default: the whole inbox) */
+  lens?: BriefingLens;
+  /** Models for the two phases (default: Gemini Flash and Pro, or LLM_PROVIDER) */
+  mapProvider?: LLMProvider;
+  reduceProvider?: LLMProvider;
 }
 
 export interface BriefingPipelineResult {
@@ -159,5 +271,34 @@ export interface BriefingPipelineResult {
   email_count: number;
   content: BriefingContent;
   model_version: string;
+  lens: BriefingLens | null;
+  /** Emails in the window before the lens was applied (equals email_count without a lens) */
+  candidate_count: number;
+  /** Emails in the time window; more than were fetched when maxEmails truncated it */
+  window_email_count: number;
+  map_stats: MapPhaseStats;
+}
+
+
+export interface RollupOptions {
+  period: 'weekly' | 'monthly';
+  /** End of the period (default: now); it starts 7 days or 1 month earlier */
+  periodEnd?: Date;
+  /** Roll up this lens's briefings (default: whole-inbox briefings) */
+  lens?: BriefingLens;
+  /** Model for the synthesis (default: Gemini Pro, or LLM_PROVIDER) */
+  provider?: LLMProvider;
 }
 
+export interface RollupResult {
+  briefing_id: string;
+  briefing_type: 'weekly' | 'monthly';
+  generated_at: string;
+  time_window_start: string;
+  time_window_end: string;
+  email_count: number;         // Sum over the child briefings
+  child_briefing_ids: string[];
+  content: BriefingContent;
+  model_version: string;
+  lens: BriefingLens | null;
+}
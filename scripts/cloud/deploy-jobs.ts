@@ -4,6 +4,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
+import { ingestJobName, listInboxes, secretBindings } from '../../src/gmail/inboxes';
 
 function shell(cmd: string): string {
   try {
@@ -30,7 +31,7 @@ interface JobConfig {
 }
 
 interface IngestJobConfig extends JobConfig {
-  inbox: 'me' | 'other';
+  inbox: string;
   secrets?: string[]; // Secret bindings for Cloud Run
 }
 
@@ -52,30 +53,14 @@ const JOBS: JobConfig[] = [
   },
 ];
 
-const INGEST_JOBS: IngestJobConfig[] = [
-  {
-    name: 'ncc-ingest-me',
-    command: 'node',
-    args: ['dist/scripts/ingest-gmail.js', '--inbox', 'me', '--limit', '500', '--no-dry-run'],
-    inbox: 'me',
-    secrets: [
-      'GMAIL_CLIENT_ID=GMAIL_CLIENT_ID:latest',
-      'GMAIL_CLIENT_SECRET=GMAIL_CLIENT_SECRET:latest',
-      'GMAIL_REFRESH_TOKEN_ME=GMAIL_REFRESH_TOKEN_ME:latest',
-    ],
-  },
-  {
-    name: 'ncc-ingest-other',
-    command: 'node',
-    args: ['dist/scripts/ingest-gmail.js', '--inbox', 'other', '--limit', '500', '--no-dry-run'],
-    inbox: 'other',
-    secrets: [
-      'GMAIL_CLIENT_ID=GMAIL_CLIENT_ID:latest',
-      'GMAIL_CLIENT_SECRET=GMAIL_CLIENT_SECRET:latest',
-      'GMAIL_REFRESH_TOKEN_OTHER=GMAIL_REFRESH_TOKEN_OTHER:latest',
-    ],
-  },
-];
+// One ingest job per inbox in the registry (config/inboxes.json)
+const INGEST_JOBS: IngestJobConfig[] = listInboxes().map((inbox) => ({
+  name: ingestJobName(inbox),
+  command: 'node',
+  args: ['dist/scripts/ingest-gmail.js', '--inbox', inbox.key, '--limit', '500', '--mode', 'history', '--no-dry-run'],
+  inbox: inbox.key,
+  secrets: secretBindings(inbox),
+}));
 
 async function resolveImage(override?: string): Promise<string> {
   if (override) {
@@ -186,16 +171,12 @@ async function main(): Promise<void> {
 
   // Ingest jobs (with secrets and Gmail env vars)
   for (const job of INGEST_JOBS) {
-    // Note: GMAIL_QUERY contains spaces - quote the value in the env var string
+    // Query, labels and mark-read come from the inbox registry baked into the image
     const envVars = [
       `BQ_PROJECT_ID=${PROJECT}`,
       `BQ_DATASET=ncc_production`,
       `BQ_LOCATION=US`,
       `GMAIL_READONLY=false`,
-      `GMAIL_PROCESSED_LABEL=Ingested`,
-      `GMAIL_PAID_LABEL=Paid\\ $`,
-      `GMAIL_MARK_READ=true`,
-      `GMAIL_QUERY=is:unread\\ -label:Ingested`,
     ].join(',');
 
     const secretsStr = job.secrets?.join(',') || '';
@@ -279,10 +260,6 @@ async function main(): Promise<void> {
           `BQ_DATASET=ncc_production`,
           `BQ_LOCATION=US`,
           `GMAIL_READONLY=false`,
-          `GMAIL_PROCESSED_LABEL=Ingested`,
-          `GMAIL_PAID_LABEL=Paid\\ $`,
-          `GMAIL_MARK_READ=true`,
-          `GMAIL_QUERY=is:unread\\ -label:Ingested`,
         ].join(',');
       } else {
         envVars = `BQ_PROJECT_ID=${PROJECT},BQ_DATASET=ncc_production,BQ_LOCATION=US`;
@@ -322,10 +299,6 @@ async function main(): Promise<void> {
               `BQ_DATASET=ncc_production`,
               `BQ_LOCATION=US`,
               `GMAIL_READONLY=false`,
-              `GMAIL_PROCESSED_LABEL=Ingested`,
-              `GMAIL_PAID_LABEL=Paid\\ $`,
-              `GMAIL_MARK_READ=true`,
-              `GMAIL_QUERY=is:unread\\ -label:Ingested`,
             ].join(',');
           } else {
             envVars = `BQ_PROJECT_ID=${PROJECT},BQ_DATASET=ncc_production,BQ_LOCATION=US`;
@@ -2,6 +2,7 @@ import 'dotenv/config';
 import { execSync, spawnSync } from 'child_process';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
+import { listInboxes, ingestJobName } from '../../src/gmail/inboxes';
 
 function shell(cmd: string): string {
   try {
@@ -76,35 +77,26 @@ async function main(): Promise<void> {
       cron: '0 18 * * *', // 18:00 ET (timezone handles DST automatically)
       timeZone: 'America/New_York',
     },
-    // Ingest schedules (2x daily at 07:00, 13:00 ET)
-    {
-      name: 'schedule-ncc-ingest-me-0700',
-      job: 'ncc-ingest-me',
-      description: 'Daily at 07:00 ET (morning)',
-      cron: '0 7 * * *',
-      timeZone: 'America/New_York',
-    },
-    {
-      name: 'schedule-ncc-ingest-me-1300',
-      job: 'ncc-ingest-me',
-      description: 'Daily at 13:00 ET (afternoon)',
-      cron: '0 13 * * *',
-      timeZone: 'America/New_York',
-    },
-    {
-      name: 'schedule-ncc-ingest-other-0700',
-      job: 'ncc-ingest-other',
-      description: 'Daily at 07:00 ET (morning)',
-      cron: '0 7 * * *',
-      timeZone: 'America/New_York',
-    },
-    {
-      name: 'schedule-ncc-ingest-other-1300',
-      job: 'ncc-ingest-other',
-      description: 'Daily at 13:00 ET (afternoon)',
-      cron: '0 13 * * *',
-      timeZone: 'America/New_York',
-    },
+    // Ingest schedules (2x daily at 07:00, 13:00 ET), one pair per registered inbox
+    ...listInboxes().flatMap((inbox) => {
+      const job = ingestJobName(inbox);
+      return [
+        {
+          name: `schedule-${job}-0700`,
+          job,
+          description: 'Daily at 07:00 ET (morning)',
+          cron: '0 7 * * *',
+          timeZone: 'America/New_York',
+        },
+        {
+          name: `schedule-${job}-1300`,
+          job,
+          description: 'Daily at 13:00 ET (afternoon)',
+          cron: '0 13 * * *',
+          timeZone: 'America/New_York',
+        },
+      ];
+    }),
   ];
 
   const commands: string[] = [];
@@ -26,6 +26,10 @@ async function createBriefingsTable() {
     { name: 'content_json', type: 'JSON', mode: 'REQUIRED', description: 'The full structured briefing output' },
     { name: 'email_count', type: 'INTEGER', mode: 'REQUIRED', description: 'Number of emails processed' },
     { name: 'model_version', type: 'STRING', mode: 'NULLABLE', description: 'Model version used for generation' },
+    { name: 'lens_name', type: 'STRING', mode: 'NULLABLE', description: 'Lens the briefing was scoped to (NULL for whole inbox)' },
+    { name: 'lens_json', type: 'JSON', mode: 'NULLABLE', description: 'The lens as applied' },
+    { name: 'briefing_type', type: 'STRING', mode: 'NULLABLE', description: 'daily, weekly or monthly (NULL = daily)' },
+    { name: 'child_briefing_ids', type: 'STRING', mode: 'REPEATED', description: 'Roll-ups: the daily briefings they cover' },
   ];
 
   const tableId = 'briefings';
@@ -4,11 +4,12 @@ import * as readline from 'readline';
 import { execSync } from 'child_process';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
+import { getInbox, inboxSecretNames, listInboxKeys } from '../../src/gmail/inboxes';
 
 const PROJECT = process.env.BQ_PROJECT_ID || 'newsletter-control-center';
 
 interface Args {
-  inbox: 'me' | 'other';
+  inbox: string;
   code?: string;
 }
 
@@ -30,27 +31,29 @@ async function getSecretValue(secretName: string): Promise<string | null> {
   return result.success ? result.output.trim() : null;
 }
 
-async function getClientCredentials(): Promise<{ clientId: string; clientSecret: string }> {
+async function getClientCredentials(inboxKey: string): Promise<{ clientId: string; clientSecret: string }> {
+  const names = inboxSecretNames(getInbox(inboxKey));
+
   // Try Secret Manager first
-  const clientId = await getSecretValue('GMAIL_CLIENT_ID');
-  const clientSecret = await getSecretValue('GMAIL_CLIENT_SECRET');
+  const clientId = await getSecretValue(names.clientId);
+  const clientSecret = await getSecretValue(names.clientSecret);
   
   if (clientId && clientSecret) {
     return { clientId, clientSecret };
   }
   
   // Fall back to .env
-  const envClientId = process.env.GMAIL_CLIENT_ID;
-  const envClientSecret = process.env.GMAIL_CLIENT_SECRET;
+  const envClientId = process.env[names.clientId];
+  const envClientSecret = process.env[names.clientSecret];
   
   if (envClientId && envClientSecret) {
     return { clientId: envClientId, clientSecret: envClientSecret };
   }
   
   throw new Error(
-    'Missing Gmail OAuth credentials. Set GMAIL_CLIENT_ID and GMAIL_CLIENT_SECRET in:\n' +
-    '  - Secret Manager (GMAIL_CLIENT_ID, GMAIL_CLIENT_SECRET), or\n' +
-    '  - .env file (GMAIL_CLIENT_ID, GMAIL_CLIENT_SECRET)'
+    `Missing Gmail OAuth credentials. Set ${names.clientId} and ${names.clientSecret} in:\n` +
+    `  - Secret Manager (${names.clientId}, ${names.clientSecret}), or\n` +
+    `  - .env file (${names.clientId}, ${names.clientSecret})`
   );
 }
 
@@ -90,9 +93,9 @@ async function main() {
   const argv = await yargs(hideBin(process.argv))
     .option('inbox', {
       type: 'string',
-      choices: ['me', 'other'],
+      choices: listInboxKeys(),
       demandOption: true,
-      describe: 'Inbox type (me or other)',
+      describe: 'Inbox key from config/inboxes.json',
     })
     .option('code', {
       type: 'string',
@@ -105,7 +108,7 @@ async function main() {
   console.log(`\n=== Minting Gmail Refresh Token (${inboxLabel}) ===\n`);
   
   // Get client credentials
-  const { clientId, clientSecret } = await getClientCredentials();
+  const { clientId, clientSecret } = await getClientCredentials(argv.inbox);
   console.log('✓ Retrieved OAuth credentials\n');
   
   // Set up OAuth2 client
@@ -172,7 +175,7 @@ async function main() {
     console.log(tokens.refresh_token);
     console.log('---');
     console.log('\n✓ Copy the token above and use it with:');
-    console.log(`  npm run gmail:secret:${argv.inbox} -- --token="<paste_token_here>"`);
+    console.log(`  npx ts-node scripts/gmail/update-refresh-secrets.ts --inbox=${argv.inbox} --token="<paste_token_here>"`);
     console.log('');
     
   } catch (error: any) {
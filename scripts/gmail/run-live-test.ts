@@ -2,12 +2,13 @@ import 'dotenv/config';
 import { execSync } from 'child_process';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
+import { getInbox, ingestJobName, listInboxKeys } from '../../src/gmail/inboxes';
 
 const PROJECT = process.env.BQ_PROJECT_ID || 'newsletter-control-center';
 const REGION = process.env.NCC_REGION || 'us-central1';
 
 interface Args {
-  inbox: 'me' | 'other';
+  inbox: string;
   limit?: number;
 }
 
@@ -87,9 +88,9 @@ async function main() {
   const argv = await yargs(hideBin(process.argv))
     .option('inbox', {
       type: 'string',
-      choices: ['me', 'other'],
+      choices: listInboxKeys(),
       demandOption: true,
-      describe: 'Inbox type (me or other)',
+      describe: 'Inbox key from config/inboxes.json',
     })
     .option('limit', {
       type: 'number',
@@ -98,7 +99,7 @@ async function main() {
     })
     .parseAsync() as Args;
 
-  const jobName = `ncc-ingest-${argv.inbox}`;
+  const jobName = ingestJobName(getInbox(argv.inbox));
   const limit = argv.limit || 25;
 
   console.log(`\n=== Running Live Test: ${argv.inbox.toUpperCase()} ===\n`);
@@ -1,8 +1,9 @@
 import 'dotenv/config';
 import { getGmail } from '../../src/gmail/client';
 import type { gmail_v1 } from 'googleapis';
+import { getInbox, listInboxKeys } from '../../src/gmail/inboxes';
 
-async function spotCheck(inbox: 'me' | 'other'): Promise<void> {
+async function spotCheck(inbox: string): Promise<void> {
   console.log(`\n=== Spot-checking ${inbox.toUpperCase()} inbox ===\n`);
 
   let gmail: gmail_v1.Gmail;
@@ -31,8 +32,8 @@ async function spotCheck(inbox: 'me' | 'other'): Promise<void> {
     }
   }
 
-  // Get query from env (same as ingest job uses)
-  const query = process.env.GMAIL_QUERY || 'is:unread';
+  // Same query the ingest job uses: the inbox's own, else GMAIL_QUERY
+  const query = getInbox(inbox).query || process.env.GMAIL_QUERY || 'is:unread';
   
   // List messages from last 60 minutes
   // Gmail query doesn't support time-based filtering directly, so we'll fetch recent and filter
@@ -94,7 +95,7 @@ async function spotCheck(inbox: 'me' | 'other'): Promise<void> {
       console.log(`  Label IDs: ${labelIds.join(', ')}`);
 
       // Check for processed label
-      const processedLabel = process.env.GMAIL_PROCESSED_LABEL || 'processed';
+      const processedLabel = getInbox(inbox).processedLabel || process.env.GMAIL_PROCESSED_LABEL || 'processed';
       const hasProcessedLabel = labelNames.some(name => 
         name.toLowerCase().includes(processedLabel.toLowerCase())
       ) || labelIds.some(id => labelsMap.get(id)?.toLowerCase().includes(processedLabel.toLowerCase()));
@@ -120,9 +121,7 @@ async function spotCheck(inbox: 'me' | 'other'): Promise<void> {
 }
 
 async function main(): Promise<void> {
-  const inboxes: Array<'me' | 'other'> = ['me', 'other'];
-
-  for (const inbox of inboxes) {
+  for (const inbox of listInboxKeys()) {
     await spotCheck(inbox);
   }
 
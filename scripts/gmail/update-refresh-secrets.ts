@@ -2,12 +2,13 @@ import 'dotenv/config';
 import { execSync } from 'child_process';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
+import { getInbox, ingestJobName, inboxSecretNames, listInboxKeys } from '../../src/gmail/inboxes';
 
 const PROJECT = process.env.BQ_PROJECT_ID || 'newsletter-control-center';
 const RUNTIME_SA = 'newsletter-local-dev@newsletter-control-center.iam.gserviceaccount.com';
 
 interface Args {
-  inbox: 'me' | 'other';
+  inbox: string;
   token: string;
 }
 
@@ -51,9 +52,9 @@ async function main() {
   const argv = await yargs(hideBin(process.argv))
     .option('inbox', {
       type: 'string',
-      choices: ['me', 'other'],
+      choices: listInboxKeys(),
       demandOption: true,
-      describe: 'Inbox type (me or other)',
+      describe: 'Inbox key from config/inboxes.json',
     })
     .option('token', {
       type: 'string',
@@ -62,7 +63,8 @@ async function main() {
     })
     .parseAsync() as Args;
   
-  const secretName = argv.inbox === 'me' ? 'GMAIL_REFRESH_TOKEN_ME' : 'GMAIL_REFRESH_TOKEN_OTHER';
+  const inbox = getInbox(argv.inbox);
+  const secretName = inboxSecretNames(inbox).refreshToken;
   const inboxLabel = argv.inbox.toUpperCase();
   
   console.log(`\n=== Updating Secret Manager (${inboxLabel}) ===\n`);
@@ -133,7 +135,7 @@ async function main() {
   console.log('\nNext steps:');
   console.log('  1. Run: npm run ingest:preflight -- --apply (verify modify capability)');
   console.log('  2. Test with a small live job:');
-  console.log(`     gcloud run jobs execute ncc-ingest-${argv.inbox} --region=us-central1 \\`);
+  console.log(`     gcloud run jobs execute ${ingestJobName(inbox)} --region=us-central1 \\`);
   console.log(`       --project=${PROJECT} --args="--limit=3","--no-dry-run","--mark-read=false"`);
   console.log('');
 }
@@ -3,6 +3,8 @@ import { execSync } from 'child_process';
 import { google, gmail_v1 } from 'googleapis';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
+import { ingestJobName, inboxSecretNames, listInboxes } from '../../src/gmail/inboxes';
+import type { InboxConfig } from '../../src/gmail/inboxes';
 
 const PROJECT = process.env.BQ_PROJECT_ID || 'newsletter-control-center';
 const REGION = process.env.NCC_REGION || 'us-central1';
@@ -112,40 +114,83 @@ async function getSecretValue(secretName: string): Promise<string | null> {
   return result.success ? result.output.trim() : null;
 }
 
-async function checkGmailAuth(inbox: 'me' | 'other'): Promise<CheckResult> {
-  // Temporarily set env vars from secrets for auth test
-  const originalClientId = process.env.GMAIL_CLIENT_ID;
-  const originalClientSecret = process.env.GMAIL_CLIENT_SECRET;
-  const originalRefreshTokenMe = process.env.GMAIL_REFRESH_TOKEN_ME;
-  const originalRefreshTokenOther = process.env.GMAIL_REFRESH_TOKEN_OTHER;
+async function checkGmailAuth(inbox: InboxConfig): Promise<CheckResult> {
+  const names = inboxSecretNames(inbox);
+  const clientId = await getSecretValue(names.clientId);
+  const clientSecret = await getSecretValue(names.clientSecret);
+  const refreshTokenName = names.refreshToken;
+  const refreshToken = await getSecretValue(refreshTokenName);
+  
+  if (!clientId || !clientSecret || !refreshToken) {
+    return {
+      name: `Gmail auth for ${inbox.key}`,
+      pass: false,
+      message: `Missing credentials (client_id=${!!clientId}, client_secret=${!!clientSecret}, refresh_token=${!!refreshToken})`,
+      remediation: [
+        `Verify secrets exist: gcloud secrets list --project=${PROJECT} | grep GMAIL`,
+        `Check access: gcloud secrets versions access latest --secret=${refreshTokenName} --project=${PROJECT}`,
+      ],
+    };
+  }
   
   try {
-    const clientId = await getSecretValue('GMAIL_CLIENT_ID');
-    const clientSecret = await getSecretValue('GMAIL_CLIENT_SECRET');
-    const refreshTokenName = inbox === 'me' ? 'GMAIL_REFRESH_TOKEN_ME' : 'GMAIL_REFRESH_TOKEN_OTHER';
+    const oAuth2Client = new google.auth.OAuth2(
+      clientId,
+      clientSecret,
+      'urn:ietf:wg:oauth:2.0:oob'
+    );
+    oAuth2Client.setCredentials({ refresh_token: refreshToken });
+    
+    const gmail = google.gmail({ version: 'v1', auth: oAuth2Client });
+    const profile = await gmail.users.getProfile({ userId: 'me' });
+    
+    if (profile.data.emailAddress) {
+      return {
+        name: `Gmail auth for ${inbox.key}`,
+        pass: true,
+        message: `Profile: ${profile.data.emailAddress}`,
+      };
+    }
+    
+    return {
+      name: `Gmail auth for ${inbox.key}`,
+      pass: false,
+      message: `No email address in profile`,
+    };
+  } catch (error: any) {
+    const errorMsg = error.message || String(error);
+    return {
+      name: `Gmail auth for ${inbox.key}`,
+      pass: false,
+      message: `Auth failed: ${errorMsg.substring(0, 100)}`,
+      remediation: [
+        `Check refresh token: gcloud secrets versions access latest --secret=${refreshTokenName} --project=${PROJECT}`,
+        `If token is invalid, re-run OAuth flow and update secret`,
+      ],
+    };
+  }
+}
+
+async function checkModifyCapability(inbox: InboxConfig): Promise<CheckResult> {
+  // Skip in dry-run mode (this check requires actual API calls)
+  if (process.argv.includes('--apply')) {
+    const names = inboxSecretNames(inbox);
+    const clientId = await getSecretValue(names.clientId);
+    const clientSecret = await getSecretValue(names.clientSecret);
+    const refreshTokenName = names.refreshToken;
     const refreshToken = await getSecretValue(refreshTokenName);
     
     if (!clientId || !clientSecret || !refreshToken) {
       return {
-        name: `Gmail auth for ${inbox}`,
+        name: `Gmail modify capability for ${inbox.key}`,
         pass: false,
-        message: `Missing credentials (client_id=${!!clientId}, client_secret=${!!clientSecret}, refresh_token=${!!refreshToken})`,
+        message: `Missing credentials`,
         remediation: [
           `Verify secrets exist: gcloud secrets list --project=${PROJECT} | grep GMAIL`,
-          `Check access: gcloud secrets versions access latest --secret=${refreshTokenName} --project=${PROJECT}`,
         ],
       };
     }
     
-    // Set env vars for token provider
-    process.env.GMAIL_CLIENT_ID = clientId;
-    process.env.GMAIL_CLIENT_SECRET = clientSecret;
-    if (inbox === 'me') {
-      process.env.GMAIL_REFRESH_TOKEN_ME = refreshToken;
-    } else {
-      process.env.GMAIL_REFRESH_TOKEN_OTHER = refreshToken;
-    }
-    
     try {
       const oAuth2Client = new google.auth.OAuth2(
         clientId,
@@ -155,140 +200,53 @@ async function checkGmailAuth(inbox: 'me' | 'other'): Promise<CheckResult> {
       oAuth2Client.setCredentials({ refresh_token: refreshToken });
       
       const gmail = google.gmail({ version: 'v1', auth: oAuth2Client });
-      const profile = await gmail.users.getProfile({ userId: 'me' });
       
-      if (profile.data.emailAddress) {
+      // Test modify capability by listing labels (requires gmail.modify scope)
+      const labels = await gmail.users.labels.list({ userId: 'me' });
+      
+      if (labels.data.labels && labels.data.labels.length > 0) {
         return {
-          name: `Gmail auth for ${inbox}`,
+          name: `Gmail modify capability for ${inbox.key}`,
           pass: true,
-          message: `Profile: ${profile.data.emailAddress}`,
+          message: `Labels accessible (${labels.data.labels.length} labels)`,
         };
       }
       
       return {
-        name: `Gmail auth for ${inbox}`,
+        name: `Gmail modify capability for ${inbox.key}`,
         pass: false,
-        message: `No email address in profile`,
+        message: `Labels list returned empty`,
       };
     } catch (error: any) {
       const errorMsg = error.message || String(error);
-      return {
-        name: `Gmail auth for ${inbox}`,
-        pass: false,
-        message: `Auth failed: ${errorMsg.substring(0, 100)}`,
-        remediation: [
-          `Check refresh token: gcloud secrets versions access latest --secret=${refreshTokenName} --project=${PROJECT}`,
-          `If token is invalid, re-run OAuth flow and update secret`,
-        ],
-      };
-    }
-  } finally {
-    // Restore original env vars
-    if (originalClientId !== undefined) process.env.GMAIL_CLIENT_ID = originalClientId;
-    if (originalClientSecret !== undefined) process.env.GMAIL_CLIENT_SECRET = originalClientSecret;
-    if (originalRefreshTokenMe !== undefined) process.env.GMAIL_REFRESH_TOKEN_ME = originalRefreshTokenMe;
-    if (originalRefreshTokenOther !== undefined) process.env.GMAIL_REFRESH_TOKEN_OTHER = originalRefreshTokenOther;
-  }
-}
-
-async function checkModifyCapability(inbox: 'me' | 'other'): Promise<CheckResult> {
-  // Skip in dry-run mode (this check requires actual API calls)
-  if (process.argv.includes('--apply')) {
-    // Temporarily set env vars from secrets for auth test
-    const originalClientId = process.env.GMAIL_CLIENT_ID;
-    const originalClientSecret = process.env.GMAIL_CLIENT_SECRET;
-    const originalRefreshTokenMe = process.env.GMAIL_REFRESH_TOKEN_ME;
-    const originalRefreshTokenOther = process.env.GMAIL_REFRESH_TOKEN_OTHER;
-    
-    try {
-      const clientId = await getSecretValue('GMAIL_CLIENT_ID');
-      const clientSecret = await getSecretValue('GMAIL_CLIENT_SECRET');
-      const refreshTokenName = inbox === 'me' ? 'GMAIL_REFRESH_TOKEN_ME' : 'GMAIL_REFRESH_TOKEN_OTHER';
-      const refreshToken = await getSecretValue(refreshTokenName);
+      const is403 = errorMsg.includes('403') || errorMsg.includes('Forbidden') || errorMsg.includes('Insufficient Permission');
       
-      if (!clientId || !clientSecret || !refreshToken) {
+      if (is403) {
         return {
-          name: `Gmail modify capability for ${inbox}`,
+          name: `Gmail modify capability for ${inbox.key}`,
           pass: false,
-          message: `Missing credentials`,
+          message: `403 Forbidden - refresh token lacks gmail.modify scope`,
           remediation: [
-            `Verify secrets exist: gcloud secrets list --project=${PROJECT} | grep GMAIL`,
+            `Remint token with modify scope: npx ts-node scripts/gmail/mint-refresh-token.ts --inbox=${inbox.key}`,
+            `Then update secret: npx ts-node scripts/gmail/update-refresh-secrets.ts --inbox=${inbox.key} --token="<new_token>"`,
           ],
         };
       }
       
-      // Set env vars for token provider
-      process.env.GMAIL_CLIENT_ID = clientId;
-      process.env.GMAIL_CLIENT_SECRET = clientSecret;
-      if (inbox === 'me') {
-        process.env.GMAIL_REFRESH_TOKEN_ME = refreshToken;
-      } else {
-        process.env.GMAIL_REFRESH_TOKEN_OTHER = refreshToken;
-      }
-      
-      try {
-        const oAuth2Client = new google.auth.OAuth2(
-          clientId,
-          clientSecret,
-          'urn:ietf:wg:oauth:2.0:oob'
-        );
-        oAuth2Client.setCredentials({ refresh_token: refreshToken });
-        
-        const gmail = google.gmail({ version: 'v1', auth: oAuth2Client });
-        
-        // Test modify capability by listing labels (requires gmail.modify scope)
-        const labels = await gmail.users.labels.list({ userId: 'me' });
-        
-        if (labels.data.labels && labels.data.labels.length > 0) {
-          return {
-            name: `Gmail modify capability for ${inbox}`,
-            pass: true,
-            message: `Labels accessible (${labels.data.labels.length} labels)`,
-          };
-        }
-        
-        return {
-          name: `Gmail modify capability for ${inbox}`,
-          pass: false,
-          message: `Labels list returned empty`,
-        };
-      } catch (error: any) {
-        const errorMsg = error.message || String(error);
-        const is403 = errorMsg.includes('403') || errorMsg.includes('Forbidden') || errorMsg.includes('Insufficient Permission');
-        
-        if (is403) {
-          return {
-            name: `Gmail modify capability for ${inbox}`,
-            pass: false,
-            message: `403 Forbidden - refresh token lacks gmail.modify scope`,
-            remediation: [
-              `Remint token with modify scope: npm run gmail:mint:${inbox}`,
-              `Then update secret: npm run gmail:secret:${inbox} -- --token="<new_token>"`,
-            ],
-          };
-        }
-        
-        return {
-          name: `Gmail modify capability for ${inbox}`,
-          pass: false,
-          message: `Auth failed: ${errorMsg.substring(0, 100)}`,
-          remediation: [
-            `Check refresh token: gcloud secrets versions access latest --secret=${refreshTokenName} --project=${PROJECT}`,
-          ],
-        };
-      }
-    } finally {
-      // Restore original env vars
-      if (originalClientId !== undefined) process.env.GMAIL_CLIENT_ID = originalClientId;
-      if (originalClientSecret !== undefined) process.env.GMAIL_CLIENT_SECRET = originalClientSecret;
-      if (originalRefreshTokenMe !== undefined) process.env.GMAIL_REFRESH_TOKEN_ME = originalRefreshTokenMe;
-      if (originalRefreshTokenOther !== undefined) process.env.GMAIL_REFRESH_TOKEN_OTHER = originalRefreshTokenOther;
+      return {
+        name: `Gmail modify capability for ${inbox.key}`,
+        pass: false,
+        message: `Auth failed: ${errorMsg.substring(0, 100)}`,
+        remediation: [
+          `Check refresh token: gcloud secrets versions access latest --secret=${refreshTokenName} --project=${PROJECT}`,
+        ],
+      };
     }
   }
   
   // Skip in preview mode
   return {
-    name: `Gmail modify capability for ${inbox}`,
+    name: `Gmail modify capability for ${inbox.key}`,
     pass: false,
     message: 'Not checked (use --apply to enable)',
     remediation: [`npm run ingest:preflight -- --apply`],
@@ -364,8 +322,9 @@ async function checkIAMRoles(): Promise<CheckResult[]> {
   return results;
 }
 
-async function checkJobConfig(jobName: string): Promise<CheckResult[]> {
+async function checkJobConfig(inbox: InboxConfig): Promise<CheckResult[]> {
   const results: CheckResult[] = [];
+  const jobName = ingestJobName(inbox);
   
   const cmd = `gcloud run jobs describe ${jobName} --region=${REGION} --project=${PROJECT} --format=json`;
   const job = shellJSON<any>(cmd, true);
@@ -402,7 +361,7 @@ async function checkJobConfig(jobName: string): Promise<CheckResult[]> {
   const limitValue = args[args.indexOf('--limit') + 1];
   const hasNoDryRun = args.includes('--no-dry-run');
   
-  const expectedInbox = jobName.includes('me') ? 'me' : 'other';
+  const expectedInbox = inbox.key;
   
   results.push({
     name: `Job ${jobName} --inbox arg`,
@@ -457,7 +416,8 @@ async function checkJobConfig(jobName: string): Promise<CheckResult[]> {
   return results;
 }
 
-async function checkDryRun(jobName: string): Promise<CheckResult> {
+async function checkDryRun(inbox: InboxConfig): Promise<CheckResult> {
+  const jobName = ingestJobName(inbox);
   // First check if job exists
   const checkJob = shell(`gcloud run jobs describe ${jobName} --region=${REGION} --project=${PROJECT} --format=json`, true);
   if (!checkJob.success) {
@@ -489,9 +449,8 @@ async function checkDryRun(jobName: string): Promise<CheckResult> {
   const existingArgs = container?.args || [];
   const scriptPath = existingArgs[0] || 'dist/scripts/ingest-gmail.js';
   
-  const inbox = jobName.includes('me') ? 'me' : 'other';
   // Execute job with temporary args override (must include script path)
-  const cmd = `gcloud run jobs execute ${jobName} --region=${REGION} --project=${PROJECT} --args="${scriptPath},--dry-run,--limit,3,--inbox,${inbox}" --wait --format=json`;
+  const cmd = `gcloud run jobs execute ${jobName} --region=${REGION} --project=${PROJECT} --args="${scriptPath},--dry-run,--limit,3,--inbox,${inbox.key}" --wait --format=json`;
   const result = shellJSON<any>(cmd, true);
   
   if (!result) {
@@ -571,7 +530,8 @@ async function main(): Promise<void> {
 
   // 1. Secrets check
   console.log('Checking secrets...');
-  const secretNames = ['GMAIL_CLIENT_ID', 'GMAIL_CLIENT_SECRET', 'GMAIL_REFRESH_TOKEN_ME', 'GMAIL_REFRESH_TOKEN_OTHER'];
+  const inboxes = listInboxes();
+  const secretNames = Array.from(new Set(inboxes.flatMap(inbox => Object.values(inboxSecretNames(inbox)))));
   for (const secretName of secretNames) {
     checks.push(await checkSecretExists(secretName));
     checks.push(await checkSecretAccess(secretName));
@@ -580,19 +540,22 @@ async function main(): Promise<void> {
 
   // 2. Gmail auth check
   console.log('Checking Gmail authentication...');
-  checks.push(await checkGmailAuth('me'));
-  checks.push(await checkGmailAuth('other'));
+  for (const inbox of inboxes) {
+    checks.push(await checkGmailAuth(inbox));
+  }
   console.log('');
 
   // 2b. Gmail modify capability check (only when --apply is used)
   if (argv.apply) {
     console.log('Checking Gmail modify capability...');
-    checks.push(await checkModifyCapability('me'));
-    checks.push(await checkModifyCapability('other'));
+    for (const inbox of inboxes) {
+      checks.push(await checkModifyCapability(inbox));
+    }
     console.log('');
   } else {
-    checks.push(await checkModifyCapability('me'));
-    checks.push(await checkModifyCapability('other'));
+    for (const inbox of inboxes) {
+      checks.push(await checkModifyCapability(inbox));
+    }
   }
 
   // 3. IAM check
@@ -602,15 +565,17 @@ async function main(): Promise<void> {
 
   // 4. Job config check
   console.log('Checking job configurations...');
-  checks.push(...await checkJobConfig('ncc-ingest-me'));
-  checks.push(...await checkJobConfig('ncc-ingest-other'));
+  for (const inbox of inboxes) {
+    checks.push(...await checkJobConfig(inbox));
+  }
   console.log('');
 
   // 5. Dry-run execution
   if (argv.apply) {
     console.log('Executing dry-run jobs...');
-    checks.push(await checkDryRun('ncc-ingest-me'));
-    checks.push(await checkDryRun('ncc-ingest-other'));
+    for (const inbox of inboxes) {
+      checks.push(await checkDryRun(inbox));
+    }
   } else {
     console.log('Skipping dry-run execution (use --apply to enable)');
     checks.push({
@@ -0,0 +1,161 @@
+import 'dotenv/config';
+import yargs from 'yargs';
+import { hideBin } from 'yargs/helpers';
+import { getBigQuery } from '../../src/bq/client';
+import {
+  createBigQueryPublisherStore,
+  loadPublisherResolver,
+  resolverFromSync,
+  syncPublishers,
+} from '../../src/core/publisher';
+import type { SenderFields } from '../../src/core/publisher';
+import { cfg } from '../../src/lib/config';
+
+/**
+ * Backfill source_part and publisher_id on chunks written before chunking set them.
+ *
+ * source_part mirrors buildDocument's choice (HTML, then text/plain, then the
+ * snippet); publisher_id comes from the same publisher sync the chunker
+ * uses, creating publishers for senders seen before publishers existed.
+ * Rows still in the streaming buffer (inserted in the last ~30 minutes)
+ * cannot be updated by DML; re-run later for those.
+ */
+
+const UPDATE_BATCH_SIZE = 5000;
+
+async function main(): Promise<void> {
+  const argv = await yargs(hideBin(process.argv))
+    .option('dry-run', {
+      type: 'boolean',
+      default: true,
+      description: 'Report what would change without updating chunks',
+    })
+    .option('only', {
+      type: 'string',
+      choices: ['source-part', 'publisher'],
+      description: 'Backfill just one of the two columns',
+    })
+    .parse();
+
+  const bq = getBigQuery();
+  const dryRun = argv['dry-run'];
+  const chunks = `\`${cfg.projectId}.${cfg.dataset}.chunks\``;
+  const rawEmails = `\`${cfg.projectId}.${cfg.dataset}.raw_emails\``;
+
+  console.log('Backfill Config:');
+  console.log(`  dataset: ${cfg.projectId}.${cfg.dataset}`);
+  console.log(`  only: ${argv.only || 'all'}`);
+  console.log(`  dry_run: ${dryRun}\n`);
+
+  if (argv.only !== 'publisher') {
+    const sourcePart = `
+      CASE
+        WHEN r.body_html IS NOT NULL AND r.body_html != '' THEN 'html'
+        WHEN r.body_text IS NOT NULL AND r.body_text != ''
+          AND (r.snippet IS NULL OR TRIM(r.body_text) != TRIM(r.snippet)) THEN 'plaintext'
+        ELSE 'snippet'
+      END
+    `;
+    const messages = `
+      SELECT gmail_message_id,
+        ANY_VALUE(body_html) AS body_html,
+        ANY_VALUE(body_text) AS body_text,
+        ANY_VALUE(snippet) AS snippet
+      FROM ${rawEmails}
+      GROUP BY gmail_message_id
+    `;
+
+    if (dryRun) {
+      const [rows] = await bq.query({
+        query: `
+          SELECT ${sourcePart} AS source_part, COUNT(*) AS chunk_count
+          FROM ${chunks} c
+          JOIN (${messages}) r USING (gmail_message_id)
+          WHERE c.source_part IS NULL
+          GROUP BY source_part
+          ORDER BY chunk_count DESC
+        `,
+        location: cfg.location,
+      });
+      console.log('source_part (would set):');
+      for (const row of rows as Array<{ source_part: string; chunk_count: number }>) {
+        console.log(`  ${row.source_part}: ${row.chunk_count} chunks`);
+      }
+    } else {
+      const [job] = await bq.createQueryJob({
+        query: `
+          UPDATE ${chunks} c
+          SET source_part = ${sourcePart}
+          FROM (${messages}) r
+          WHERE c.gmail_message_id = r.gmail_message_id
+            AND c.source_part IS NULL
+        `,
+        location: cfg.location,
+      });
+      await job.getQueryResults();
+      const [metadata] = await job.getMetadata();
+      console.log(`source_part: updated ${metadata.statistics?.query?.numDmlAffectedRows ?? '?'} chunks`);
+    }
+  }
+
+  if (argv.only !== 'source-part') {
+    const [rows] = await bq.query({
+      query: `
+        SELECT gmail_message_id,
+          ANY_VALUE(from_email) AS from_email,
+          ANY_VALUE(from_name) AS from_name,
+          ANY_VALUE(reply_to) AS reply_to,
+          ANY_VALUE(list_id) AS list_id
+        FROM ${rawEmails}
+        WHERE gmail_message_id IN (
+          SELECT DISTINCT gmail_message_id FROM ${chunks}
+          WHERE publisher_id IS NULL AND gmail_message_id IS NOT NULL
+        )
+        GROUP BY gmail_message_id
+      `,
+      location: cfg.location,
+    });
+
+    const senders = rows as Array<SenderFields & { gmail_message_id: string }>;
+    // Dry runs only look up known publishers
+    const publishers = dryRun
+      ? await loadPublisherResolver()
+      : resolverFromSync(await syncPublishers(createBigQueryPublisherStore(), senders));
+    const mapping = senders
+      .map((s) => ({ gmail_message_id: s.gmail_message_id, publisher_id: publishers.resolve(s) }))
+      .filter((m): m is { gmail_message_id: string; publisher_id: string } => m.publisher_id !== null);
+
+    console.log(`publisher_id: ${senders.length} messages without one, ${mapping.length} ${dryRun ? 'with a known publisher' : 'resolved'}`);
+
+    if (!dryRun) {
+      let updated = 0;
+      for (let i = 0; i < mapping.length; i += UPDATE_BATCH_SIZE) {
+        const batch = mapping.slice(i, i + UPDATE_BATCH_SIZE);
+        const [job] = await bq.createQueryJob({
+          query: `
+            UPDATE ${chunks} c
+            SET publisher_id = m.publisher_id
+            FROM UNNEST(@mapping) m
+            WHERE c.gmail_message_id = m.gmail_message_id
+              AND c.publisher_id IS NULL
+          `,
+          params: { mapping: batch },
+          location: cfg.location,
+        });
+        await job.getQueryResults();
+        const [metadata] = await job.getMetadata();
+        updated += Number(metadata.statistics?.query?.numDmlAffectedRows || 0);
+      }
+      console.log(`publisher_id: updated ${updated} chunks`);
+    }
+  }
+
+  if (dryRun) {
+    console.log('\n[DRY RUN] Re-run with --no-dry-run to apply');
+  }
+}
+
+main().catch((err) => {
+  console.error('Error:', err.message || err);
+  process.exit(1);
+});
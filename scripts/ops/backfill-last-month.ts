@@ -1,20 +1,28 @@
+import 'dotenv/config';
 import { execSync } from 'child_process';
+import { getGmail } from '../../src/gmail/client';
+import { listInboxKeys } from '../../src/gmail/inboxes';
+import {
+  backfillInbox,
+  createBigQueryIngestStore,
+  createFileBackfillCheckpoint,
+  gmailIngestClient,
+  InboxKey,
+  resolveIngestOptions,
+} from '../../src/core/ingestion';
 
 /**
  * BACKFILL SCRIPT
  * 
  * Goals:
  * 1. Ingest emails from last 30 days
- * 2. Support both inboxes
+ * 2. Support every registered inbox
  * 3. Apply "Ingested" labels (requires READONLY=false)
- * 4. Loop to handle pagination/limits
+ * 4. Page through the whole range, resuming from the saved checkpoint if interrupted
  * 5. Trigger processing
  */
 
-const BATCH_SIZE = 100; // Safe batch size
-const MAX_LOOPS = 20;   // Prevent infinite loops (2000 emails max per inbox)
-const INBOXES = ['me', 'other'];
-const QUERY = 'newer_than:30d -label:Ingested';
+const DAYS = 30;
 
 function runCommand(cmd: string): string {
   // Clone env to modify it
@@ -22,11 +30,6 @@ function runCommand(cmd: string): string {
   
   // Remove credentials file path to force fallback to ADC (which is working)
   delete env.GOOGLE_APPLICATION_CREDENTIALS;
-  
-  // Set required overrides
-  env.GMAIL_READONLY = 'false';
-  env.GMAIL_QUERY = QUERY;
-  env.GMAIL_MARK_READ = 'false'; // Keep read status as is
 
   try {
     return execSync(cmd, { 
@@ -42,63 +45,39 @@ function runCommand(cmd: string): string {
   }
 }
 
-async function backfillInbox(inbox: string, dryRun: boolean) {
+async function backfillLastMonth(inbox: InboxKey, since: Date, dryRun: boolean) {
   console.log(`\n📥 Starting backfill for inbox: ${inbox}`);
-  console.log(`   Query: "${QUERY}"`);
-  console.log(`   Batch Size: ${BATCH_SIZE}`);
+  console.log(`   Since: ${since.toISOString()}`);
   console.log(`   Mode: ${dryRun ? 'DRY RUN (Preview)' : 'LIVE (Execution)'}`);
 
-  let totalIngested = 0;
-  let loopCount = 0;
-
-  while (loopCount < MAX_LOOPS) {
-    loopCount++;
-    console.log(`\n--- Batch ${loopCount} ---`);
-
-    const cmd = `npm run ingest:gmail -- --inbox ${inbox} --limit ${BATCH_SIZE} ${dryRun ? '--dry-run' : '--no-dry-run'}`;
-    const output = runCommand(cmd);
-
-    // Parse output to see what happened
-    console.log(output);
-
-    // Extract metrics from output
-    const ingestedMatch = output.match(/New emails ingested: (\d+)/);
-    const ingestedCount = ingestedMatch ? parseInt(ingestedMatch[1], 10) : 0;
-
-    const labeledMatch = output.match(/Gmail labels applied: (\d+)/);
-    const labeledCount = labeledMatch ? parseInt(labeledMatch[1], 10) : 0;
-    
-    totalIngested += ingestedCount;
-
-    // Stop conditions
-    if (ingestedCount === 0) {
-      const fetchedMatch = output.match(/Gmail: fetched (\d+) messages/);
-      const fetchedCount = fetchedMatch ? parseInt(fetchedMatch[1], 10) : 0;
-      
-      if (fetchedCount === 0) {
-         console.log(`\n✅ No more matching emails found in Gmail.`);
-         break;
-      }
-
-      if (fetchedCount > 0 && ingestedCount === 0) {
-         if (labeledCount > 0) {
-            console.log(`\n🔄 Batch labeled ${labeledCount} messages (0 ingested). Continuing to next batch...`);
-            continue;
-         }
-         console.log(`\n⚠️  Fetched ${fetchedCount} messages but ingested 0 and labeled 0.`);
-         console.log(`   Assuming backfill complete OR labeling failed.`);
-         break;
-      }
-    }
-    
-    if (dryRun) {
-      console.log(`\nℹ️  Dry run batch complete. Stopping loop to prevent spamming logs.`);
-      break;
-    }
+  const gmail = gmailIngestClient(await getGmail(inbox));
+  const options = resolveIngestOptions(inbox, {
+    query: '',
+    since,
+    readonly: false,
+    markRead: false, // Keep read status as is
+    dryRun,
+    limit: 50000,
+  });
+
+  const report = await backfillInbox(gmail, createBigQueryIngestStore(), createFileBackfillCheckpoint(), options, {
+    onPage: (_report, state) => {
+      console.log(`   Page ${state.pagesDone}: listed=${state.messagesSeen}, inserted=${state.insertedRaw}`);
+    },
+  });
+
+  if (report.resumedAtPage !== null) {
+    console.log(`   (resumed at page ${report.resumedAtPage})`);
   }
-
-  console.log(`\n🏁 Finished backfill for ${inbox}. Total new emails: ${totalIngested}`);
-  return totalIngested;
+  if (dryRun) {
+    console.log(`\nℹ️  Dry run: ${report.fetched} messages in range across ${report.pages} pages.`);
+    return 0;
+  }
+  if (report.labelError) {
+    console.warn(`   ⚠️  ${report.labelError}`);
+  }
+  console.log(`\n🏁 Finished backfill for ${inbox}. New emails: ${report.insertedRaw}, skipped: ${report.existingSkipped}, failed: ${report.failed.length}${report.complete ? '' : ' (incomplete — re-run to resume)'}`);
+  return report.insertedRaw;
 }
 
 async function main() {
@@ -111,11 +90,17 @@ async function main() {
     console.log('   Run with --execute to actually ingest and label emails.');
   }
 
+  // Remove credentials file path to force fallback to ADC (which is working)
+  delete process.env.GOOGLE_APPLICATION_CREDENTIALS;
+
+  // Day-aligned so re-running on the same day resumes the same checkpoint
+  const since = new Date(Date.now() - DAYS * 24 * 60 * 60 * 1000);
+  since.setUTCHours(0, 0, 0, 0);
   let grandTotal = 0;
 
-  for (const inbox of INBOXES) {
+  for (const inbox of listInboxKeys()) {
     try {
-      grandTotal += await backfillInbox(inbox, dryRun);
+      grandTotal += await backfillLastMonth(inbox, since, dryRun);
     } catch (err: any) {
       console.error(`❌ Failed processing inbox ${inbox}:`, err.message);
     }
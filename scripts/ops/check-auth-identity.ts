@@ -1,6 +1,7 @@
 import { getGmail } from '../../src/gmail/client';
+import { listInboxKeys } from '../../src/gmail/inboxes';
 
-async function checkIdentity(inbox: 'me' | 'other') {
+async function checkIdentity(inbox: string) {
   try {
     const gmail = await getGmail(inbox);
     const profile = await gmail.users.getProfile({ userId: 'me' });
@@ -15,8 +16,9 @@ async function checkIdentity(inbox: 'me' | 'other') {
 }
 
 async function main() {
-  await checkIdentity('me');
-  await checkIdentity('other');
+  for (const inbox of listInboxKeys()) {
+    await checkIdentity(inbox);
+  }
 }
 
 main().catch(console.error);
@@ -0,0 +1,206 @@
+#!/usr/bin/env ts-node
+/**
+ * Publisher Canonicalization Fixture Test
+ *
+ * Runs publisherCanonical over sender headers copied from real newsletters
+ * and checks the primary key and display name each one resolves to, then
+ * drives syncPublishers against an in-memory store to check that publishers
+ * are created once, pick up aliases, and get merged when two rows turn out
+ * to be the same sender.
+ *
+ * No BigQuery or network access; exits non-zero if any check fails.
+ */
+
+import {
+  publisherCanonical,
+  resolverFromSync,
+  syncPublishers,
+  PublisherAliasRow,
+  PublisherRow,
+  PublisherStore,
+  SenderFields,
+} from '../../src/core/publisher';
+
+interface Fixture {
+  name: string;
+  sender: SenderFields;
+  key: string;          // "service:site_id"
+  displayName: string;
+}
+
+const FIXTURES: Fixture[] = [
+  {
+    name: 'substack, plain address',
+    sender: {
+      from_email: 'observingjapan@substack.com',
+      from_name: 'Tobias Harris from Observing Japan',
+      list_id: '<observingjapan.substack.com>',
+      reply_to: 'reply+2j9xqk&3f&&a1b2@mg1.substack.com',
+    },
+    key: 'substack:observingjapan',
+    displayName: 'Observing Japan',
+  },
+  {
+    name: 'substack, +suffix section',
+    sender: {
+      from_email: 'observingjapan+japan-daily-briefing@substack.com',
+      from_name: 'Japan Daily Briefing',
+      list_id: null,
+    },
+    key: 'substack:observingjapan',
+    displayName: 'Japan Daily Briefing',
+  },
+  {
+    name: 'substack, List-Id phrase names the publication',
+    sender: {
+      from_email: 'noahpinion@substack.com',
+      from_name: 'Noah Smith',
+      list_id: 'Noahpinion <noahpinion.substack.com>',
+    },
+    key: 'substack:noahpinion',
+    displayName: 'Noahpinion',
+  },
+  {
+    name: 'beehiiv',
+    sender: {
+      from_email: 'morningbrew@mail.beehiiv.com',
+      from_name: 'Morning Brew',
+      list_id: null,
+    },
+    key: 'beehiiv:morningbrew',
+    displayName: 'Morning Brew',
+  },
+  {
+    name: 'ghost, noreply on publication subdomain',
+    sender: {
+      from_email: 'noreply@thegeopolitics.ghost.io',
+      from_name: 'The Geopolitics',
+      list_id: null,
+    },
+    key: 'ghost:thegeopolitics',
+    displayName: 'The Geopolitics',
+  },
+  {
+    name: 'own domain with List-Id',
+    sender: {
+      from_email: 'newsletter@mail.foreignaffairs.com',
+      from_name: 'Foreign Affairs',
+      list_id: '"Foreign Affairs This Week" <fa-weekly.list-id.foreignaffairs.com>',
+    },
+    key: 'list:fa-weekly.list-id.foreignaffairs.com',
+    displayName: 'Foreign Affairs This Week',
+  },
+  {
+    name: 'own domain, no List-Id',
+    sender: {
+      from_email: 'briefing@news.economist.co.uk',
+      from_name: 'The Economist',
+      list_id: null,
+    },
+    key: 'domain:economist.co.uk',
+    displayName: 'The Economist',
+  },
+  {
+    name: 'personal mailbox',
+    sender: {
+      from_email: 'Jane.Analyst+letters@gmail.com',
+      from_name: '"Jane Analyst"',
+      list_id: null,
+    },
+    key: 'email:jane.analyst@gmail.com',
+    displayName: 'Jane Analyst',
+  },
+];
+
+function createMemoryStore(): PublisherStore & { publishers: PublisherRow[]; aliases: PublisherAliasRow[] } {
+  const state = { publishers: [] as PublisherRow[], aliases: [] as PublisherAliasRow[] };
+  return {
+    get publishers() { return state.publishers; },
+    get aliases() { return state.aliases; },
+    async load() {
+      return { publishers: [...state.publishers], aliases: [...state.aliases] };
+    },
+    async insertPublishers(rows) {
+      state.publishers.push(...rows);
+    },
+    async insertAliases(rows) {
+      state.aliases.push(...rows);
+    },
+    async touchPublishers() {},
+    async mergePublishers(survivorId, mergedIds) {
+      for (const p of state.publishers.filter((p) => mergedIds.includes(p.publisher_id))) {
+        state.aliases.push({ alias_service: p.service, alias_site_id: p.site_id, publisher_id: survivorId });
+      }
+      for (const a of state.aliases) {
+        if (mergedIds.includes(a.publisher_id)) a.publisher_id = survivorId;
+      }
+      state.publishers = state.publishers.filter((p) => !mergedIds.includes(p.publisher_id));
+    },
+  };
+}
+
+let failures = 0;
+function check(label: string, actual: unknown, expected: unknown): void {
+  const ok = JSON.stringify(actual) === JSON.stringify(expected);
+  if (!ok) failures++;
+  console.log(`  ${ok ? '✅' : '❌'} ${label}${ok ? '' : `: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`}`);
+}
+
+async function main() {
+  console.log('🧪 publisherCanonical fixtures');
+  for (const fixture of FIXTURES) {
+    const canonical = publisherCanonical(fixture.sender);
+    const key = canonical ? `${canonical.key.service}:${canonical.key.siteId}` : null;
+    check(`${fixture.name}: key`, key, fixture.key);
+    check(`${fixture.name}: display name`, canonical?.displayName, fixture.displayName);
+  }
+
+  console.log('\n🧪 syncPublishers');
+  const store = createMemoryStore();
+
+  const first = await syncPublishers(store, FIXTURES.map((f) => f.sender));
+  // Both observingjapan fixtures are one publisher
+  check('creates one publisher per identity', first.created, FIXTURES.length - 1);
+  check('no merges on a clean table', first.merges.length, 0);
+
+  const again = await syncPublishers(store, FIXTURES.map((f) => f.sender));
+  check('second run is a no-op', [again.created, again.aliasesAdded, again.merges.length], [0, 0, 0]);
+
+  // A publisher created under its platform address before it grew a List-Id,
+  // plus one created under the List-Id alone: a sender carrying both merges them
+  const split = createMemoryStore();
+  await syncPublishers(split, [{ from_email: 'intelbrief@substack.com', list_id: null, from_name: 'Intel Brief' }]);
+  await syncPublishers(split, [{ from_email: null, list_id: '<daily.intel-brief.net>' }]);
+  check('split publishers before merge', split.publishers.length, 2);
+  const merged = await syncPublishers(split, [{ from_email: 'intelbrief@substack.com', list_id: '<daily.intel-brief.net>' }]);
+  check('merge reported', merged.merges.length, 1);
+  check('one publisher left', split.publishers.length, 1);
+  check('all aliases point at the survivor',
+    Array.from(new Set(split.aliases.map((a) => a.publisher_id))),
+    [split.publishers[0].publisher_id]);
+
+  // Two lists sent from the same address and domain stay two publishers
+  const shared = createMemoryStore();
+  const morning = { from_email: 'nytdirect@nytimes.com', list_id: '<morning.nytimes.com>', from_name: 'The Morning' };
+  const dealbook = { from_email: 'nytdirect@nytimes.com', list_id: '<dealbook.nytimes.com>', from_name: 'DealBook' };
+  await syncPublishers(shared, [morning]);
+  const second = await syncPublishers(shared, [dealbook]);
+  check('new List-Id on a known domain creates a publisher', second.created, 1);
+  const third = await syncPublishers(shared, [morning, dealbook, { from_email: 'nytdirect@nytimes.com', list_id: null }]);
+  check('lists on a shared domain are never merged', [third.merges.length, shared.publishers.length], [0, 2]);
+  const resolver = resolverFromSync(third);
+  check('each list resolves to its own publisher',
+    resolver.resolve(morning) !== resolver.resolve(dealbook), true);
+
+  console.log();
+  if (failures > 0) {
+    console.log(`❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('✅ All publisher checks passed');
+}
+
+main().catch((err) => {
+  console.error('❌ Test crashed:', err);
+  process.exit(1);
+});
@@ -8,7 +8,8 @@
 import dotenv from 'dotenv';
 dotenv.config();
 
-import { executeRAGQuery, checkRelevance } from '../../src/core/rag';
+import { executeRAGQuery } from '../../src/core/rag';
+import { checkRelevance } from '../../src/core/rerank';
 
 const DEBUG_QUERIES = [
   "What predictions have been made about Taiwan's semiconductor industry?",
@@ -13,12 +13,16 @@
  * - Query 1: Should find 3+ relevant chunks, answer confidently
  * - Query 2: Should find 3+ relevant chunks, answer with medium-to-high confidence
  * - Query 3: Should find some relevant chunks but lower confidence
+ *
+ * Runs once per reranker (heuristic, bm25, llm); pass a comma-separated
+ * list to run a subset, e.g. `npm run rag:test -- bm25`
  */
 
 import dotenv from 'dotenv';
 dotenv.config();
 
 import { executeRAGQuery } from '../../src/core/rag';
+import { RERANKER_NAMES, RerankerName } from '../../src/core/rerank';
 
 interface TestQuery {
   query: string;
@@ -44,9 +48,9 @@ const GOLDEN_QUERIES: TestQuery[] = [
   }
 ];
 
-async function testGoldenQueries() {
+async function testGoldenQueries(reranker: RerankerName): Promise<boolean> {
   console.log('='.repeat(80));
-  console.log('🧪 RAG GOLDEN QUERY TEST');
+  console.log(`🧪 RAG GOLDEN QUERY TEST (reranker: ${reranker})`);
   console.log('='.repeat(80));
   console.log();
   console.log('Testing RAG pipeline with queries that SHOULD be answered');
@@ -66,7 +70,7 @@ async function testGoldenQueries() {
     console.log();
     
     const startTime = Date.now();
-    const result = await executeRAGQuery(testQuery.query);
+    const result = await executeRAGQuery(testQuery.query, { reranker });
     const duration = ((Date.now() - startTime) / 1000).toFixed(2);
     
     results.push({ testQuery, result, duration });
@@ -74,7 +78,11 @@ async function testGoldenQueries() {
     // Display results
     console.log(`   ⏱️  Query time: ${duration}s`);
     console.log(`   🔍 Stage 1: ${result.searchResults.length} chunks found`);
-    console.log(`   🎯 Stage 2: ${result.decision.usableChunks} usable chunks`);
+    if (result.diversification) {
+      const d = result.diversification;
+      console.log(`   🧹 Diversified: ${d.candidates} candidates, ${d.collapsed} collapsed, ${d.duplicates} duplicates`);
+    }
+    console.log(`   🎯 Stage 2: ${result.decision.usableChunks} usable chunks from ${result.decision.distinctSources} sources`);
     console.log(`   🤖 Decision: ${result.decision.shouldAnswer ? 'ANSWER' : 'REJECT'} (confidence: ${result.decision.confidence})`);
     console.log(`   💡 Reason: ${result.decision.reason}`);
     
@@ -133,8 +141,8 @@ async function testGoldenQueries() {
     console.log();
     console.log('⚠️  Some queries that should be answered were rejected');
     console.log('⚠️  This may indicate:');
-    console.log('   1. Thresholds are too strict (increase SIMILARITY_THRESHOLD or RELEVANCE_THRESHOLD)');
-    console.log('   2. Relevance scoring logic is too harsh');
+    console.log(`   1. The ${reranker} reranker's thresholds are too strict (src/core/rerank.ts)`);
+    console.log('   2. Its relevance scoring is too harsh');
     console.log('   3. Corpus coverage is weaker than expected');
     console.log();
     console.log('Review the results above and adjust thresholds if needed.');
@@ -142,11 +150,23 @@ async function testGoldenQueries() {
   console.log('='.repeat(80));
   console.log();
   
-  process.exit(allTestsPassed ? 0 : 1);
+  return allTestsPassed;
+}
+
+async function main() {
+  const rerankers = process.argv[2] ? process.argv[2].split(',') as RerankerName[] : RERANKER_NAMES;
+  const outcomes: Array<[RerankerName, boolean]> = [];
+  for (const reranker of rerankers) {
+    outcomes.push([reranker, await testGoldenQueries(reranker)]);
+  }
+
+  console.log('Per-reranker results:');
+  outcomes.forEach(([reranker, passed]) => console.log(`  ${passed ? '✅' : '❌'} ${reranker}`));
+  process.exit(outcomes.every(([, passed]) => passed) ? 0 : 1);
 }
 
 // Run test
-testGoldenQueries().catch(err => {
+main().catch(err => {
   console.error('❌ Test failed with error:');
   console.error(err);
   process.exit(1);
@@ -1,12 +1,36 @@
 #!/usr/bin/env ts-node
 
+import 'dotenv/config';
 import { Command } from 'commander';
 import * as ingestion from '../src/core/ingestion';
 import * as processor from '../src/core/processor';
 import * as publisher from '../src/core/publisher';
+import * as publisherAdmin from '../src/core/publisher-admin';
 
 const program = new Command();
 
+function printIngestReport(report: ingestion.IngestReport): void {
+  const mode = report.dryRun ? ' [DRY RUN]' : '';
+  console.log(`  ${report.inbox}${mode} (${report.source}): fetched=${report.fetched}, skipped=${report.existingSkipped}, inserted=${report.insertedRaw}, labels=${report.insertedLabels}, gmail_labeled=${report.labeled}, failed=${report.failed.length}`);
+  if (report.labelError) {
+    console.warn(`  ⚠️  ${report.labelError}`);
+  }
+  if (report.watermark.next) {
+    console.log(`    history watermark: ${report.watermark.previous ?? '(none)'} -> ${report.watermark.next}`);
+  }
+}
+
+function printProcessReport(report: processor.ProcessReport): void {
+  const mode = report.dryRun ? ' [DRY RUN]' : '';
+  console.log(`  processed${mode}: selected=${report.selected} (retries=${report.retried}), chunked=${report.chunkedMessages} (${report.chunksInserted} chunks), embedded=${report.embeddedMessages} (${report.embeddingsInserted} vectors), failed=${report.failed.length}`);
+  for (const failure of report.failed.slice(0, 10)) {
+    console.warn(`  ⚠️  ${failure.gmail_message_id} [${failure.step}] ${failure.error}`);
+  }
+  for (const merge of report.failedMerges) {
+    console.warn(`  ⚠️  publishers ${merge.merged.join(', ')} not merged into ${merge.survivor} (run fix-publishers to retry): ${merge.error}`);
+  }
+}
+
 program
   .name('run-pipeline')
   .description('Newsletter Control Center Pipeline CLI')
@@ -15,36 +39,42 @@ program
 program
   .command('ingest')
   .description('Ingest new newsletters from Gmail')
-  .option('--inbox <inbox>', 'Inbox to ingest from: all or email address', 'all')
+  .option('--inbox <inbox>', 'Inbox to ingest from: all or a key from config/inboxes.json', 'all')
+  .option('--limit <n>', 'Maximum messages to list per inbox', '500')
+  .option('--dry-run', 'Preview only: no BigQuery writes or Gmail modifications', false)
+  .option('--mode <mode>', 'query or history (default: GMAIL_SYNC_MODE or query)')
   .action(async (options) => {
     try {
       const inbox = options.inbox || 'all';
-      await ingestion.ingestNewNewsletters(inbox === 'all' ? 'all' : inbox);
+      const reports = await ingestion.ingestNewNewsletters(inbox, {
+        limit: parseInt(options.limit, 10),
+        dryRun: options.dryRun,
+        ...(options.mode ? { mode: options.mode } : {}),
+      });
+      reports.forEach(printIngestReport);
       console.log('✅ Ingestion complete');
     } catch (error: any) {
-      if (error.message.includes('not implemented yet')) {
-        console.log('⚠️  Not implemented yet');
-      } else {
-        console.error('❌ Ingestion failed:', error.message);
-        process.exit(1);
-      }
+      console.error('❌ Ingestion failed:', error.message);
+      process.exit(1);
     }
   });
 
 program
   .command('process')
   .description('Process unchunked messages (chunk and embed)')
-  .action(async () => {
+  .option('--limit <n>', 'Maximum messages to process (default: PROCESS_LIMIT or 200)')
+  .option('--dry-run', 'Select and chunk only: no BigQuery writes or embedding calls', false)
+  .action(async (options) => {
     try {
-      await processor.processUnchunkedMessages();
+      const report = await processor.processUnchunkedMessages({
+        dryRun: options.dryRun,
+        ...(options.limit ? { limit: parseInt(options.limit, 10) } : {}),
+      });
+      printProcessReport(report);
       console.log('✅ Processing complete');
     } catch (error: any) {
-      if (error.message.includes('not implemented yet')) {
-        console.log('⚠️  Not implemented yet');
-      } else {
-        console.error('❌ Processing failed:', error.message);
-        process.exit(1);
-      }
+      console.error('❌ Processing failed:', error.message);
+      process.exit(1);
     }
   });
 
@@ -54,21 +84,18 @@ program
   .action(async () => {
     try {
       console.log('📥 Starting ingestion...');
-      await ingestion.ingestNewNewsletters('all');
+      const reports = await ingestion.ingestNewNewsletters('all');
+      reports.forEach(printIngestReport);
       console.log('✅ Ingestion complete');
       
       console.log('⚙️  Starting processing...');
-      await processor.processUnchunkedMessages();
+      printProcessReport(await processor.processUnchunkedMessages());
       console.log('✅ Processing complete');
       
       console.log('✅ Full pipeline complete');
     } catch (error: any) {
-      if (error.message.includes('not implemented yet')) {
-        console.log('⚠️  Not implemented yet');
-      } else {
-        console.error('❌ Pipeline failed:', error.message);
-        process.exit(1);
-      }
+      console.error('❌ Pipeline failed:', error.message);
+      process.exit(1);
     }
   });
 
@@ -77,13 +104,100 @@ program
   .description('Fix duplicate publishers via alias merge')
   .action(async () => {
     try {
-      // Placeholder for publisher fix logic
-      console.log('⚠️  Publisher fix not implemented yet');
+      const report = await publisher.syncAllPublishers();
+      console.log(`  senders=${report.senders}, created=${report.created}, aliases_added=${report.aliasesAdded}, merges=${report.merges.length}`);
+      for (const merge of report.merges) {
+        console.log(`    merged ${merge.merged.join(', ')} -> ${merge.survivor}`);
+      }
+      for (const merge of report.failedMerges) {
+        console.log(`    ⚠️  not merged ${merge.merged.join(', ')} -> ${merge.survivor}: ${merge.error}`);
+      }
+      if (report.failedMerges.length > 0) {
+        console.error(`❌ ${report.failedMerges.length} merge(s) failed; re-run fix-publishers to retry them`);
+        process.exit(1);
+      }
+      console.log('✅ Publishers fixed (run process:chunks:backfill-metadata to tag older chunks)');
     } catch (error: any) {
       console.error('❌ Publisher fix failed:', error.message);
       process.exit(1);
     }
   });
 
+// Manual publisher corrections; every change lands in publisher_audit
+const publishers = program
+  .command('publishers')
+  .description('Merge, split or rename publishers (audited, revertible)');
+
+function adminContext(options: { actor?: string; reason?: string }): publisherAdmin.AdminContext {
+  return { actor: options.actor || process.env.USER || 'cli', reason: options.reason || null };
+}
+
+function printAudit(entry: publisherAdmin.PublisherAuditRow): void {
+  console.log(`  audit_id=${entry.audit_id} action=${entry.action} publisher=${entry.publisher_id}${entry.other_publisher_id ? ` other=${entry.other_publisher_id}` : ''}`);
+}
+
+function adminAction(fn: (...args: any[]) => Promise<publisherAdmin.PublisherAuditRow>) {
+  return async (...args: any[]) => {
+    try {
+      printAudit(await fn(...args));
+      console.log('✅ Done (undo with: publishers revert <audit_id>)');
+    } catch (error: any) {
+      console.error('❌ Publisher change failed:', error.message);
+      process.exit(1);
+    }
+  };
+}
+
+publishers
+  .command('merge <survivorId> <mergedId>')
+  .description('Fold mergedId into survivorId and re-tag its chunks')
+  .option('--reason <text>', 'Why (stored in the audit log)')
+  .option('--actor <name>', 'Who (default: $USER)')
+  .action(adminAction((survivorId: string, mergedId: string, options) =>
+    publisherAdmin.mergePublisher(survivorId, mergedId, adminContext(options))));
+
+publishers
+  .command('split <service> <siteId>')
+  .description('Move an alias (e.g. email noreply@news.bloomberg.com) into a new publisher')
+  .option('--name <displayName>', 'Display name for the new publisher')
+  .option('--reason <text>', 'Why (stored in the audit log)')
+  .option('--actor <name>', 'Who (default: $USER)')
+  .action(adminAction((service: string, siteId: string, options) =>
+    publisherAdmin.splitAlias(service, siteId, { ...adminContext(options), displayName: options.name })));
+
+publishers
+  .command('rename <publisherId> <displayName>')
+  .description('Change a publisher display name')
+  .option('--reason <text>', 'Why (stored in the audit log)')
+  .option('--actor <name>', 'Who (default: $USER)')
+  .action(adminAction((publisherId: string, displayName: string, options) =>
+    publisherAdmin.renamePublisher(publisherId, displayName, adminContext(options))));
+
+publishers
+  .command('revert <auditId>')
+  .description('Undo a merge, split or rename')
+  .option('--reason <text>', 'Why (stored in the audit log)')
+  .option('--actor <name>', 'Who (default: $USER)')
+  .action(adminAction((auditId: string, options) =>
+    publisherAdmin.revertChange(auditId, adminContext(options))));
+
+publishers
+  .command('history')
+  .description('Show recent publisher changes')
+  .option('--publisher <id>', 'Only changes touching this publisher')
+  .option('--limit <n>', 'Entries to show', '20')
+  .action(async (options) => {
+    try {
+      const entries = await publisherAdmin.listAudit({ publisherId: options.publisher, limit: parseInt(options.limit, 10) });
+      for (const entry of entries) {
+        const reverted = entry.reverted_at ? ` (reverted ${entry.reverted_at} by ${entry.reverted_by})` : '';
+        console.log(`${entry.created_at}  ${entry.action.padEnd(7)} ${entry.audit_id}  ${entry.publisher_id}${entry.other_publisher_id ? ` <- ${entry.other_publisher_id}` : ''}  ${entry.actor}${entry.reason ? `: ${entry.reason}` : ''}${reverted}`);
+      }
+    } catch (error: any) {
+      console.error('❌ Could not read publisher history:', error.message);
+      process.exit(1);
+    }
+  });
+
 program.parse();
 
@@ -42,6 +42,7 @@ async function main() {
       sent_date TIMESTAMP,
       body_html STRING,
       body_text STRING,
+      snippet STRING,
       content_hash STRING,
       is_paid BOOL,
       ingested_at TIMESTAMP
@@ -71,6 +72,20 @@ async function main() {
       publisher_id STRING
     );`,
 
+    // manual merge/split/rename history (src/core/publisher-admin.ts)
+    `CREATE TABLE IF NOT EXISTS \`${projectId}.${datasetId}.publisher_audit\` (
+      audit_id STRING,
+      action STRING,
+      publisher_id STRING,
+      other_publisher_id STRING,
+      detail STRING,
+      actor STRING,
+      reason STRING,
+      created_at TIMESTAMP,
+      reverted_at TIMESTAMP,
+      reverted_by STRING
+    );`,
+
     `CREATE TABLE IF NOT EXISTS \`${projectId}.${datasetId}.chunks\` (
       chunk_id STRING,
       gmail_message_id STRING,
@@ -80,11 +95,20 @@ async function main() {
       char_end INT64,
       chunk_index INT64,
       chunk_text STRING,
+      section_heading STRING,
       created_at TIMESTAMP
     )
     PARTITION BY DATE(created_at)
     CLUSTER BY publisher_id, gmail_message_id;`,
 
+    // columns added after the initial schema
+    `ALTER TABLE \`${projectId}.${datasetId}.raw_emails\`
+      ADD COLUMN IF NOT EXISTS snippet STRING;`,
+    `ALTER TABLE \`${projectId}.${datasetId}.chunks\`
+      ADD COLUMN IF NOT EXISTS section_heading STRING;`,
+    `ALTER TABLE \`${projectId}.${datasetId}.publishers\`
+      ADD COLUMN IF NOT EXISTS is_vip BOOL;`,
+
     `CREATE TABLE IF NOT EXISTS \`${projectId}.${datasetId}.chunk_embeddings\` (
       chunk_id STRING,
       model STRING,
@@ -93,6 +117,19 @@ async function main() {
       created_at TIMESTAMP
     )
     CLUSTER BY chunk_id;`,
+
+    // follow-up question memory (src/core/conversation.ts)
+    `CREATE TABLE IF NOT EXISTS \`${projectId}.${datasetId}.conversation_turns\` (
+      conversation_id STRING,
+      turn_index INT64,
+      query STRING,
+      standalone_query STRING,
+      answer STRING,
+      citations STRING,
+      created_at TIMESTAMP
+    )
+    PARTITION BY DATE(created_at)
+    CLUSTER BY conversation_id;`,
   ];
 
   for (const sql of ddls) {
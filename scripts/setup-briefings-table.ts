@@ -4,7 +4,10 @@
  * Run with: npx ts-node scripts/setup-briefings-table.ts
  * 
  * This script creates the briefings table if it doesn't exist,
- * or adds any missing columns if it does.
+ * or adds any missing columns if it does, and creates the
+ * briefing_lenses table for saved lenses, the email_insights
+ * table the Map phase caches its extractions in, and the
+ * narrative_appearances table that links clusters across briefings.
  */
 
 import { BigQuery } from '@google-cloud/bigquery';
@@ -30,27 +33,39 @@ async function setupBriefingsTable() {
     if (exists) {
       console.log(`✅ Table ${DATASET_ID}.${tableId} already exists.`);
       
-      // Try to add model_version column if it doesn't exist
-      try {
-        const addColumnQuery = `
-          ALTER TABLE \`${PROJECT_ID}.${DATASET_ID}.${tableId}\`
-          ADD COLUMN IF NOT EXISTS model_version STRING
-        `;
-        
-        await bigquery.query({
-          query: addColumnQuery,
-          location: BIGQUERY_LOCATION,
-        });
-        
-        console.log('✅ Ensured model_version column exists.');
-      } catch (alterError: unknown) {
-        // Column might already exist, which is fine
-        const errorMessage = alterError instanceof Error ? alterError.message : String(alterError);
-        if (!errorMessage.includes('already exists')) {
-          console.warn('⚠️  Could not add model_version column:', errorMessage);
+      // Try to add columns added since the table was created
+      const columns = [
+        ['model_version', 'STRING'],
+        ['lens_name', 'STRING'],
+        ['lens_json', 'JSON'],
+        ['briefing_type', 'STRING'],
+        ['child_briefing_ids', 'ARRAY<STRING>'],
+      ];
+      for (const [column, type] of columns) {
+        try {
+          const addColumnQuery = `
+            ALTER TABLE \`${PROJECT_ID}.${DATASET_ID}.${tableId}\`
+            ADD COLUMN IF NOT EXISTS ${column} ${type}
+          `;
+          
+          await bigquery.query({
+            query: addColumnQuery,
+            location: BIGQUERY_LOCATION,
+          });
+          
+          console.log(`✅ Ensured ${column} column exists.`);
+        } catch (alterError: unknown) {
+          // Column might already exist, which is fine
+          const errorMessage = alterError instanceof Error ? alterError.message : String(alterError);
+          if (!errorMessage.includes('already exists')) {
+            console.warn(`⚠️  Could not add ${column} column:`, errorMessage);
+          }
         }
       }
       
+      await setupLensesTable(bigquery);
+      await setupInsightsTable(bigquery);
+      await setupNarrativesTable(bigquery);
       return;
     }
 
@@ -63,7 +78,11 @@ async function setupBriefingsTable() {
         time_window_end TIMESTAMP,
         content_json JSON,
         email_count INT64,
-        model_version STRING
+        model_version STRING,
+        lens_name STRING,       -- NULL for whole-inbox briefings
+        lens_json JSON,         -- The lens as applied (query, entities, publishers)
+        briefing_type STRING,   -- daily | weekly | monthly (NULL in older rows = daily)
+        child_briefing_ids ARRAY<STRING>  -- Roll-ups: the daily briefings they cover
       )
     `;
 
@@ -76,6 +95,10 @@ async function setupBriefingsTable() {
     console.log(`   Project: ${PROJECT_ID}`);
     console.log(`   Dataset: ${DATASET_ID}`);
     console.log(`   Location: ${BIGQUERY_LOCATION}`);
+
+    await setupLensesTable(bigquery);
+    await setupInsightsTable(bigquery);
+    await setupNarrativesTable(bigquery);
     
   } catch (error) {
     console.error('❌ Error setting up table:', error);
@@ -83,6 +106,88 @@ async function setupBriefingsTable() {
   }
 }
 
+/**
+ * Saved lenses for topic-scoped briefings, one row per lens name
+ */
+async function setupLensesTable(bigquery: BigQuery) {
+  await bigquery.query({
+    query: `
+      CREATE TABLE IF NOT EXISTS \`${PROJECT_ID}.${DATASET_ID}.briefing_lenses\` (
+        name STRING NOT NULL,
+        query STRING,
+        entities ARRAY<STRING>,
+        publishers ARRAY<STRING>,
+        min_similarity FLOAT64,
+        created_at TIMESTAMP
+      )
+    `,
+    location: BIGQUERY_LOCATION,
+  });
+
+  console.log('✅ Ensured briefing_lenses table exists.');
+}
+
+/**
+ * Map-phase insights, one row per extraction. A cached insight is reused
+ * for the same gmail_message_id, prompt_version and model; the latest
+ * extraction of each email doubles as an entity/theme index.
+ */
+async function setupInsightsTable(bigquery: BigQuery) {
+  await bigquery.query({
+    query: `
+      CREATE TABLE IF NOT EXISTS \`${PROJECT_ID}.${DATASET_ID}.email_insights\` (
+        gmail_message_id STRING NOT NULL,
+        prompt_version STRING NOT NULL,   -- Hash of the Map prompt
+        model STRING NOT NULL,
+        publisher STRING,
+        subject STRING,
+        sent_date TIMESTAMP,
+        snippet STRING,
+        themes ARRAY<STRING>,
+        entities ARRAY<STRING>,
+        sentiment STRING,
+        summary STRING,
+        key_claims ARRAY<STRING>,
+        extracted_at TIMESTAMP
+      )
+      CLUSTER BY gmail_message_id, prompt_version, model
+    `,
+    location: BIGQUERY_LOCATION,
+  });
+
+  console.log('✅ Ensured email_insights table exists.');
+}
+
+/**
+ * One row per briefing cluster, keyed by the narrative (story) it belongs
+ * to. A new briefing's clusters are matched against each narrative's
+ * latest row, so the embedding of its title and synthesis is kept too.
+ */
+async function setupNarrativesTable(bigquery: BigQuery) {
+  await bigquery.query({
+    query: `
+      CREATE TABLE IF NOT EXISTS \`${PROJECT_ID}.${DATASET_ID}.narrative_appearances\` (
+        narrative_id STRING NOT NULL,
+        briefing_id STRING NOT NULL,
+        generated_at TIMESTAMP,
+        cluster_title STRING,
+        synthesis STRING,
+        consensus_sentiment STRING,
+        source_count INT64,
+        source_ids ARRAY<STRING>,
+        entities ARRAY<STRING>,           -- From the sources' insights, lowercased
+        sentiment_breakdown JSON,
+        embedding ARRAY<FLOAT64>,         -- Title + synthesis
+        match_score FLOAT64               -- NULL where the narrative started
+      )
+      CLUSTER BY narrative_id
+    `,
+    location: BIGQUERY_LOCATION,
+  });
+
+  console.log('✅ Ensured narrative_appearances table exists.');
+}
+
 setupBriefingsTable()
   .then(() => {
     console.log('\n🎉 Setup complete!');
@@ -3,12 +3,34 @@
  * 
  * POST /query
  * Accepts a natural language query and returns an answer generated from newsletter content.
+ * Optional "filters": { fromDate, toDate, publishers, excludePublishers, vipOnly, paidOnly, inboxes, asOf }
+ * With "stream": true (or Accept: text/event-stream) responds with Server-Sent
+ * Events: embedding, search, relevance, token..., verification, then done
+ * (or error); comparative questions split into sub-queries send plan instead
+ * of embedding and search, and return the plan in diagnostics.plan.
+ * Each claim's citation support is returned in verification.claims
+ * (RAG_VERIFY_CITATIONS=strip also removes unsupported claims from the answer,
+ * and the stream then sends the verified answer as one token event).
+ * Optional "conversationId" continues a conversation: the query is answered as
+ * a follow-up to its earlier turns. Without one a new conversation is started;
+ * its id comes back as conversation.id.
+ *
+ * GET /conversations/:id
+ * The stored turns of a conversation, oldest first.
+ *
  * Uses Bearer token authentication.
+ *
+ * /admin/publishers/* - audited publisher corrections (see ./publisher-admin)
  */
 
 import express from 'express';
 import { GoogleAuth } from 'google-auth-library';
+import { v4 as uuidv4 } from 'uuid';
 import { executeRAGWithAnswer } from '../core/rag-application';
+import { RAGFilters, RAGQueryOptions } from '../core/rag';
+import { getConversationStore, validateConversationId } from '../core/conversation';
+import { formatSSE, wantsEventStream, SSE_HEADERS } from '../lib/sse';
+import publisherAdminRoutes from './publisher-admin';
 
 const app = express();
 app.use(express.json());
@@ -41,11 +63,46 @@ app.use(requireAuth);
 
 interface QueryRequest {
   query: string;
+  filters?: RAGFilters;
+  conversationId?: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validate the optional filters object; returns an error message or null
+ */
+function validateFilters(filters: any): string | null {
+  if (filters === undefined || filters === null) return null;
+  if (typeof filters !== 'object' || Array.isArray(filters)) return 'filters must be an object.';
+
+  for (const key of ['fromDate', 'toDate']) {
+    if (filters[key] !== undefined && (typeof filters[key] !== 'string' || !DATE_PATTERN.test(filters[key]))) {
+      return `filters.${key} must be a YYYY-MM-DD date.`;
+    }
+  }
+  if (filters.asOf !== undefined && (typeof filters.asOf !== 'string' || isNaN(new Date(filters.asOf).getTime()))) {
+    return 'filters.asOf must be an ISO date or timestamp.';
+  }
+  if (filters.fromDate && filters.toDate && filters.fromDate > filters.toDate) {
+    return 'filters.fromDate must not be after filters.toDate.';
+  }
+  for (const key of ['publishers', 'excludePublishers', 'inboxes']) {
+    if (filters[key] !== undefined && (!Array.isArray(filters[key]) || filters[key].some((v: unknown) => typeof v !== 'string'))) {
+      return `filters.${key} must be an array of strings.`;
+    }
+  }
+  for (const key of ['vipOnly', 'paidOnly']) {
+    if (filters[key] !== undefined && typeof filters[key] !== 'boolean') {
+      return `filters.${key} must be a boolean.`;
+    }
+  }
+  return null;
 }
 
 app.post('/query', async (req, res) => {
   try {
-    const { query } = req.body as QueryRequest;
+    const { query, filters, conversationId } = req.body as QueryRequest;
 
     if (!query || typeof query !== 'string' || query.trim().length === 0) {
       return res.status(400).json({
@@ -54,9 +111,48 @@ app.post('/query', async (req, res) => {
       });
     }
 
-    console.log(`Processing query: "${query.substring(0, 100)}${query.length > 100 ? '...' : ''}"`);
+    const filterError = validateFilters(filters);
+    if (filterError) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: filterError
+      });
+    }
+
+    const conversationError = conversationId === undefined ? null : validateConversationId(conversationId);
+    if (conversationError) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: conversationError
+      });
+    }
+
+    console.log(`Processing query: "${query.substring(0, 100)}${query.length > 100 ? '...' : ''}"${filters ? ` filters=${JSON.stringify(filters)}` : ''}`);
+
+    // Pass on only the filter fields; tuning options are not client-controlled
+    const { fromDate, toDate, publishers, excludePublishers, vipOnly, paidOnly, inboxes, asOf } = filters || {};
+    const options: RAGQueryOptions & { conversationId: string } = {
+      fromDate, toDate, publishers, excludePublishers, vipOnly, paidOnly, inboxes, asOf,
+      conversationId: conversationId || uuidv4()
+    };
+
+    if (wantsEventStream(req.headers.accept, req.body)) {
+      // Stage events, then answer tokens, then the full response as "done"
+      res.writeHead(200, SSE_HEADERS);
+      try {
+        const result = await executeRAGWithAnswer(query, {
+          ...options,
+          onEvent: event => res.write(formatSSE(event.type, event))
+        });
+        res.write(formatSSE('done', result));
+      } catch (error: any) {
+        console.error('Error streaming query:', error);
+        res.write(formatSSE('error', { message: error.message || 'An unexpected error occurred' }));
+      }
+      return res.end();
+    }
 
-    const result = await executeRAGWithAnswer(query);
+    const result = await executeRAGWithAnswer(query, options);
 
     // Return success response (even if confidence is none, it's a valid result)
     res.json(result);
@@ -75,6 +171,26 @@ app.post('/query', async (req, res) => {
   }
 });
 
+app.get('/conversations/:id', async (req, res) => {
+  const conversationError = validateConversationId(req.params.id);
+  if (conversationError) {
+    return res.status(400).json({ error: 'Bad Request', message: conversationError });
+  }
+  try {
+    const turns = await getConversationStore().loadTurns(req.params.id);
+    if (turns.length === 0) {
+      return res.status(404).json({ error: 'Not Found', message: `No conversation '${req.params.id}'` });
+    }
+    res.json({ conversation_id: req.params.id, turns });
+  } catch (error: any) {
+    console.error('Conversation lookup failed:', error);
+    res.status(500).json({ error: 'Processing Error', message: error.message });
+  }
+});
+
+// Publisher merge/split/rename (also needs X-Admin-Token)
+app.use('/admin/publishers', publisherAdminRoutes);
+
 // Health check endpoints
 app.get('/health', (req, res) => res.json({ status: 'ok' }));
 app.get('/healthz', (req, res) => res.json({ status: 'ok' }));
@@ -1,6 +1,7 @@
 import express from 'express';
 import { GoogleAuth } from 'google-auth-library';
 import { checkHealth } from '../ops/health';
+import { ingestJobName, listInboxes } from '../gmail/inboxes';
 
 const app = express();
 app.use(express.json());
@@ -46,13 +47,12 @@ app.post('/run', async (req, res) => {
       return res.status(400).json({ error: 'Missing job field in request body' });
     }
 
-    // Validate job name
+    // Validate job name (one ingest job per registered inbox)
     const validJobs = [
       'ncc-chunks',
       'ncc-embeddings',
       'ncc-smoke',
-      'ncc-ingest-me',
-      'ncc-ingest-other',
+      ...listInboxes().map(ingestJobName),
     ];
     if (!validJobs.includes(job)) {
       return res.status(400).json({ error: `Invalid job: ${job}. Must be one of: ${validJobs.join(', ')}` });
@@ -0,0 +1,93 @@
+/**
+ * Publisher Admin Routes
+ *
+ * POST /admin/publishers/merge   { survivorId, mergedId, actor?, reason? }
+ * POST /admin/publishers/split   { service, siteId, displayName?, actor?, reason? }
+ * POST /admin/publishers/rename  { publisherId, displayName, actor?, reason? }
+ * POST /admin/publishers/revert  { auditId, actor?, reason? }
+ * GET  /admin/publishers/audit?publisherId=&limit=
+ *
+ * Every change is written to publisher_audit and returns its audit row, whose
+ * audit_id can be passed to /revert. Requires X-Admin-Token matching ADMIN_TOKEN.
+ */
+
+import express from 'express';
+import { cfg } from '../lib/config';
+import * as publisherAdmin from '../core/publisher-admin';
+
+const router = express.Router();
+
+router.use((req, res, next) => {
+  if (!cfg.adminToken) {
+    return res.status(503).json({
+      error: 'Unavailable',
+      message: 'Publisher admin is disabled: ADMIN_TOKEN is not configured.',
+    });
+  }
+  if (req.headers['x-admin-token'] !== cfg.adminToken) {
+    return res.status(403).json({
+      error: 'Forbidden',
+      message: 'A valid X-Admin-Token header is required.',
+    });
+  }
+  next();
+});
+
+function contextFrom(body: any): publisherAdmin.AdminContext {
+  return { actor: body.actor || 'api', reason: body.reason || null };
+}
+
+function missing(body: any, fields: string[]): string | null {
+  const absent = fields.filter((f) => typeof body[f] !== 'string' || body[f].trim().length === 0);
+  return absent.length > 0 ? `Missing required field(s): ${absent.join(', ')}` : null;
+}
+
+// Shared handler: validate required fields, run the change, map errors to status codes
+function change(fields: string[], run: (body: any) => Promise<publisherAdmin.PublisherAuditRow>) {
+  return async (req: express.Request, res: express.Response) => {
+    const body = req.body || {};
+    const problem = missing(body, fields);
+    if (problem) {
+      return res.status(400).json({ error: 'Bad Request', message: problem });
+    }
+    try {
+      res.json({ audit: await run(body) });
+    } catch (error: any) {
+      console.error('Publisher admin change failed:', error);
+      // Changes run as one transaction, so any other failure (BigQuery,
+      // network) left nothing applied and is a server error, not a conflict
+      const statusCode = /^(Unknown |No alias )/.test(error.message) ? 404
+        : /^(Cannot |Display name |Audit entry )/.test(error.message) ? 409
+        : 500;
+      res.status(statusCode).json({
+        error: statusCode === 500 ? 'Processing Error' : 'Change Rejected',
+        message: error.message,
+      });
+    }
+  };
+}
+
+router.post('/merge', change(['survivorId', 'mergedId'], (body) =>
+  publisherAdmin.mergePublisher(body.survivorId, body.mergedId, contextFrom(body))));
+
+router.post('/split', change(['service', 'siteId'], (body) =>
+  publisherAdmin.splitAlias(body.service, body.siteId, { ...contextFrom(body), displayName: body.displayName })));
+
+router.post('/rename', change(['publisherId', 'displayName'], (body) =>
+  publisherAdmin.renamePublisher(body.publisherId, body.displayName, contextFrom(body))));
+
+router.post('/revert', change(['auditId'], (body) =>
+  publisherAdmin.revertChange(body.auditId, contextFrom(body))));
+
+router.get('/audit', async (req, res) => {
+  try {
+    const limit = req.query.limit ? parseInt(String(req.query.limit), 10) : undefined;
+    const publisherId = req.query.publisherId ? String(req.query.publisherId) : undefined;
+    res.json({ entries: await publisherAdmin.listAudit({ publisherId, limit }) });
+  } catch (error: any) {
+    console.error('Publisher audit lookup failed:', error);
+    res.status(500).json({ error: 'Processing Error', message: error.message });
+  }
+});
+
+export default router;
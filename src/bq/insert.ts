@@ -0,0 +1,54 @@
+import type { Table } from '@google-cloud/bigquery';
+
+/**
+ * Streaming insert that survives oversized payloads and transient errors.
+ * If the payload is too big (413 / RangeError) the batch is split in half
+ * recursively; 5xx/EOF-style failures are retried with a linear backoff.
+ * Returns the number of rows inserted.
+ */
+export async function insertRowsSafe(
+  table: Table,
+  rows: any[],
+  minBatch = 25,
+  attempt = 1
+): Promise<number> {
+  if (rows.length === 0) return 0;
+
+  try {
+    await table.insert(rows);
+    return rows.length;
+  } catch (err: any) {
+    const msg = String(err?.message || err);
+    const tooBig =
+      msg.includes('Request payload size exceeds') ||
+      msg.includes('request too large') ||
+      msg.includes('413') ||
+      msg.includes('Invalid string length') ||
+      msg.includes('RangeError');
+
+    if (tooBig && rows.length > minBatch) {
+      const mid = Math.floor(rows.length / 2);
+      const left = rows.slice(0, mid);
+      const right = rows.slice(mid);
+      const a = await insertRowsSafe(table, left, minBatch, attempt + 1);
+      const b = await insertRowsSafe(table, right, minBatch, attempt + 1);
+      return a + b;
+    }
+
+    // transient retry (Backoff on 5xx/EOF)
+    const transient =
+      msg.includes('internal') ||
+      msg.includes('EAI_AGAIN') ||
+      msg.includes('500') ||
+      msg.includes('503') ||
+      msg.includes('retry');
+
+    if (transient && attempt <= 3) {
+      const delay = 500 * attempt;
+      await new Promise((r) => setTimeout(r, delay));
+      return insertRowsSafe(table, rows, minBatch, attempt + 1);
+    }
+
+    throw err;
+  }
+}
@@ -1,16 +1,110 @@
 /**
  * Checkpoint module - tracks processing stages and errors
+ *
+ * processing_status is an append-only log: every transition of a message
+ * (ingested → chunked → embedded, or failed) is a new row, and the latest
+ * row per gmail_message_id is its current stage. Appending instead of
+ * updating keeps us clear of the streaming-buffer restriction on DML and
+ * leaves the failure history around for retry backoff.
  */
 
-export function getStage(_: string): string | null {
-  return null;
+import { getBigQuery } from '../bq/client';
+import { cfg } from '../lib/config';
+
+// ===== TYPES =====
+
+export type ProcessingStage = 'ingested' | 'chunked' | 'embedded' | 'failed';
+
+export interface ProcessingStatusRow {
+  gmail_message_id: string;
+  stage: ProcessingStage;
+  error: string | null;
+  updated_at: string;
+}
+
+const STATUS_INSERT_BATCH = 500;
+const MAX_ERROR_LENGTH = 2000;
+
+function statusTable() {
+  return getBigQuery().dataset(cfg.dataset).table('processing_status');
+}
+
+// ===== READ =====
+
+/**
+ * Current (latest) stage of a message, or null if it was never tracked
+ */
+export async function getStage(gmailMessageId: string): Promise<ProcessingStage | null> {
+  const stages = await getStages([gmailMessageId]);
+  return stages.get(gmailMessageId) || null;
+}
+
+/**
+ * Current stage for each of the given messages; untracked ids are absent
+ */
+export async function getStages(gmailMessageIds: string[]): Promise<Map<string, ProcessingStage>> {
+  const stages = new Map<string, ProcessingStage>();
+  if (gmailMessageIds.length === 0) return stages;
+
+  const [rows] = await getBigQuery().query({
+    query: `
+      SELECT gmail_message_id,
+        ARRAY_AGG(stage ORDER BY updated_at DESC LIMIT 1)[OFFSET(0)] AS stage
+      FROM \`${cfg.projectId}.${cfg.dataset}.processing_status\`
+      WHERE gmail_message_id IN UNNEST(@ids)
+      GROUP BY gmail_message_id
+    `,
+    params: { ids: gmailMessageIds },
+    location: cfg.location,
+  });
+  for (const row of rows as Array<{ gmail_message_id: string; stage: ProcessingStage }>) {
+    stages.set(row.gmail_message_id, row.stage);
+  }
+  return stages;
 }
 
-export function setStage(_: string, __: string): void {
-  // No-op placeholder
+// ===== WRITE =====
+
+/**
+ * Record that a message reached a stage
+ */
+export async function setStage(gmailMessageId: string, stage: ProcessingStage): Promise<void> {
+  await setStages([gmailMessageId], stage);
 }
 
-export function setError(_: string, __: string): void {
-  // No-op placeholder
+/**
+ * Record the same stage for many messages at once (one streaming insert per 500 rows)
+ */
+export async function setStages(gmailMessageIds: string[], stage: ProcessingStage): Promise<void> {
+  const now = new Date().toISOString();
+  await appendStatusRows(gmailMessageIds.map((id) => ({
+    gmail_message_id: id,
+    stage,
+    error: null,
+    updated_at: now,
+  })));
+}
+
+/**
+ * Mark a message failed with the error that stopped it
+ */
+export async function setError(gmailMessageId: string, error: string): Promise<void> {
+  await appendStatusRows([{
+    gmail_message_id: gmailMessageId,
+    stage: 'failed',
+    error: error.slice(0, MAX_ERROR_LENGTH),
+    updated_at: new Date().toISOString(),
+  }]);
 }
 
+async function appendStatusRows(rows: ProcessingStatusRow[]): Promise<void> {
+  const table = statusTable();
+  for (let i = 0; i < rows.length; i += STATUS_INSERT_BATCH) {
+    const batch = rows.slice(i, i + STATUS_INSERT_BATCH);
+    try {
+      await table.insert(batch);
+    } catch (err: any) {
+      throw new Error(`BQ insert into processing_status failed (rows ${i}-${i + batch.length}): ${err.message}`);
+    }
+  }
+}
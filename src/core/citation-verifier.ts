@@ -0,0 +1,241 @@
+/**
+ * Citation Verification
+ *
+ * The answer prompt asks for [n] citations, but nothing guarantees a cited
+ * chunk says what the sentence claims, or that [n] exists at all. After
+ * generation the answer is split into claims (sentences and list items),
+ * each claim's [n] markers are resolved to the chunks in the context, and
+ * support is scored two ways:
+ *
+ * - lexical: share of the claim's content words (and all of its numbers)
+ *   found in the cited chunks
+ * - entailment: the LLMProvider grades every cited claim against its
+ *   sources in one call
+ *
+ * Claims below the support threshold are flagged in the result, or removed
+ * from the answer in 'strip' mode.
+ */
+
+import type { SearchResult } from './rag';
+import { LLMProvider, LLMUsage } from '../lib/llm/types';
+
+// ===== TYPES =====
+
+export type VerificationMode = 'off' | 'flag' | 'strip';
+
+export type ClaimSupport = 'supported' | 'partial' | 'unsupported' | 'uncited';
+
+export interface VerifiedClaim {
+  text: string;                     // As written in the answer, markers included
+  citations: number[];              // [n] markers that resolve to a context chunk
+  invalid_citations: number[];      // [n] markers that don't
+  lexical_score: number;            // 0-1
+  entailment_score: number | null;  // 0-1, null when not checked
+  support: ClaimSupport;
+}
+
+export interface CitationVerification {
+  mode: VerificationMode;
+  answer: string;           // Unchanged when flagging; unsupported claims removed when stripping
+  claims: VerifiedClaim[];
+  supported_ratio: number;  // Supported claims / claims with citations (1 when there are none)
+  stripped: number;         // Claims removed from the answer
+  cited_numbers: number[];  // Valid [n] markers left in the final answer
+  usage: LLMUsage | null;
+}
+
+export interface VerifyOptions {
+  mode?: VerificationMode;  // Default: RAG_VERIFY_CITATIONS, else 'flag'
+  entailment?: boolean;     // Default true: ask the provider as well as matching words
+}
+
+// Combined score cut-offs
+const SUPPORTED_THRESHOLD = 0.6;
+const PARTIAL_THRESHOLD = 0.35;
+
+// Weight of the model's judgement when there is one
+const ENTAILMENT_WEIGHT = 0.7;
+
+// Shorter segments (headings, "In short:") are kept but not treated as claims
+const MIN_CLAIM_CHARS = 25;
+
+const CITATION_PATTERN = /\[(\d+(?:\s*[,;]\s*\d+)*)\]/g;
+
+const STOPWORDS = new Set([
+  'about', 'after', 'also', 'among', 'been', 'before', 'being', 'between', 'both', 'could', 'does', 'during',
+  'each', 'from', 'have', 'having', 'into', 'more', 'most', 'much', 'other', 'over', 'said', 'says', 'some',
+  'such', 'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through',
+  'under', 'very', 'were', 'what', 'when', 'where', 'which', 'while', 'will', 'with', 'would', 'your',
+]);
+
+export function getVerificationMode(mode?: string): VerificationMode {
+  const value = (mode || process.env.RAG_VERIFY_CITATIONS || 'flag').toLowerCase();
+  if (value !== 'off' && value !== 'flag' && value !== 'strip') {
+    throw new Error(`Unknown citation verification mode '${value}' (expected off, flag or strip)`);
+  }
+  return value;
+}
+
+// ===== CLAIMS =====
+
+/**
+ * Split an answer into sentences and list items, keeping each one's exact text
+ */
+export function splitClaims(answer: string): string[] {
+  return answer
+    .split(/\n+/)
+    .flatMap(line => line.split(/(?<=[.!?](?:\s*\[[\d,;\s]+\])*)\s+(?=[A-Z"“(*\-])/))
+    .map(segment => segment.trim())
+    .filter(Boolean);
+}
+
+function citationMarkers(claim: string): number[] {
+  const numbers = new Set<number>();
+  for (const match of claim.matchAll(CITATION_PATTERN)) {
+    for (const n of match[1].split(/[,;]/)) numbers.add(parseInt(n.trim(), 10));
+  }
+  return Array.from(numbers);
+}
+
+// ===== LEXICAL SUPPORT =====
+
+function contentTerms(text: string): string[] {
+  return (text.toLowerCase().replace(CITATION_PATTERN, ' ').replace(/[’']s\b/g, '').match(/[\p{L}\p{N}][\p{L}\p{N}.%$]*/gu) || [])
+    .map(term => term.replace(/\.$/, ''))
+    .filter(term => /\d/.test(term) || (term.length > 3 && !STOPWORDS.has(term)));
+}
+
+/**
+ * Share of the claim's content words found in the sources (plural -s and
+ * prefixes of 5+ letters count), forced to 0 if any number in the claim is
+ * missing from them
+ */
+export function lexicalSupport(claim: string, sources: string[]): number {
+  const terms = Array.from(new Set(contentTerms(claim)));
+  if (terms.length === 0) return 1;
+
+  const sourceText = sources.join(' ').toLowerCase();
+  const sourceTerms = new Set(contentTerms(sourceText));
+  const found = (term: string) => sourceTerms.has(term)
+    || (term.length >= 5 && sourceText.includes(term.replace(/s$/, '').slice(0, Math.max(5, term.length - 2))));
+
+  if (terms.some(term => /\d/.test(term) && !sourceText.includes(term))) return 0;
+  return terms.filter(found).length / terms.length;
+}
+
+// ===== ENTAILMENT =====
+
+const ENTAILMENT_PROMPT = `You check whether numbered sources support claims made in an answer.
+For each claim, judge ONLY against the sources listed for it:
+1.0 = the sources state the claim
+0.5 = the sources partly support it, or support it with different specifics
+0.0 = the sources do not support it, or contradict it
+Respond with ONLY a JSON array of numbers, one per claim, in order.`;
+
+async function entailmentScores(
+  claims: Array<{ text: string; citations: number[] }>,
+  chunksByNumber: Map<number, SearchResult>,
+  provider: LLMProvider
+): Promise<{ scores: number[]; usage: LLMUsage }> {
+  const cited = Array.from(new Set(claims.flatMap(c => c.citations))).sort((a, b) => a - b);
+  const sources = cited.map(n => `[${n}] ${chunksByNumber.get(n)!.chunk_text}`).join('\n\n---\n\n');
+  const claimList = claims.map((c, i) =>
+    `Claim ${i + 1} (sources ${c.citations.map(n => `[${n}]`).join(', ')}): ${c.text.replace(CITATION_PATTERN, '').trim()}`
+  ).join('\n');
+
+  const response = await provider.generateAnswer({
+    query: claimList,
+    context: sources,
+    systemPrompt: ENTAILMENT_PROMPT,
+    temperature: 0,
+    maxOutputTokens: 512,
+    responseFormat: 'json',
+  });
+
+  const match = response.content.match(/\[[\s\S]*?\]/);
+  const parsed = match ? JSON.parse(match[0]) : null;
+  if (!Array.isArray(parsed) || parsed.length !== claims.length || parsed.some(s => typeof s !== 'number')) {
+    throw new Error(`Citation verifier returned ${Array.isArray(parsed) ? parsed.length : 'no'} scores for ${claims.length} claims`);
+  }
+  return { scores: parsed.map((s: number) => Math.max(0, Math.min(1, s))), usage: response.usage };
+}
+
+// ===== VERIFY =====
+
+/**
+ * Verify an answer's claims against the chunks its [n] markers point to
+ */
+export async function verifyCitations(
+  answer: string,
+  chunksByNumber: Map<number, SearchResult>,
+  provider: LLMProvider,
+  options: VerifyOptions = {}
+): Promise<CitationVerification> {
+  const mode = options.mode || getVerificationMode();
+
+  const claims = splitClaims(answer)
+    .filter(text => text.replace(CITATION_PATTERN, '').trim().length >= MIN_CLAIM_CHARS)
+    .map(text => {
+      const markers = citationMarkers(text);
+      const citations = markers.filter(n => chunksByNumber.has(n));
+      return {
+        text,
+        citations,
+        invalid_citations: markers.filter(n => !chunksByNumber.has(n)),
+        lexical_score: citations.length > 0
+          ? lexicalSupport(text, citations.map(n => chunksByNumber.get(n)!.chunk_text))
+          : 0,
+      };
+    });
+
+  const cited = claims.filter(c => c.citations.length > 0);
+  let entailment: number[] | null = null;
+  let usage: LLMUsage | null = null;
+  if (options.entailment !== false && cited.length > 0) {
+    try {
+      const result = await entailmentScores(cited, chunksByNumber, provider);
+      entailment = result.scores;
+      usage = result.usage;
+    } catch (error: any) {
+      // Lexical scores alone still catch invented citations and missing numbers
+      console.warn(`Entailment check failed, using lexical support only: ${error.message}`);
+    }
+  }
+
+  const verified: VerifiedClaim[] = claims.map(claim => {
+    if (claim.citations.length === 0) {
+      return { ...claim, entailment_score: null, support: claim.invalid_citations.length > 0 ? 'unsupported' : 'uncited' };
+    }
+    const entailmentScore = entailment ? entailment[cited.indexOf(claim)] : null;
+    const score = entailmentScore === null
+      ? claim.lexical_score
+      : ENTAILMENT_WEIGHT * entailmentScore + (1 - ENTAILMENT_WEIGHT) * claim.lexical_score;
+    const support: ClaimSupport = score >= SUPPORTED_THRESHOLD ? 'supported'
+      : score >= PARTIAL_THRESHOLD ? 'partial'
+      : 'unsupported';
+    return { ...claim, entailment_score: entailmentScore, support };
+  });
+
+  const unsupported = verified.filter(c => c.support === 'unsupported');
+  let finalAnswer = answer;
+  if (mode === 'strip') {
+    for (const claim of unsupported) {
+      finalAnswer = finalAnswer.replace(claim.text, '');
+    }
+    finalAnswer = finalAnswer.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').replace(/ {2,}/g, ' ').trim();
+  }
+
+  const withCitations = verified.filter(c => c.citations.length > 0 || c.invalid_citations.length > 0);
+
+  return {
+    mode,
+    answer: finalAnswer,
+    claims: verified,
+    supported_ratio: withCitations.length > 0
+      ? withCitations.filter(c => c.support === 'supported').length / withCitations.length
+      : 1,
+    stripped: mode === 'strip' ? unsupported.length : 0,
+    cited_numbers: citationMarkers(finalAnswer).filter(n => chunksByNumber.has(n)).sort((a, b) => a - b),
+    usage,
+  };
+}
@@ -0,0 +1,268 @@
+/**
+ * Conversation module - session memory for follow-up questions
+ *
+ * A query can carry a conversation id. Each answered query is appended to
+ * conversation_turns as one row (question, the standalone query retrieval
+ * actually ran, answer, citations), and the next query in the conversation
+ * is rewritten against those turns before retrieval, so "and what did they
+ * say about Japan?" searches for what it means rather than what it says.
+ *
+ * Citation numbers are per conversation: a chunk cited as [2] in the first
+ * turn is [2] whenever it is cited again, and chunks new to the conversation
+ * continue from the highest number so far.
+ */
+
+import { getBigQuery } from '../bq/client';
+import { cfg } from '../lib/config';
+import { LLMProvider, LLMTurn, LLMUsage } from '../lib/llm/types';
+
+// ===== TYPES =====
+
+export interface TurnCitation {
+  chunk_id: string;
+  citation_index: number;
+  citation: string;  // Label shown for the source, e.g. "Publisher · Date · Subject"
+}
+
+export interface ConversationTurn {
+  conversation_id: string;
+  turn_index: number;        // 0 for the first question
+  query: string;             // As asked
+  standalone_query: string;  // As rewritten for retrieval (same as query on the first turn)
+  answer: string;
+  citations: TurnCitation[];
+  created_at: string;
+}
+
+/**
+ * Storage for conversation turns; BigQuery by default, in-memory with
+ * CONVERSATION_STORE=memory (local development, lost on restart)
+ */
+export interface ConversationStore {
+  loadTurns(conversationId: string): Promise<ConversationTurn[]>;
+  appendTurn(turn: ConversationTurn): Promise<void>;
+}
+
+/**
+ * Where a query stands in its conversation, from openTurn
+ */
+export interface ConversationState {
+  conversationId: string;
+  turnIndex: number;
+  turns: ConversationTurn[];  // Earlier turns, oldest first
+  standaloneQuery: string;
+  history: LLMTurn[];         // Recent turns for the answer prompt
+  usage: LLMUsage | null;     // Cost of the rewrite, if there was one
+}
+
+// Turns replayed to the model: enough to resolve references, bounded prompt size
+const MAX_HISTORY_TURNS = 6;
+
+const MAX_CONVERSATION_ID_LENGTH = 128;
+
+// ===== CONVERSATION IDS =====
+
+/**
+ * Error message for a client-supplied conversation id, or null if it is usable
+ */
+export function validateConversationId(id: unknown): string | null {
+  if (typeof id !== 'string' || !/^[A-Za-z0-9_-]+$/.test(id)) {
+    return 'conversationId must be a string of letters, digits, "-" and "_"';
+  }
+  if (id.length > MAX_CONVERSATION_ID_LENGTH) {
+    return `conversationId must be at most ${MAX_CONVERSATION_ID_LENGTH} characters`;
+  }
+  return null;
+}
+
+// ===== FOLLOW-UP REWRITING =====
+
+const REWRITE_PROMPT = `You turn follow-up questions into standalone search queries for a newsletter archive.
+The conversation so far is above. Rewrite the user's latest question so it can be understood
+without the conversation: replace pronouns and references ("they", "that deal", "the second point")
+with the people, companies, topics and time periods they refer to.
+If the question is already standalone, return it unchanged.
+Return ONLY the rewritten question, with no quotes or explanation.`;
+
+/**
+ * History for the model: each earlier question and its answer, most recent last
+ */
+export function historyFor(turns: ConversationTurn[]): LLMTurn[] {
+  return turns.slice(-MAX_HISTORY_TURNS).flatMap((turn): LLMTurn[] => [
+    { role: 'user', content: turn.query },
+    { role: 'assistant', content: turn.answer },
+  ]);
+}
+
+/**
+ * Rewrite a follow-up into a standalone query; the first question of a
+ * conversation is returned as-is without a model call
+ */
+export async function rewriteFollowUp(
+  query: string,
+  turns: ConversationTurn[],
+  provider: LLMProvider
+): Promise<{ query: string; usage: LLMUsage | null }> {
+  if (turns.length === 0) {
+    return { query, usage: null };
+  }
+
+  const response = await provider.generateAnswer({
+    query,
+    context: 'None. Use the conversation above.',
+    systemPrompt: REWRITE_PROMPT,
+    history: historyFor(turns),
+    temperature: 0,
+    maxOutputTokens: 256,
+    answerInstructions: false,
+  });
+
+  // An empty or runaway rewrite is worse than searching the question as asked
+  const rewritten = response.content.trim().replace(/^["']|["']$/g, '');
+  const usable = rewritten.length > 0 && rewritten.length <= query.length * 4 + 200;
+  return { query: usable ? rewritten : query, usage: response.usage };
+}
+
+// ===== CITATION NUMBERING =====
+
+/**
+ * Citation number for each chunk: numbers already given earlier in the
+ * conversation, then the next free numbers for new chunks in the order given
+ */
+export function citationNumbers(turns: ConversationTurn[], chunkIds: string[]): Map<string, number> {
+  const numbers = new Map<string, number>();
+  for (const turn of turns) {
+    for (const citation of turn.citations) {
+      numbers.set(citation.chunk_id, citation.citation_index);
+    }
+  }
+
+  let next = Math.max(0, ...Array.from(numbers.values())) + 1;
+  const result = new Map<string, number>();
+  for (const id of chunkIds) {
+    if (!numbers.has(id)) numbers.set(id, next++);
+    result.set(id, numbers.get(id)!);
+  }
+  return result;
+}
+
+// ===== TURNS =====
+
+/**
+ * Load a conversation's turns and rewrite the query against them
+ */
+export async function openTurn(
+  conversationId: string,
+  query: string,
+  provider: LLMProvider,
+  store: ConversationStore = getConversationStore()
+): Promise<ConversationState> {
+  const turns = await store.loadTurns(conversationId);
+  const rewrite = await rewriteFollowUp(query, turns, provider);
+  return {
+    conversationId,
+    turnIndex: turns.length,
+    turns,
+    standaloneQuery: rewrite.query,
+    history: historyFor(turns),
+    usage: rewrite.usage,
+  };
+}
+
+/**
+ * Record an answered query as the conversation's next turn
+ */
+export async function recordTurn(
+  state: ConversationState,
+  query: string,
+  answer: string,
+  citations: TurnCitation[],
+  store: ConversationStore = getConversationStore()
+): Promise<ConversationTurn> {
+  const turn: ConversationTurn = {
+    conversation_id: state.conversationId,
+    turn_index: state.turnIndex,
+    query,
+    standalone_query: state.standaloneQuery,
+    answer,
+    citations,
+    created_at: new Date().toISOString(),
+  };
+  await store.appendTurn(turn);
+  return turn;
+}
+
+// ===== ADAPTERS =====
+
+/**
+ * conversation_turns is append-only (streaming inserts); citations are
+ * stored as a JSON string
+ */
+export function createBigQueryConversationStore(
+  projectId = cfg.projectId || getBigQuery().projectId,
+  dataset = cfg.dataset,
+  location = cfg.location
+): ConversationStore {
+  const bq = getBigQuery();
+
+  return {
+    async loadTurns(conversationId) {
+      const [rows] = await bq.query({
+        query: `
+          SELECT conversation_id, turn_index, query, standalone_query, answer, citations,
+            CAST(created_at AS STRING) AS created_at
+          FROM \`${projectId}.${dataset}.conversation_turns\`
+          WHERE conversation_id = @conversationId
+          ORDER BY turn_index
+        `,
+        params: { conversationId },
+        location,
+      }).catch((err: any) => {
+        if (String(err?.message).includes('Not found')) return [[]];  // Dataset predates the table
+        throw err;
+      });
+      return (rows as any[]).map(row => ({ ...row, citations: JSON.parse(row.citations || '[]') }));
+    },
+
+    async appendTurn(turn) {
+      try {
+        await bq.dataset(dataset).table('conversation_turns').insert([{
+          ...turn,
+          citations: JSON.stringify(turn.citations),
+        }]);
+      } catch (err: any) {
+        throw new Error(`BQ insert into conversation_turns failed: ${err.message}`);
+      }
+    },
+  };
+}
+
+export function createMemoryConversationStore(): ConversationStore {
+  const conversations = new Map<string, ConversationTurn[]>();
+
+  return {
+    async loadTurns(conversationId) {
+      return [...(conversations.get(conversationId) || [])];
+    },
+
+    async appendTurn(turn) {
+      conversations.set(turn.conversation_id, [...(conversations.get(turn.conversation_id) || []), turn]);
+    },
+  };
+}
+
+let defaultStore: ConversationStore | null = null;
+
+/**
+ * Store selected by CONVERSATION_STORE (bigquery, the default, or memory)
+ */
+export function getConversationStore(): ConversationStore {
+  if (!defaultStore) {
+    const kind = (process.env.CONVERSATION_STORE || 'bigquery').toLowerCase();
+    if (kind !== 'bigquery' && kind !== 'memory') {
+      throw new Error(`Unknown CONVERSATION_STORE '${kind}' (expected bigquery or memory)`);
+    }
+    defaultStore = kind === 'memory' ? createMemoryConversationStore() : createBigQueryConversationStore();
+  }
+  return defaultStore;
+}
@@ -0,0 +1,209 @@
+/**
+ * Result Diversification
+ *
+ * Vector search ranks chunks, not sources, so its top results are often
+ * the same email several times over (adjacent chunks share a 100-char
+ * overlap) or the same syndicated story from several senders. Before
+ * Stage 2 the candidates go through:
+ *
+ * 1. Collapse: adjacent chunks of one email become a single passage
+ * 2. Dedup: near-identical passages (word shingle overlap) from different
+ *    emails keep only the best-scoring copy
+ * 3. MMR: passages are picked one at a time by relevance minus redundancy
+ *    with what's already picked (shared vocabulary, same email, same publisher)
+ */
+
+import type { SearchResult } from './rag';
+
+// ===== TYPES =====
+
+export interface DiversifyOptions {
+  limit?: number;   // Passages to keep (default: all, reordered)
+  lambda?: number;  // MMR trade-off: 1 = relevance only, 0 = diversity only
+}
+
+export interface DiversificationStats {
+  candidates: number;  // Chunks in
+  collapsed: number;   // Chunks merged into an adjacent chunk's passage
+  duplicates: number;  // Passages dropped as near-duplicates
+  selected: number;    // Passages out
+}
+
+// Search this many times the final limit, so there is room to diversify
+export const CANDIDATE_MULTIPLIER = 2;
+
+const MMR_LAMBDA = parseFloat(process.env.RAG_MMR_LAMBDA || '0.7');
+const SHINGLE_SIZE = 5;
+const DUPLICATE_JACCARD = 0.6;       // Shingle overlap at which two passages are the same story
+const SAME_EMAIL_REDUNDANCY = 0.5;   // Non-adjacent chunks of one email
+const SAME_PUBLISHER_REDUNDANCY = 0.3;
+const MAX_OVERLAP_CHARS = 300;       // Longest chunk overlap to look for when joining text
+
+// ===== TEXT SIMILARITY =====
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+function shingles(text: string): Set<string> {
+  const tokens = words(text);
+  const result = new Set<string>();
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    result.add(tokens.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return result;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const item of a) if (b.has(item)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+function score(result: SearchResult): number {
+  return result.combined_score ?? result.similarity;
+}
+
+// ===== COLLAPSE =====
+
+/**
+ * Join two consecutive chunks, dropping the text they share at the seam
+ */
+function joinChunks(first: string, second: string): string {
+  const max = Math.min(MAX_OVERLAP_CHARS, first.length, second.length);
+  for (let size = max; size > 0; size--) {
+    if (first.endsWith(second.slice(0, size))) {
+      return first + second.slice(size);
+    }
+  }
+  return `${first}\n${second}`;
+}
+
+/**
+ * Merge runs of adjacent chunks (chunk_index n, n+1, ...) of the same email
+ * into one passage, scored as its best chunk and identified by that chunk
+ */
+export function collapseAdjacentChunks(results: SearchResult[]): SearchResult[] {
+  const byMessage = new Map<string, SearchResult[]>();
+  for (const result of results) {
+    byMessage.set(result.gmail_message_id, [...(byMessage.get(result.gmail_message_id) || []), result]);
+  }
+
+  const passages: SearchResult[] = [];
+  for (const chunks of byMessage.values()) {
+    const sorted = [...chunks].sort((a, b) => (a.chunk_index ?? 0) - (b.chunk_index ?? 0));
+    let run: SearchResult[] = [];
+    const flush = () => {
+      if (run.length === 0) return;
+      const best = run.reduce((a, b) => (score(b) > score(a) ? b : a));
+      passages.push(run.length === 1 ? run[0] : {
+        ...best,
+        chunk_text: run.map(c => c.chunk_text).reduce(joinChunks),
+        merged_chunk_ids: run.map(c => c.chunk_id).filter(id => id !== best.chunk_id),
+      });
+      run = [];
+    };
+    for (const chunk of sorted) {
+      const previous = run[run.length - 1];
+      const adjacent = previous && chunk.chunk_index !== undefined && previous.chunk_index !== undefined
+        && chunk.chunk_index === previous.chunk_index + 1;
+      if (!adjacent) flush();
+      run.push(chunk);
+    }
+    flush();
+  }
+
+  return passages.sort((a, b) => score(b) - score(a));
+}
+
+// ===== NEAR-DUPLICATES =====
+
+/**
+ * Drop passages that repeat a better-scoring passage from another email
+ * (syndicated stories, forwards, re-sends)
+ */
+export function removeNearDuplicates(passages: SearchResult[]): SearchResult[] {
+  const sorted = [...passages].sort((a, b) => score(b) - score(a));
+  const kept: Array<{ passage: SearchResult; shingles: Set<string> }> = [];
+
+  for (const passage of sorted) {
+    const own = shingles(passage.chunk_text);
+    const original = kept.find(k =>
+      k.passage.gmail_message_id !== passage.gmail_message_id && jaccard(k.shingles, own) >= DUPLICATE_JACCARD
+    );
+    if (original) {
+      original.passage.duplicate_chunk_ids = [...(original.passage.duplicate_chunk_ids || []), passage.chunk_id];
+    } else {
+      kept.push({ passage: { ...passage }, shingles: own });
+    }
+  }
+
+  return kept.map(k => k.passage);
+}
+
+// ===== MMR =====
+
+function redundancy(a: SearchResult, b: SearchResult, wordsA: Set<string>, wordsB: Set<string>): number {
+  const structural = a.gmail_message_id === b.gmail_message_id ? SAME_EMAIL_REDUNDANCY
+    : a.publisher_name && a.publisher_name === b.publisher_name ? SAME_PUBLISHER_REDUNDANCY
+    : 0;
+  return Math.max(structural, jaccard(wordsA, wordsB));
+}
+
+/**
+ * Maximal Marginal Relevance: repeatedly take the passage maximizing
+ * lambda * score - (1 - lambda) * (redundancy with the passages taken so far)
+ */
+export function selectMMR(passages: SearchResult[], limit = passages.length, lambda = MMR_LAMBDA): SearchResult[] {
+  const pool = passages.map(p => ({ passage: p, words: new Set(words(p.chunk_text)) }));
+  const selected: typeof pool = [];
+
+  while (selected.length < limit && pool.length > 0) {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+    pool.forEach((candidate, i) => {
+      const maxRedundancy = selected.reduce(
+        (max, s) => Math.max(max, redundancy(candidate.passage, s.passage, candidate.words, s.words)), 0);
+      const value = lambda * score(candidate.passage) - (1 - lambda) * maxRedundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = i;
+      }
+    });
+    selected.push(pool.splice(bestIndex, 1)[0]);
+  }
+
+  return selected.map(s => s.passage);
+}
+
+// ===== PIPELINE =====
+
+/**
+ * Collapse, dedup, then MMR-select up to options.limit passages
+ */
+export function diversifyResults(
+  results: SearchResult[],
+  options: DiversifyOptions = {}
+): { results: SearchResult[]; stats: DiversificationStats } {
+  const passages = collapseAdjacentChunks(results);
+  const unique = removeNearDuplicates(passages);
+  const selected = selectMMR(unique, options.limit ?? unique.length, options.lambda);
+
+  return {
+    results: selected,
+    stats: {
+      candidates: results.length,
+      collapsed: results.length - passages.length,
+      duplicates: passages.length - unique.length,
+      selected: selected.length,
+    },
+  };
+}
+
+/**
+ * Number of distinct emails behind a set of passages
+ */
+export function countSources(results: SearchResult[]): number {
+  return new Set(results.map(r => r.gmail_message_id)).size;
+}
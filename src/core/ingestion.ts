@@ -1,8 +1,1039 @@
 /**
  * Ingestion module - fetches new newsletters from Gmail
+ *
+ * Lists candidate messages for an inbox, skips the ones already in
+ * raw_emails, parses the rest and inserts them into raw_emails/email_labels,
+ * then applies the processed label in Gmail. Gmail and BigQuery are reached
+ * through the IngestGmailClient / IngestStore interfaces so the same code runs
+ * from the CLI, the Cloud Run job and tests.
  */
 
-export async function ingestNewNewsletters(inboxOrAll: 'all' | string): Promise<void> {
-  throw new Error('ingestNewNewsletters not implemented yet');
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { gmail_v1 } from 'googleapis';
+import { getBigQuery } from '../bq/client';
+import { getGmail } from '../gmail/client';
+import { getInbox, listInboxKeys } from '../gmail/inboxes';
+import { extractEmailAddress, extractFromName } from '../lib/gmail';
+import { extractHtml, extractPlaintext, getHeader, parseHeaderDate } from '../lib/parseMessage';
+import { cfg } from '../lib/config';
+import { setStages } from './checkpoint';
+
+// ===== TYPES =====
+
+export type InboxKey = string;  // Registered in config/inboxes.json
+
+/**
+ * How candidate messages are found:
+ * - query:   list GMAIL_QUERY (relies on labels/unread state as the cursor)
+ * - history: users.history.list from ingest_state.last_history_id, falling
+ *            back to a query scan when there is no watermark or it expired.
+ *            New messages are then narrowed by the query's stable terms
+ *            (sender, list, category...), not its read/label state: history
+ *            is the cursor there, and a newsletter read before ingestion
+ *            must still be taken.
+ */
+export type SyncMode = 'query' | 'history';
+
+export interface IngestOptions {
+  inbox: InboxKey;
+  query: string;
+  processedLabel: string;
+  paidLabel: string;
+  markRead: boolean;
+  readonly: boolean;  // Never modify Gmail (labels / unread state)
+  dryRun: boolean;    // Preview only: no BigQuery writes, no Gmail modifications
+  limit: number;
+  mode: SyncMode;
+  since?: Date;       // Inclusive lower bound on received date (Gmail after:)
+  until?: Date;       // Exclusive upper bound on received date (Gmail before:)
+}
+
+export interface RawEmailRow {
+  gmail_message_id: string;
+  inbox: string;
+  history_id: string | null;
+  message_id_header: string | null;
+  subject: string | null;
+  from_email: string | null;
+  from_name: string | null;
+  reply_to: string | null;
+  list_id: string | null;
+  sent_date: string | null;
+  body_html: string | null;
+  body_text: string | null;
+  snippet: string | null;
+  content_hash: string;
+  is_paid: boolean;
+  ingested_at: string;
+}
+
+export interface EmailLabelRow {
+  gmail_message_id: string;
+  label_id: string;
+  label_name: string;
+}
+
+export interface IngestSample {
+  date: string;
+  from: string;
+  subject: string;
+  labelNames: string[];
+}
+
+export interface IngestReport {
+  inbox: InboxKey;
+  dryRun: boolean;
+  readonly: boolean;
+  source: 'query' | 'history' | 'history-fallback';
+  watermark: {
+    previous: string | null;
+    next: string | null;         // null = left unchanged
+  };
+  fetched: number;
+  outsideQuery: number;          // History candidates the query's stable terms don't match (skipped)
+  existingSkipped: number;
+  insertedRaw: number;
+  insertedLabels: number;
+  nullSentDate: number;
+  failed: Array<{ gmail_message_id: string; error: string }>;
+  labeled: number;
+  alreadyLabeled: number;
+  markedRead: number;
+  labelError: string | null;     // Labeling is best-effort; the next run retries it
+  samples: IngestSample[];       // Dry run only
+  paidPreviewMatches: number;    // Dry run only
+}
+
+/**
+ * The subset of the Gmail API used by ingestion.
+ * Use gmailIngestClient() to wrap a googleapis client.
+ */
+export interface IngestGmailClient {
+  listLabels(): Promise<gmail_v1.Schema$Label[]>;
+  createLabel(name: string): Promise<gmail_v1.Schema$Label>;
+  listMessages(params: { q: string; maxResults: number; pageToken?: string }): Promise<gmail_v1.Schema$ListMessagesResponse>;
+  getMessage(id: string, format: 'full' | 'metadata', metadataHeaders?: string[]): Promise<gmail_v1.Schema$Message>;
+  batchModify(ids: string[], addLabelIds: string[], removeLabelIds?: string[]): Promise<void>;
+  getProfile(): Promise<gmail_v1.Schema$Profile>;
+  listHistory(params: { startHistoryId: string; pageToken?: string }): Promise<gmail_v1.Schema$ListHistoryResponse>;
+}
+
+/**
+ * The subset of BigQuery used by ingestion.
+ * Use createBigQueryIngestStore() for the production tables.
+ */
+export interface IngestStore {
+  findExistingMessageIds(ids: string[]): Promise<Set<string>>;
+  insertRawEmails(rows: RawEmailRow[]): Promise<void>;
+  findExistingLabelPairs(ids: string[]): Promise<Set<string>>;  // "gmail_message_id:label_name"
+  insertEmailLabels(rows: EmailLabelRow[]): Promise<void>;
+  getWatermark(inbox: string): Promise<string | null>;
+  setWatermark(inbox: string, historyId: string): Promise<void>;
+}
+
+// ===== ADAPTERS =====
+
+const RAW_EMAILS_INSERT_BATCH = 50;  // Small batches avoid 413s on large HTML bodies
+
+function authAwareError(prefix: string, error: any): Error {
+  const errorMsg = error?.message || JSON.stringify(error);
+  if (errorMsg.includes('invalid_rapt') || errorMsg.includes('invalid_grant')) {
+    return new Error('Auth requires re-consent. Re-run with --reauth (and ensure Desktop credentials).');
+  }
+  return new Error(`${prefix} failed: ${error?.message || 'unknown error'}`);
 }
 
+export function gmailIngestClient(gmail: gmail_v1.Gmail): IngestGmailClient {
+  return {
+    async listLabels() {
+      const res = await gmail.users.labels.list({ userId: 'me' });
+      return res.data.labels || [];
+    },
+    async createLabel(name) {
+      const res = await gmail.users.labels.create({ userId: 'me', requestBody: { name } });
+      return res.data;
+    },
+    async listMessages({ q, maxResults, pageToken }) {
+      const res = await gmail.users.messages.list({ userId: 'me', q, maxResults, pageToken });
+      return res.data;
+    },
+    async getMessage(id, format, metadataHeaders) {
+      const res = await gmail.users.messages.get({ userId: 'me', id, format, metadataHeaders });
+      return res.data;
+    },
+    async batchModify(ids, addLabelIds, removeLabelIds) {
+      await gmail.users.messages.batchModify({
+        userId: 'me',
+        requestBody: { ids, addLabelIds, removeLabelIds },
+      });
+    },
+    async getProfile() {
+      const res = await gmail.users.getProfile({ userId: 'me' });
+      return res.data;
+    },
+    async listHistory({ startHistoryId, pageToken }) {
+      const res = await gmail.users.history.list({
+        userId: 'me',
+        startHistoryId,
+        pageToken,
+        historyTypes: ['messageAdded'],
+        maxResults: 500,
+      });
+      return res.data;
+    },
+  };
+}
+
+export function createBigQueryIngestStore(
+  projectId: string = cfg.projectId,
+  dataset: string = cfg.dataset,
+  location: string = cfg.location
+): IngestStore {
+  const bq = getBigQuery();
+  const table = (name: string) => bq.dataset(dataset, { location }).table(name);
+
+  return {
+    async findExistingMessageIds(ids) {
+      if (ids.length === 0) return new Set();
+      const [rows] = await bq.query({
+        query: `
+          SELECT gmail_message_id
+          FROM \`${projectId}.${dataset}.raw_emails\`
+          WHERE gmail_message_id IN UNNEST(@ids)
+        `,
+        params: { ids },
+        location,
+      });
+      return new Set(rows.map((row: any) => row.gmail_message_id));
+    },
+
+    async insertRawEmails(rows) {
+      for (let i = 0; i < rows.length; i += RAW_EMAILS_INSERT_BATCH) {
+        const batch = rows.slice(i, i + RAW_EMAILS_INSERT_BATCH);
+        try {
+          await table('raw_emails').insert(batch);
+        } catch (err: any) {
+          // Throwing keeps us from labeling messages that never made it into BigQuery
+          throw new Error(`BQ insert into raw_emails failed (rows ${i}-${i + batch.length}): ${err.message}`);
+        }
+        try {
+          await setStages(batch.map((r) => r.gmail_message_id), 'ingested');
+        } catch (err: any) {
+          // Not fatal: the processor also picks up untracked messages that have no chunks
+          console.warn(`processing_status not updated for ${batch.length} messages: ${err.message}`);
+        }
+      }
+    },
+
+    async findExistingLabelPairs(ids) {
+      if (ids.length === 0) return new Set();
+      const [rows] = await bq.query({
+        query: `
+          SELECT gmail_message_id, label_name
+          FROM \`${projectId}.${dataset}.email_labels\`
+          WHERE gmail_message_id IN UNNEST(@ids)
+        `,
+        params: { ids },
+        location,
+      });
+      return new Set(
+        (rows as Array<{ gmail_message_id: string; label_name: string }>)
+          .map(row => `${row.gmail_message_id}:${row.label_name}`)
+      );
+    },
+
+    async insertEmailLabels(rows) {
+      if (rows.length === 0) return;
+      await table('email_labels').insert(rows);
+    },
+
+    async getWatermark(inbox) {
+      const [rows] = await bq.query({
+        query: `
+          SELECT last_history_id
+          FROM \`${projectId}.${dataset}.ingest_state\`
+          WHERE inbox = @inbox AND last_history_id IS NOT NULL
+          ORDER BY last_success_at DESC
+          LIMIT 1
+        `,
+        params: { inbox },
+        location,
+      });
+      return rows.length > 0 ? rows[0].last_history_id : null;
+    },
+
+    async setWatermark(inbox, historyId) {
+      // DML rather than streaming insert so the row can be updated on the next run
+      await bq.query({
+        query: `
+          MERGE \`${projectId}.${dataset}.ingest_state\` t
+          USING (SELECT @inbox AS inbox, @historyId AS last_history_id) s
+          ON t.inbox = s.inbox
+          WHEN MATCHED THEN
+            UPDATE SET last_history_id = s.last_history_id, last_success_at = CURRENT_TIMESTAMP()
+          WHEN NOT MATCHED THEN
+            INSERT (inbox, last_history_id, last_success_at)
+            VALUES (s.inbox, s.last_history_id, CURRENT_TIMESTAMP())
+        `,
+        params: { inbox, historyId },
+        location,
+      });
+    },
+  };
+}
+
+// ===== PARSING =====
+
+/**
+ * Convert a full Gmail message into a raw_emails row plus its email_labels rows
+ */
+export function buildEmailRows(
+  msg: gmail_v1.Schema$Message,
+  inbox: string,
+  labelNamesById: Map<string, string>,
+  paidLabel: string,
+  ingestedAt: string = new Date().toISOString()
+): { raw: RawEmailRow; labels: EmailLabelRow[] } {
+  const fromHeader = getHeader(msg, 'From');
+  const fromEmail = extractEmailAddress(fromHeader);
+  const fromName = extractFromName(fromHeader);
+
+  // Prefer the Date header, fall back to Gmail's internalDate
+  const headerDate = parseHeaderDate(getHeader(msg, 'Date'));
+  const internalMs = Number(msg.internalDate);
+  const sentDateObj = headerDate ?? (Number.isFinite(internalMs) ? new Date(internalMs) : null);
+
+  const bodyText = extractPlaintext(msg);
+  const bodyHtml = extractHtml(msg);
+  const contentHash = createHash('sha256').update(bodyText || bodyHtml || '').digest('hex');
+
+  const labelIds = msg.labelIds || [];
+  const labels: EmailLabelRow[] = [];
+  for (const labelId of labelIds) {
+    const labelName = labelNamesById.get(labelId);
+    if (labelName) {
+      labels.push({ gmail_message_id: msg.id!, label_id: labelId, label_name: labelName });
+    }
+  }
+
+  return {
+    raw: {
+      gmail_message_id: msg.id!,
+      inbox,
+      history_id: msg.historyId?.toString() || null,
+      message_id_header: getHeader(msg, 'Message-ID') || null,
+      subject: getHeader(msg, 'Subject') || null,
+      from_email: fromEmail || null,
+      from_name: fromName || null,
+      reply_to: getHeader(msg, 'Reply-To') || null,
+      list_id: getHeader(msg, 'List-Id') || null,
+      sent_date: sentDateObj ? sentDateObj.toISOString() : null,
+      body_html: bodyHtml,
+      body_text: bodyText || null,
+      snippet: msg.snippet || null,
+      content_hash: contentHash,
+      is_paid: labels.some(l => l.label_name === paidLabel),
+      ingested_at: ingestedAt,
+    },
+    labels,
+  };
+}
+
+// ===== INGESTION =====
+
+interface LabelMaps {
+  namesById: Map<string, string>;  // For parsing
+  idsByName: Map<string, string>;  // For applying
+}
+
+async function loadLabelMaps(gmail: IngestGmailClient): Promise<LabelMaps> {
+  let labels: gmail_v1.Schema$Label[];
+  try {
+    labels = await gmail.listLabels();
+  } catch (error: any) {
+    throw authAwareError('Gmail labels.list', error);
+  }
+  const maps: LabelMaps = { namesById: new Map(), idsByName: new Map() };
+  for (const label of labels) {
+    if (label.id && label.name) {
+      maps.namesById.set(label.id, label.name);
+      maps.idsByName.set(label.name, label.id);
+    }
+  }
+  return maps;
+}
+
+function emptyReport(options: IngestOptions): IngestReport {
+  return {
+    inbox: options.inbox,
+    dryRun: options.dryRun,
+    readonly: options.readonly,
+    source: options.mode === 'history' ? 'history' : 'query',
+    watermark: { previous: null, next: null },
+    fetched: 0,
+    outsideQuery: 0,
+    existingSkipped: 0,
+    insertedRaw: 0,
+    insertedLabels: 0,
+    nullSentDate: 0,
+    failed: [],
+    labeled: 0,
+    alreadyLabeled: 0,
+    markedRead: 0,
+    labelError: null,
+    samples: [],
+    paidPreviewMatches: 0,
+  };
+}
+
+/**
+ * Ingest one inbox.
+ *
+ * Steps:
+ * 1. List candidate messages (up to limit) by query, or by Gmail history since the watermark
+ * 2. Skip messages already in raw_emails (idempotency)
+ * 3. Fetch, parse and insert the rest into raw_emails + email_labels
+ * 4. Apply the processed label (and optionally mark read) on every listed message
+ *
+ * Per-message fetch/parse failures are collected in report.failed; BigQuery
+ * insert failures throw so no message is labeled without being stored.
+ * In history mode the watermark only advances once the inserts commit, and
+ * never past a message that failed to fetch.
+ */
+export async function ingestInbox(
+  gmail: IngestGmailClient,
+  store: IngestStore,
+  options: IngestOptions
+): Promise<IngestReport> {
+  const report = emptyReport(options);
+  const labels = await loadLabelMaps(gmail);
+
+  let candidates: CandidateList;
+  if (options.mode === 'history') {
+    report.watermark.previous = await store.getWatermark(options.inbox);
+    const fromHistory = report.watermark.previous
+      ? await listByHistory(gmail, report.watermark.previous, options.limit)
+      : null;
+    report.source = fromHistory ? 'history' : 'history-fallback';
+    candidates = fromHistory
+      ? await keepQueryMatches(gmail, fromHistory, options.query, report)
+      : await listByQuery(gmail, options, true);
+  } else {
+    candidates = await listByQuery(gmail, options, false);
+  }
+  const messageIds = candidates.messageIds;
+  report.fetched = messageIds.length;
+
+  if (messageIds.length === 0) {
+    if (!options.dryRun && candidates.watermark) {
+      await store.setWatermark(options.inbox, candidates.watermark);
+      report.watermark.next = candidates.watermark;
+    }
+    return report;
+  }
+
+  if (options.dryRun) {
+    report.existingSkipped = (await findExisting(store, messageIds)).size;
+    await collectSamples(gmail, messageIds.slice(0, 10), labels, options, report);
+    return report;
+  }
+
+  await ingestMessageIds(gmail, store, messageIds, labels, options, report);
+
+  // Inserts have committed; it is now safe to move the watermark past these messages
+  const watermark = watermarkAfterFailures(candidates, report.failed);
+  if (watermark) {
+    await store.setWatermark(options.inbox, watermark);
+    report.watermark.next = watermark;
+  }
+
+  if (!options.readonly) {
+    // Label every listed message (not just new ones): the query returning
+    // an already-stored message means it is still missing the label.
+    await applyProcessedLabel(gmail, messageIds, labels, options, report);
+  }
+
+  return report;
+}
+
+async function findExisting(store: IngestStore, messageIds: string[]): Promise<Set<string>> {
+  try {
+    return await store.findExistingMessageIds(messageIds);
+  } catch (error: any) {
+    throw new Error(`BQ idempotency query failed: ${error.message || 'unknown error'}`);
+  }
+}
+
+async function collectSamples(
+  gmail: IngestGmailClient,
+  messageIds: string[],
+  labels: LabelMaps,
+  options: IngestOptions,
+  report: IngestReport
+): Promise<void> {
+  for (const msgId of messageIds) {
+    let msg: gmail_v1.Schema$Message;
+    try {
+      msg = await gmail.getMessage(msgId, 'metadata', ['Subject', 'From', 'To', 'Date']);
+    } catch (error: any) {
+      throw authAwareError('Gmail messages.get', error);
+    }
+    report.samples.push({
+      date: getHeader(msg, 'Date'),
+      from: getHeader(msg, 'From'),
+      subject: getHeader(msg, 'Subject'),
+      labelNames: (msg.labelIds || [])
+        .map(id => labels.namesById.get(id))
+        .filter((name): name is string => !!name),
+    });
+  }
+  report.paidPreviewMatches = report.samples.filter(s => s.labelNames.includes(options.paidLabel)).length;
+}
+
+/**
+ * Idempotency check, fetch, parse and insert for one batch of message ids.
+ * Adds to the report's counters so it can be called once per page.
+ */
+async function ingestMessageIds(
+  gmail: IngestGmailClient,
+  store: IngestStore,
+  messageIds: string[],
+  labels: LabelMaps,
+  options: IngestOptions,
+  report: IngestReport
+): Promise<void> {
+  const existingIds = await findExisting(store, messageIds);
+  report.existingSkipped += existingIds.size;
+  const newIds = messageIds.filter(id => !existingIds.has(id));
+
+  const rawRows: RawEmailRow[] = [];
+  const labelRows: EmailLabelRow[] = [];
+  for (const msgId of newIds) {
+    try {
+      const msg = await gmail.getMessage(msgId, 'full');
+      if (!msg || !msg.id) continue;
+      const { raw, labels: msgLabels } = buildEmailRows(msg, options.inbox, labels.namesById, options.paidLabel);
+      rawRows.push(raw);
+      labelRows.push(...msgLabels);
+    } catch (error: any) {
+      report.failed.push({ gmail_message_id: msgId, error: error.message || String(error) });
+    }
+  }
+
+  if (rawRows.length > 0) {
+    await store.insertRawEmails(rawRows);
+  }
+  report.insertedRaw += rawRows.length;
+  report.nullSentDate += rawRows.filter(r => !r.sent_date).length;
+
+  // email_labels: dedupe within the batch and against what's already stored
+  let existingLabelPairs = new Set<string>();
+  if (labelRows.length > 0) {
+    try {
+      existingLabelPairs = await store.findExistingLabelPairs(
+        Array.from(new Set(labelRows.map(r => r.gmail_message_id)))
+      );
+    } catch {
+      // Inserting a duplicate label row is better than failing the run
+    }
+  }
+  const uniqueLabels = new Map<string, EmailLabelRow>();
+  for (const row of labelRows) {
+    const key = `${row.gmail_message_id}:${row.label_id}`;
+    if (!uniqueLabels.has(key) && !existingLabelPairs.has(`${row.gmail_message_id}:${row.label_name}`)) {
+      uniqueLabels.set(key, row);
+    }
+  }
+  if (uniqueLabels.size > 0) {
+    await store.insertEmailLabels(Array.from(uniqueLabels.values()));
+  }
+  report.insertedLabels += uniqueLabels.size;
+}
+
+// ===== CANDIDATE LISTING =====
+
+// Messages added with these labels are not newsletters we received
+const HISTORY_SKIP_LABELS = new Set(['SENT', 'DRAFT', 'SPAM', 'TRASH', 'CHAT']);
+
+interface CandidateList {
+  messageIds: string[];
+  addedAt: Map<string, string>;  // message id -> history record id (history mode only)
+  watermark: string | null;      // Stored once everything listed has committed; null = leave as is
+}
+
+function historyBefore(historyId: string): string {
+  return (BigInt(historyId) - BigInt(1)).toString();
+}
+
+function isHistoryExpired(error: any): boolean {
+  const status = error?.code ?? error?.response?.status ?? error?.status;
+  return Number(status) === 404;
+}
+
+/**
+ * Combine the base query with the since/until range. Epoch seconds are used
+ * because Gmail's after:/before: with YYYY/MM/DD are interpreted in PST.
+ */
+export function buildQuery(options: Pick<IngestOptions, 'query' | 'since' | 'until'>): string {
+  const terms = [options.query.trim()];
+  if (options.since) terms.push(`after:${Math.floor(options.since.getTime() / 1000)}`);
+  if (options.until) terms.push(`before:${Math.floor(options.until.getTime() / 1000)}`);
+  return terms.filter(Boolean).join(' ');
+}
+
+const MAX_PAGE_SIZE = 500;  // Gmail messages.list maxResults cap
+
+async function listPage(
+  gmail: IngestGmailClient,
+  q: string,
+  maxResults: number,
+  pageToken?: string
+): Promise<gmail_v1.Schema$ListMessagesResponse> {
+  try {
+    return await gmail.listMessages({ q, maxResults, pageToken });
+  } catch (error: any) {
+    throw authAwareError('Gmail messages.list', error);
+  }
+}
+
+/**
+ * List up to options.limit messages matching the query (plus any since/until
+ * range), following nextPageToken across pages.
+ */
+async function listByQuery(
+  gmail: IngestGmailClient,
+  options: IngestOptions,
+  trackWatermark: boolean
+): Promise<CandidateList> {
+  // Capture the history id before listing so nothing that arrives mid-scan is skipped
+  let profileHistoryId: string | null = null;
+  if (trackWatermark) {
+    try {
+      profileHistoryId = (await gmail.getProfile()).historyId || null;
+    } catch (error: any) {
+      throw authAwareError('Gmail getProfile', error);
+    }
+  }
+
+  const q = buildQuery(options);
+  const messageIds: string[] = [];
+  let pageToken: string | undefined;
+  do {
+    const remaining = options.limit - messageIds.length;
+    const page = await listPage(gmail, q, Math.min(MAX_PAGE_SIZE, remaining), pageToken);
+    messageIds.push(...(page.messages || []).map(m => m.id!).filter(Boolean));
+    pageToken = page.nextPageToken || undefined;
+  } while (pageToken && messageIds.length < options.limit);
+
+  return {
+    messageIds,
+    addedAt: new Map(),
+    // A scan that stopped at the limit hasn't caught up; keep falling back until it does
+    watermark: pageToken ? null : profileHistoryId,
+  };
+}
+
+/**
+ * List messages added since startHistoryId. Returns null when Gmail no longer
+ * has history that far back (404), in which case the caller does a full scan.
+ */
+async function listByHistory(
+  gmail: IngestGmailClient,
+  startHistoryId: string,
+  limit: number
+): Promise<CandidateList | null> {
+  const addedAt = new Map<string, string>();
+  let latestHistoryId = startHistoryId;
+  let pageToken: string | undefined;
+
+  do {
+    let res: gmail_v1.Schema$ListHistoryResponse;
+    try {
+      res = await gmail.listHistory({ startHistoryId, pageToken });
+    } catch (error: any) {
+      if (isHistoryExpired(error)) return null;
+      throw authAwareError('Gmail history.list', error);
+    }
+
+    for (const record of res.history || []) {
+      for (const added of record.messagesAdded || []) {
+        const msg = added.message;
+        if (!msg?.id || addedAt.has(msg.id)) continue;
+        if ((msg.labelIds || []).some(l => HISTORY_SKIP_LABELS.has(l))) continue;
+        addedAt.set(msg.id, record.id!);
+      }
+    }
+    latestHistoryId = res.historyId || latestHistoryId;
+    pageToken = res.nextPageToken || undefined;
+  } while (pageToken && addedAt.size <= limit);
+
+  const ids = Array.from(addedAt.keys());
+  if (ids.length > limit) {
+    // Stop just before the first message we're not taking this run
+    return {
+      messageIds: ids.slice(0, limit),
+      addedAt,
+      watermark: historyBefore(addedAt.get(ids[limit])!),
+    };
+  }
+  return { messageIds: ids, addedAt, watermark: latestHistoryId };
+}
+
+// Query terms that change with message state (read, labelled, archived)
+const STATE_TERM = /^-?(is|label|in):|^-?has:(no)?userlabels$/i;
+
+/**
+ * The query's terms that don't change with message state, or '' when there
+ * are none or the query uses grouping/OR (dropping terms could widen or
+ * narrow it in ways we can't tell). Quoted phrases are kept whole.
+ */
+export function stableQueryTerms(query: string): string {
+  if (/[(){}]|\bOR\b/.test(query)) return '';
+  const terms = query.match(/-?[\w.]+:"[^"]*"|"[^"]*"|\S+/g) || [];
+  return terms.filter(term => !STATE_TERM.test(term)).join(' ');
+}
+
+/**
+ * Narrow history candidates to the ones the inbox query's stable terms match
+ * (see stableQueryTerms). Gmail search can't select by message id, so this
+ * lists those terms from the oldest candidate's receive time and keeps the
+ * intersection. A candidate whose metadata can't be read is kept; ingestion
+ * reports its failure. Skipped messages stay behind the watermark: nothing
+ * about them that the terms test can change, so they would never match.
+ */
+async function keepQueryMatches(
+  gmail: IngestGmailClient,
+  candidates: CandidateList,
+  query: string,
+  report: IngestReport
+): Promise<CandidateList> {
+  const stable = stableQueryTerms(query);
+  if (!stable || candidates.messageIds.length === 0) return candidates;
+
+  const receivedAt = new Map<string, number>();
+  for (const msgId of candidates.messageIds) {
+    try {
+      const msg = await gmail.getMessage(msgId, 'metadata', ['Date']);
+      if (msg.internalDate) receivedAt.set(msgId, Number(msg.internalDate));
+    } catch {
+      // Kept: the fetch in ingestMessageIds records the failure
+    }
+  }
+  if (receivedAt.size === 0) return candidates;
+
+  // after: is exclusive and in whole seconds; start a second early
+  const oldest = Math.min(...receivedAt.values());
+  const q = buildQuery({ query: stable, since: new Date(oldest - 1000) });
+  const matching = new Set<string>();
+  let pageToken: string | undefined;
+  do {
+    const page = await listPage(gmail, q, MAX_PAGE_SIZE, pageToken);
+    (page.messages || []).forEach(m => m.id && matching.add(m.id));
+    pageToken = page.nextPageToken || undefined;
+  } while (pageToken);
+
+  const messageIds = candidates.messageIds.filter(id => !receivedAt.has(id) || matching.has(id));
+  report.outsideQuery = candidates.messageIds.length - messageIds.length;
+  return { ...candidates, messageIds };
+}
+
+/**
+ * Pull the watermark back so the earliest failed message is replayed next run
+ */
+function watermarkAfterFailures(
+  candidates: CandidateList,
+  failed: IngestReport['failed']
+): string | null {
+  if (!candidates.watermark) return null;
+  let watermark = candidates.watermark;
+  for (const failure of failed) {
+    const addedAt = candidates.addedAt.get(failure.gmail_message_id);
+    if (addedAt && BigInt(historyBefore(addedAt)) < BigInt(watermark)) {
+      watermark = historyBefore(addedAt);
+    }
+  }
+  return watermark;
+}
+
+const BATCH_MODIFY_MAX_IDS = 1000;  // Gmail API limit per batchModify call
+
+async function applyProcessedLabel(
+  gmail: IngestGmailClient,
+  messageIds: string[],
+  labels: LabelMaps,
+  options: IngestOptions,
+  report: IngestReport
+): Promise<void> {
+  const toLabel: string[] = [];
+  for (const msgId of messageIds) {
+    try {
+      const msg = await gmail.getMessage(msgId, 'metadata');
+      const labelNames = (msg.labelIds || []).map(id => labels.namesById.get(id));
+      if (labelNames.includes(options.processedLabel)) {
+        report.alreadyLabeled++;
+      } else {
+        toLabel.push(msgId);
+      }
+    } catch (error: any) {
+      report.failed.push({ gmail_message_id: msgId, error: `metadata fetch: ${error.message || String(error)}` });
+    }
+  }
+
+  if (toLabel.length === 0) return;
+
+  let labelId = labels.idsByName.get(options.processedLabel);
+  if (!labelId) {
+    try {
+      labelId = (await gmail.createLabel(options.processedLabel)).id || undefined;
+    } catch {
+      // Label may have been created concurrently; look it up again
+      const all = await gmail.listLabels();
+      labelId = all.find(l => l.name === options.processedLabel)?.id || undefined;
+    }
+    if (labelId) {
+      labels.idsByName.set(options.processedLabel, labelId);
+      labels.namesById.set(labelId, options.processedLabel);
+    }
+  }
+  if (!labelId) {
+    report.labelError = `Cannot label messages: Label ID for '${options.processedLabel}' not found.`;
+    return;
+  }
+
+  for (let i = 0; i < toLabel.length; i += BATCH_MODIFY_MAX_IDS) {
+    const batch = toLabel.slice(i, i + BATCH_MODIFY_MAX_IDS);
+    try {
+      await gmail.batchModify(batch, [labelId], options.markRead ? ['UNREAD'] : undefined);
+    } catch (error: any) {
+      report.labelError = `batchModify failed: ${error.message || String(error)}`;
+      return;
+    }
+    report.labeled += batch.length;
+    if (options.markRead) report.markedRead += batch.length;
+  }
+}
+
+// ===== BACKFILL =====
+
+export interface BackfillState {
+  key: string;                 // inbox + query, so different ranges keep separate progress
+  pageToken: string | null;    // Next page to list; null once the range is exhausted
+  pagesDone: number;
+  messagesSeen: number;
+  insertedRaw: number;
+  failedIds: string[];         // Retried once the range is exhausted
+  startedAt: string;
+  updatedAt: string;
+  done: boolean;
+}
+
+export interface BackfillCheckpointStore {
+  load(key: string): Promise<BackfillState | null>;
+  save(state: BackfillState): Promise<void>;
+}
+
+export interface BackfillOptions {
+  pageSize?: number;          // Messages per page (max 500)
+  restart?: boolean;          // Ignore saved progress and start from the first page
+  onPage?: (report: BackfillReport, state: BackfillState) => void;
+}
+
+export interface BackfillReport extends IngestReport {
+  pages: number;
+  resumedAtPage: number | null;
+  complete: boolean;
+}
+
+const DEFAULT_BACKFILL_CHECKPOINT = path.resolve('.ingest-backfill-progress.json');
+
+/**
+ * Backfill progress kept in a local JSON file, keyed by inbox + query
+ */
+export function createFileBackfillCheckpoint(filePath: string = DEFAULT_BACKFILL_CHECKPOINT): BackfillCheckpointStore {
+  async function readAll(): Promise<Record<string, BackfillState>> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch {
+      return {};
+    }
+  }
+
+  return {
+    async load(key) {
+      return (await readAll())[key] || null;
+    },
+    async save(state) {
+      const all = await readAll();
+      all[state.key] = state;
+      await fs.writeFile(filePath, JSON.stringify(all, null, 2));
+    },
+  };
+}
+
+function isInvalidPageToken(error: any): boolean {
+  const status = error?.code ?? error?.response?.status ?? error?.status;
+  return Number(status) === 400;
+}
+
+/**
+ * Walk every page of the query (plus since/until range), ingesting page by
+ * page and checkpointing the next page token after each page commits, so an
+ * interrupted backfill resumes where it stopped. options.limit caps how many
+ * messages one invocation lists.
+ *
+ * The query must not exclude the processed label: labeling messages while
+ * paging would shift later pages. Idempotency makes re-listing safe instead.
+ */
+export async function backfillInbox(
+  gmail: IngestGmailClient,
+  store: IngestStore,
+  checkpoint: BackfillCheckpointStore,
+  options: IngestOptions,
+  backfill: BackfillOptions = {}
+): Promise<BackfillReport> {
+  const q = buildQuery(options);
+  const key = `${options.inbox}|${q}`;
+  const pageSize = Math.min(MAX_PAGE_SIZE, backfill.pageSize ?? MAX_PAGE_SIZE);
+  const report: BackfillReport = {
+    ...emptyReport({ ...options, mode: 'query' }),
+    pages: 0,
+    resumedAtPage: null,
+    complete: false,
+  };
+
+  const now = new Date().toISOString();
+  const fresh = (): BackfillState => ({
+    key,
+    pageToken: null,
+    pagesDone: 0,
+    messagesSeen: 0,
+    insertedRaw: 0,
+    failedIds: [],
+    startedAt: now,
+    updatedAt: now,
+    done: false,
+  });
+
+  let state = backfill.restart ? null : await checkpoint.load(key);
+  if (state?.done) {
+    report.complete = true;
+    return report;
+  }
+  if (state) {
+    report.resumedAtPage = state.pagesDone;
+  } else {
+    state = fresh();
+  }
+
+  const labels = await loadLabelMaps(gmail);
+  let pageToken = state.pageToken || undefined;
+  // A previous run listed every page but left failures to retry
+  const exhausted = state.pagesDone > 0 && !state.pageToken;
+
+  while (!exhausted && report.fetched < options.limit) {
+    let page: gmail_v1.Schema$ListMessagesResponse;
+    try {
+      page = await gmail.listMessages({ q, maxResults: pageSize, pageToken });
+    } catch (error: any) {
+      if (pageToken && report.pages === 0 && isInvalidPageToken(error)) {
+        // Saved token is no longer accepted; idempotency makes starting over safe
+        state = fresh();
+        report.resumedAtPage = null;
+        pageToken = undefined;
+        continue;
+      }
+      throw authAwareError('Gmail messages.list', error);
+    }
+
+    const messageIds = (page.messages || []).map(m => m.id!).filter(Boolean);
+    report.fetched += messageIds.length;
+    report.pages++;
+    pageToken = page.nextPageToken || undefined;
+
+    if (options.dryRun) {
+      if (!pageToken) break;
+      continue;
+    }
+
+    if (messageIds.length > 0) {
+      const failedBefore = report.failed.length;
+      const insertedBefore = report.insertedRaw;
+      await ingestMessageIds(gmail, store, messageIds, labels, options, report);
+      if (!options.readonly) {
+        await applyProcessedLabel(gmail, messageIds, labels, options, report);
+      }
+      state.failedIds.push(...report.failed.slice(failedBefore).map(f => f.gmail_message_id));
+      state.insertedRaw += report.insertedRaw - insertedBefore;
+    }
+
+    state.pageToken = pageToken || null;
+    state.pagesDone++;
+    state.messagesSeen += messageIds.length;
+    state.updatedAt = new Date().toISOString();
+    await checkpoint.save(state);
+    backfill.onPage?.(report, state);
+
+    if (!pageToken) break;
+  }
+
+  if (!options.dryRun && !pageToken) {
+    // Range exhausted: give earlier per-message failures one more try
+    const retryIds = Array.from(new Set(state.failedIds));
+    if (retryIds.length > 0) {
+      const retryReport = emptyReport(options);
+      await ingestMessageIds(gmail, store, retryIds, labels, options, retryReport);
+      report.insertedRaw += retryReport.insertedRaw;
+      report.insertedLabels += retryReport.insertedLabels;
+      state.failedIds = retryReport.failed.map(f => f.gmail_message_id);
+    }
+    state.done = state.failedIds.length === 0;
+    state.updatedAt = new Date().toISOString();
+    await checkpoint.save(state);
+    report.complete = state.done;
+  }
+
+  return report;
+}
+
+// ===== PUBLIC API =====
+
+/**
+ * Build ingest options for an inbox. Per-inbox settings from the registry
+ * win; the GMAIL_* environment variables fill in anything it leaves out.
+ */
+export function resolveIngestOptions(inbox: InboxKey, overrides: Partial<IngestOptions> = {}): IngestOptions {
+  const registered = getInbox(inbox);
+  return {
+    inbox,
+    query: registered.query ?? (process.env.GMAIL_QUERY || 'is:unread -label:Ingested'),
+    processedLabel: registered.processedLabel ?? (process.env.GMAIL_PROCESSED_LABEL || cfg.ingestLabel),
+    paidLabel: registered.paidLabel ?? (process.env.GMAIL_PAID_LABEL || cfg.paidLabel),
+    markRead: registered.markRead ?? process.env.GMAIL_MARK_READ === 'true',
+    readonly: process.env.GMAIL_READONLY !== 'false',  // default true
+    dryRun: false,
+    limit: 500,
+    mode: process.env.GMAIL_SYNC_MODE === 'history' ? 'history' : 'query',
+    ...overrides,
+  };
+}
+
+/**
+ * Ingest new newsletters for one inbox or all of them, using the live
+ * Gmail API and the production BigQuery tables.
+ */
+export async function ingestNewNewsletters(
+  inboxOrAll: 'all' | string,
+  overrides: Partial<IngestOptions> = {}
+): Promise<IngestReport[]> {
+  const inboxes = inboxOrAll === 'all' ? listInboxKeys() : [getInbox(inboxOrAll).key];
+
+  const store = createBigQueryIngestStore();
+  const reports: IngestReport[] = [];
+  for (const inbox of inboxes) {
+    const gmail = gmailIngestClient(await getGmail(inbox));
+    reports.push(await ingestInbox(gmail, store, resolveIngestOptions(inbox, overrides)));
+  }
+  return reports;
+}
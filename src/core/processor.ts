@@ -1,8 +1,440 @@
 /**
  * Processing module - chunks and embeds newsletter content
+ *
+ * Moves messages through ingested → chunked → embedded, recording every
+ * transition in processing_status (see checkpoint.ts). A message that fails
+ * either step is marked failed with the error and retried on later runs with
+ * exponential backoff, up to maxAttempts; after that it stays failed until
+ * someone looks at it. Both steps are idempotent per message: chunk IDs are
+ * derived from (gmail_message_id, chunk_index), a retry inserts only the
+ * chunks missing after a partial insert, and only chunks without an
+ * embedding are sent to Vertex, so a retry picks up where the failure left off.
  */
 
-export async function processUnchunkedMessages(): Promise<void> {
-  throw new Error('processUnchunkedMessages not implemented yet');
+import { v5 as uuidv5 } from 'uuid';
+import { getBigQuery } from '../bq/client';
+import { insertRowsSafe } from '../bq/insert';
+import { embedBatch } from '../embeddings/vertex';
+import { buildDocument, chunkDocument, MIN_CHUNKABLE_LENGTH } from '../lib/chunking';
+import { cfg } from '../lib/config';
+import * as checkpoint from './checkpoint';
+import type { ProcessingStage } from './checkpoint';
+import { createBigQueryPublisherStore, resolverFromSync, syncPublishers } from './publisher';
+import type { PublisherSyncReport, SenderFields } from './publisher';
+
+// ===== TYPES =====
+
+export interface ProcessOptions {
+  limit: number;               // Messages per run
+  dryRun: boolean;             // Select and chunk, but write nothing
+  maxAttempts: number;         // Failed runs before a message is left alone
+  retryBaseMinutes: number;    // Backoff after the n-th failure: base * 2^(n-1)
+  embedBatchSize: number;      // Texts per Vertex request
+  model: string;
 }
 
+export interface ProcessCandidate {
+  gmail_message_id: string;
+  body_html: string | null;
+  body_text: string | null;
+  snippet: string | null;
+  from_email: string | null;
+  from_name: string | null;
+  reply_to: string | null;
+  list_id: string | null;
+  stage: ProcessingStage | null;
+  failures: number;
+}
+
+export interface ChunkRow {
+  chunk_id: string;
+  gmail_message_id: string;
+  publisher_id: string | null;
+  source_part: string | null;
+  char_start: number | null;
+  char_end: number | null;
+  chunk_index: number;
+  chunk_text: string;
+  section_heading: string | null;
+  created_at: string;
+  is_junk?: boolean;  // Set by scripts/ops/flag-junk-chunks.ts; junk is never embedded
+}
+
+export interface EmbeddingRow {
+  chunk_id: string;
+  model: string;
+  dim: number;
+  embedding: number[];
+  created_at: string;
+}
+
+export interface ProcessFailure {
+  gmail_message_id: string;
+  step: 'chunk' | 'embed';
+  error: string;
+}
+
+export interface ProcessReport {
+  dryRun: boolean;
+  selected: number;
+  retried: number;               // Candidates whose previous run failed
+  chunkedMessages: number;
+  chunksInserted: number;
+  embeddedMessages: number;
+  embeddingsInserted: number;
+  failed: ProcessFailure[];
+  failedMerges: PublisherSyncReport['failedMerges'];  // Cleared by `pipeline fix-publishers`
+}
+
+/**
+ * Storage used by the processor; the BigQuery implementation is below,
+ * tests and dry runs can swap in their own
+ */
+export interface ProcessorStore {
+  selectCandidates(options: ProcessOptions): Promise<ProcessCandidate[]>;
+  syncPublishers(senders: SenderFields[]): Promise<PublisherSyncReport>;
+  findChunks(ids: string[]): Promise<ChunkRow[]>;
+  insertChunks(rows: ChunkRow[]): Promise<void>;
+  findEmbeddedChunkIds(chunkIds: string[]): Promise<Set<string>>;
+  insertEmbeddings(rows: EmbeddingRow[]): Promise<void>;
+  setStages(ids: string[], stage: ProcessingStage): Promise<void>;
+  setError(id: string, error: string): Promise<void>;
+}
+
+export type Embedder = (texts: string[]) => Promise<number[][]>;
+
+// ===== ADAPTERS =====
+
+const CHUNK_INSERT_BATCH = 500;
+
+// Namespace for chunk IDs, so re-chunking a message reproduces its IDs
+const CHUNK_ID_NAMESPACE = '5b0c7e2a-3f1d-4c8e-9a6b-2d4f8e1c7a90';
+
+export function chunkIdFor(gmailMessageId: string, chunkIndex: number): string {
+  return uuidv5(`${gmailMessageId}:${chunkIndex}`, CHUNK_ID_NAMESPACE);
+}
+
+export function createBigQueryProcessorStore(
+  projectId = cfg.projectId,
+  dataset = cfg.dataset,
+  location = cfg.location
+): ProcessorStore {
+  const bq = getBigQuery();
+  const table = (name: string) => bq.dataset(dataset).table(name);
+  const fq = (name: string) => `\`${projectId}.${dataset}.${name}\``;
+
+  return {
+    async selectCandidates(options) {
+      // Eligible: never tracked and never chunked (pre-tracking backlog),
+      // stuck in ingested/chunked, or failed and past its backoff window
+      const [rows] = await bq.query({
+        query: `
+          WITH status AS (
+            SELECT gmail_message_id,
+              ARRAY_AGG(STRUCT(stage, updated_at) ORDER BY updated_at DESC LIMIT 1)[OFFSET(0)] AS latest,
+              COUNTIF(stage = 'failed') AS failures
+            FROM ${fq('processing_status')}
+            GROUP BY gmail_message_id
+          )
+          SELECT
+            r.gmail_message_id,
+            ANY_VALUE(r.body_html) AS body_html,
+            ANY_VALUE(r.body_text) AS body_text,
+            ANY_VALUE(r.snippet) AS snippet,
+            ANY_VALUE(r.from_email) AS from_email,
+            ANY_VALUE(r.from_name) AS from_name,
+            ANY_VALUE(r.reply_to) AS reply_to,
+            ANY_VALUE(r.list_id) AS list_id,
+            ANY_VALUE(s.latest.stage) AS stage,
+            IFNULL(ANY_VALUE(s.failures), 0) AS failures,
+            MAX(r.sent_date) AS sent_date
+          FROM ${fq('raw_emails')} r
+          LEFT JOIN status s USING (gmail_message_id)
+          WHERE (
+              s.gmail_message_id IS NULL
+              AND r.gmail_message_id NOT IN (
+                SELECT DISTINCT gmail_message_id FROM ${fq('chunks')}
+                WHERE gmail_message_id IS NOT NULL
+              )
+            )
+            OR s.latest.stage IN ('ingested', 'chunked')
+            OR (
+              s.latest.stage = 'failed'
+              AND s.failures < @maxAttempts
+              AND TIMESTAMP_ADD(
+                s.latest.updated_at,
+                INTERVAL CAST(@retryBaseMinutes * POW(2, s.failures - 1) AS INT64) MINUTE
+              ) <= CURRENT_TIMESTAMP()
+            )
+          GROUP BY r.gmail_message_id
+          ORDER BY sent_date DESC NULLS LAST
+          LIMIT @limit
+        `,
+        params: {
+          limit: options.limit,
+          maxAttempts: options.maxAttempts,
+          retryBaseMinutes: options.retryBaseMinutes,
+        },
+        location,
+      });
+      return (rows as any[]).map((r) => ({
+        gmail_message_id: r.gmail_message_id,
+        body_html: r.body_html,
+        body_text: r.body_text,
+        snippet: r.snippet,
+        from_email: r.from_email,
+        from_name: r.from_name,
+        reply_to: r.reply_to,
+        list_id: r.list_id,
+        stage: r.stage || null,
+        failures: Number(r.failures) || 0,
+      }));
+    },
+
+    // Creates publishers/aliases for senders seen for the first time
+    async syncPublishers(senders) {
+      return syncPublishers(createBigQueryPublisherStore(projectId, dataset, location), senders);
+    },
+
+    async findChunks(ids) {
+      if (ids.length === 0) return [];
+      const [rows] = await bq.query({
+        query: `
+          SELECT chunk_id, gmail_message_id, chunk_index, chunk_text, section_heading, IFNULL(is_junk, FALSE) AS is_junk
+          FROM ${fq('chunks')}
+          WHERE gmail_message_id IN UNNEST(@ids)
+        `,
+        params: { ids },
+        location,
+      });
+      return rows as ChunkRow[];
+    },
+
+    async insertChunks(rows) {
+      for (let i = 0; i < rows.length; i += CHUNK_INSERT_BATCH) {
+        await insertRowsSafe(table('chunks'), rows.slice(i, i + CHUNK_INSERT_BATCH));
+      }
+    },
+
+    async findEmbeddedChunkIds(chunkIds) {
+      if (chunkIds.length === 0) return new Set();
+      const [rows] = await bq.query({
+        query: `
+          SELECT DISTINCT chunk_id
+          FROM ${fq('chunk_embeddings')}
+          WHERE chunk_id IN UNNEST(@chunkIds)
+        `,
+        params: { chunkIds },
+        location,
+      });
+      return new Set((rows as Array<{ chunk_id: string }>).map((r) => r.chunk_id));
+    },
+
+    async insertEmbeddings(rows) {
+      await insertRowsSafe(table('chunk_embeddings'), rows);
+    },
+
+    setStages: checkpoint.setStages,
+    setError: checkpoint.setError,
+  };
+}
+
+// ===== PROCESSING =====
+
+/**
+ * Chunk every candidate that isn't fully chunked yet. Returns the chunks per
+ * message (existing or new) for the embed step; messages that cannot be
+ * chunked are recorded in report.failed.
+ *
+ * Only a 'chunked' stage means all of a message's chunks landed. Any other
+ * message with chunks may hold part of an earlier failed insert, so it is
+ * re-chunked and only the chunk indexes it is missing are inserted.
+ */
+async function chunkCandidates(
+  store: ProcessorStore,
+  candidates: ProcessCandidate[],
+  options: ProcessOptions,
+  report: ProcessReport
+): Promise<Map<string, ChunkRow[]>> {
+  const byMessage = new Map<string, ChunkRow[]>();
+  for (const chunk of await store.findChunks(candidates.map((c) => c.gmail_message_id))) {
+    const list = byMessage.get(chunk.gmail_message_id) || [];
+    list.push(chunk);
+    byMessage.set(chunk.gmail_message_id, list);
+  }
+
+  const pending = candidates.filter((c) => !byMessage.has(c.gmail_message_id) || c.stage !== 'chunked');
+  const sync = pending.length > 0 && !options.dryRun
+    ? await store.syncPublishers(pending)
+    : null;
+  const publishers = sync ? resolverFromSync(sync) : null;
+  if (sync) report.failedMerges = sync.failedMerges;
+  const newChunks: ChunkRow[] = [];
+  const newlyChunked: string[] = [];
+  const now = new Date().toISOString();
+
+  for (const candidate of pending) {
+    const id = candidate.gmail_message_id;
+    const existing = byMessage.get(id) || [];
+    const doc = buildDocument(candidate.body_html, candidate.body_text, candidate.snippet);
+    if (doc.text.length < MIN_CHUNKABLE_LENGTH) {
+      byMessage.delete(id);
+      report.failed.push({ gmail_message_id: id, step: 'chunk', error: `body too short to chunk (${doc.text.length} chars)` });
+      continue;
+    }
+
+    const publisherId = publishers ? publishers.resolve(candidate) : null;
+    const landed = new Set(existing.map((c) => c.chunk_index));
+    const rows: ChunkRow[] = chunkDocument(doc)
+      .map((chunk, i) => ({
+        chunk_id: chunkIdFor(id, i),
+        gmail_message_id: id,
+        publisher_id: publisherId,
+        source_part: doc.sourcePart,
+        char_start: chunk.charStart,
+        char_end: chunk.charEnd,
+        chunk_index: i,
+        chunk_text: chunk.text,
+        section_heading: chunk.sectionHeading,
+        created_at: now,
+      }))
+      .filter((row) => !landed.has(row.chunk_index));
+    byMessage.set(id, [...existing, ...rows]);
+    newChunks.push(...rows);
+    newlyChunked.push(id);
+  }
+
+  if (newChunks.length > 0 && !options.dryRun) {
+    try {
+      await store.insertChunks(newChunks);
+    } catch (err: any) {
+      // Without knowing which rows landed, fail the whole set; the retry
+      // inserts whichever of each message's chunk indexes are still missing
+      for (const id of newlyChunked) {
+        byMessage.delete(id);
+        report.failed.push({ gmail_message_id: id, step: 'chunk', error: `chunk insert failed: ${err.message}` });
+      }
+      return byMessage;
+    }
+  }
+  if (newlyChunked.length > 0 && !options.dryRun) {
+    await store.setStages(newlyChunked, 'chunked');
+  }
+
+  report.chunkedMessages = newlyChunked.length;
+  report.chunksInserted = options.dryRun ? 0 : newChunks.length;
+  return byMessage;
+}
+
+/**
+ * Embed chunks that have no embedding yet. A failed Vertex call or insert
+ * fails every message with a chunk in that batch.
+ */
+async function embedChunks(
+  store: ProcessorStore,
+  embed: Embedder,
+  byMessage: Map<string, ChunkRow[]>,
+  options: ProcessOptions,
+  report: ProcessReport
+): Promise<Set<string>> {
+  const allChunks = Array.from(byMessage.values()).flat().filter((c) => !c.is_junk);
+  const embedded = await store.findEmbeddedChunkIds(allChunks.map((c) => c.chunk_id));
+  const pending = allChunks.filter((c) => !embedded.has(c.chunk_id));
+  const failedIds = new Set<string>();
+
+  for (let i = 0; i < pending.length; i += options.embedBatchSize) {
+    const batch = pending.slice(i, i + options.embedBatchSize);
+    try {
+      const vectors = await embed(batch.map((c) => c.chunk_text));
+      if (vectors.length !== batch.length) {
+        throw new Error(`expected ${batch.length} embeddings, got ${vectors.length}`);
+      }
+      const now = new Date().toISOString();
+      await store.insertEmbeddings(batch.map((chunk, idx) => ({
+        chunk_id: chunk.chunk_id,
+        model: options.model,
+        dim: vectors[idx].length,
+        embedding: vectors[idx],
+        created_at: now,
+      })));
+      report.embeddingsInserted += batch.length;
+    } catch (err: any) {
+      for (const id of new Set(batch.map((c) => c.gmail_message_id))) {
+        if (failedIds.has(id)) continue;
+        failedIds.add(id);
+        report.failed.push({ gmail_message_id: id, step: 'embed', error: `embedding failed: ${err.message}` });
+      }
+    }
+  }
+
+  return failedIds;
+}
+
+/**
+ * Run one processing pass with explicit dependencies
+ */
+export async function processMessages(
+  store: ProcessorStore,
+  embed: Embedder,
+  options: ProcessOptions
+): Promise<ProcessReport> {
+  const report: ProcessReport = {
+    dryRun: options.dryRun,
+    selected: 0,
+    retried: 0,
+    chunkedMessages: 0,
+    chunksInserted: 0,
+    embeddedMessages: 0,
+    embeddingsInserted: 0,
+    failed: [],
+    failedMerges: [],
+  };
+
+  const candidates = await store.selectCandidates(options);
+  report.selected = candidates.length;
+  report.retried = candidates.filter((c) => c.stage === 'failed').length;
+  if (candidates.length === 0) return report;
+
+  const byMessage = await chunkCandidates(store, candidates, options, report);
+
+  if (options.dryRun) return report;
+
+  const embedFailures = await embedChunks(store, embed, byMessage, options, report);
+  const done = Array.from(byMessage.keys()).filter((id) => !embedFailures.has(id));
+  if (done.length > 0) {
+    await store.setStages(done, 'embedded');
+  }
+  report.embeddedMessages = done.length;
+
+  for (const failure of report.failed) {
+    await store.setError(failure.gmail_message_id, `${failure.step}: ${failure.error}`);
+  }
+
+  return report;
+}
+
+// ===== PUBLIC API =====
+
+/**
+ * Options from env with defaults, overridable per call
+ */
+export function resolveProcessOptions(overrides: Partial<ProcessOptions> = {}): ProcessOptions {
+  return {
+    limit: parseInt(process.env.PROCESS_LIMIT || '200', 10),
+    dryRun: false,
+    maxAttempts: parseInt(process.env.PROCESS_MAX_ATTEMPTS || '5', 10),
+    retryBaseMinutes: parseInt(process.env.PROCESS_RETRY_BASE_MINUTES || '30', 10),
+    embedBatchSize: parseInt(process.env.EMB_BATCH_SIZE || '32', 10),
+    model: process.env.EMB_MODEL || 'text-embedding-004',
+    ...overrides,
+  };
+}
+
+/**
+ * Chunk and embed messages that have not finished processing, retrying
+ * earlier failures whose backoff has elapsed
+ */
+export async function processUnchunkedMessages(overrides: Partial<ProcessOptions> = {}): Promise<ProcessReport> {
+  const options = resolveProcessOptions(overrides);
+  return processMessages(createBigQueryProcessorStore(), (texts) => embedBatch(texts, { model: options.model }), options);
+}
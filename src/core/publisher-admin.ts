@@ -0,0 +1,404 @@
+/**
+ * Publisher admin module - manual merge / split / rename with an audit trail
+ *
+ * Canonicalization (publisher.ts) gets most senders right, but some calls
+ * need a human: two Bloomberg products sharing bloomberg.com, or a
+ * publication that changed its sending address. Every change here updates
+ * publishers, publisher_aliases and chunks.publisher_id together and writes
+ * one publisher_audit row holding what is needed to undo it; revertChange
+ * replays that snapshot backwards. Each change and its audit row run as one
+ * BigQuery transaction, so a failure applies neither.
+ *
+ * Audit rows are written with DML (not streaming inserts) so reverted_at can
+ * be set on them straight away. A split's audit row also keeps
+ * syncPublishers from auto-merging the two halves again until it is reverted.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getBigQuery } from '../bq/client';
+import { cfg } from '../lib/config';
+import { mergeStatements, publisherKeys } from './publisher';
+import type { PublisherAliasRow, PublisherRow, SenderFields } from './publisher';
+
+// ===== TYPES =====
+
+export type PublisherAuditAction = 'merge' | 'split' | 'rename' | 'revert';
+
+export interface AdminContext {
+  actor: string;          // Who made the change (CLI user, API caller)
+  reason?: string | null;
+}
+
+export interface PublisherAuditRow {
+  audit_id: string;
+  action: PublisherAuditAction;
+  publisher_id: string;               // merge: survivor, split: source, rename: target
+  other_publisher_id: string | null;  // merge: merged-away id, split: new publisher, revert: reverted audit_id
+  detail: string;                     // JSON snapshot used by revertChange
+  actor: string;
+  reason: string | null;
+  created_at: string;
+  reverted_at: string | null;
+  reverted_by: string | null;
+}
+
+interface MergeDetail {
+  merged: PublisherRow;
+  mergedAliases: PublisherAliasRow[];
+  survivorSeen: { first_seen_at: string | null; last_seen_at: string | null };
+  messageIds: string[];
+}
+
+interface SplitDetail {
+  alias: PublisherAliasRow;
+  created: PublisherRow;
+  messageIds: string[];
+}
+
+interface RenameDetail {
+  before: string | null;
+  after: string;
+}
+
+// ===== HELPERS =====
+
+const fq = (name: string) => `\`${cfg.projectId}.${cfg.dataset}.${name}\``;
+
+async function run(query: string, params?: Record<string, any>): Promise<any[]> {
+  // BigQuery cannot infer a type for null parameters; every nullable one here is a STRING
+  const types: Record<string, string> = {};
+  const values: Record<string, any> = {};
+  for (const [key, value] of Object.entries(params || {})) {
+    values[key] = value ?? null;
+    if (value === null || value === undefined) types[key] = 'STRING';
+  }
+  const [rows] = await getBigQuery().query({ query, params: values, types, location: cfg.location });
+  return rows;
+}
+
+async function getPublisher(publisherId: string): Promise<PublisherRow> {
+  const rows = await run(`
+    SELECT publisher_id, service, site_id, domain_root, display_name,
+      CAST(first_seen_at AS STRING) AS first_seen_at,
+      CAST(last_seen_at AS STRING) AS last_seen_at
+    FROM ${fq('publishers')}
+    WHERE publisher_id = @publisherId
+  `, { publisherId });
+  if (rows.length === 0) {
+    throw new Error(`Unknown publisher: ${publisherId}`);
+  }
+  return rows[0] as PublisherRow;
+}
+
+/**
+ * Run DML statements as one transaction; nothing is applied if one fails
+ */
+async function transaction(statements: string[], params: Record<string, any>): Promise<void> {
+  await run(`
+    BEGIN TRANSACTION;
+    ${statements.join(';\n')};
+    COMMIT TRANSACTION;
+  `, params);
+}
+
+// Insert of a publisher row from @row_* parameters (see rowParams)
+function insertPublisherStatement(): string {
+  return `
+    INSERT INTO ${fq('publishers')}
+      (publisher_id, service, site_id, domain_root, display_name, first_seen_at, last_seen_at)
+    VALUES (@row_publisher_id, @row_service, @row_site_id, @row_domain_root, @row_display_name,
+      TIMESTAMP(@row_first_seen_at), TIMESTAMP(@row_last_seen_at))
+  `;
+}
+
+function rowParams(row: PublisherRow): Record<string, any> {
+  return Object.fromEntries(Object.entries(row).map(([key, value]) => [`row_${key}`, value]));
+}
+
+async function messageIdsFor(publisherId: string): Promise<string[]> {
+  const rows = await run(`
+    SELECT DISTINCT gmail_message_id
+    FROM ${fq('chunks')}
+    WHERE publisher_id = @publisherId AND gmail_message_id IS NOT NULL
+  `, { publisherId });
+  return rows.map((r) => r.gmail_message_id);
+}
+
+function auditRow(
+  action: PublisherAuditAction,
+  publisherId: string,
+  otherId: string | null,
+  detail: object,
+  ctx: AdminContext
+): PublisherAuditRow {
+  return {
+    audit_id: uuidv4(),
+    action,
+    publisher_id: publisherId,
+    other_publisher_id: otherId,
+    detail: JSON.stringify(detail),
+    actor: ctx.actor,
+    reason: ctx.reason || null,
+    created_at: new Date().toISOString(),
+    reverted_at: null,
+    reverted_by: null,
+  };
+}
+
+// Insert of an audit row from @audit_* parameters (see auditParams)
+function insertAuditStatement(): string {
+  return `
+    INSERT INTO ${fq('publisher_audit')}
+      (audit_id, action, publisher_id, other_publisher_id, detail, actor, reason, created_at)
+    VALUES (@audit_audit_id, @audit_action, @audit_publisher_id, @audit_other_publisher_id,
+      @audit_detail, @audit_actor, @audit_reason, TIMESTAMP(@audit_created_at))
+  `;
+}
+
+function auditParams(row: PublisherAuditRow): Record<string, any> {
+  const { reverted_at: _revertedAt, reverted_by: _revertedBy, ...fields } = row;
+  return Object.fromEntries(Object.entries(fields).map(([key, value]) => [`audit_${key}`, value]));
+}
+
+// ===== OPERATIONS =====
+
+/**
+ * Fold mergedId into survivorId: its key and aliases move to the survivor and
+ * its chunks are re-tagged
+ */
+export async function mergePublisher(survivorId: string, mergedId: string, ctx: AdminContext): Promise<PublisherAuditRow> {
+  if (survivorId === mergedId) {
+    throw new Error('Cannot merge a publisher into itself');
+  }
+  const survivor = await getPublisher(survivorId);
+  const merged = await getPublisher(mergedId);
+  const mergedAliases = await run(`
+    SELECT alias_service, alias_site_id, publisher_id
+    FROM ${fq('publisher_aliases')}
+    WHERE publisher_id = @mergedId
+  `, { mergedId }) as PublisherAliasRow[];
+
+  const detail: MergeDetail = {
+    merged,
+    mergedAliases,
+    survivorSeen: { first_seen_at: survivor.first_seen_at, last_seen_at: survivor.last_seen_at },
+    messageIds: await messageIdsFor(mergedId),
+  };
+
+  const audit = auditRow('merge', survivorId, mergedId, detail, ctx);
+  await transaction(
+    [...mergeStatements(fq), insertAuditStatement()],
+    { survivorId, mergedIds: [mergedId], ...auditParams(audit) }
+  );
+  return audit;
+}
+
+/**
+ * Move one alias key out of its publisher into a new publisher of its own.
+ * Messages whose most specific known key is that alias move with it.
+ */
+export async function splitAlias(
+  service: string,
+  siteId: string,
+  ctx: AdminContext & { displayName?: string | null }
+): Promise<PublisherAuditRow> {
+  const aliases = await run(`
+    SELECT alias_service, alias_site_id, publisher_id
+    FROM ${fq('publisher_aliases')}
+    WHERE alias_service = @service AND alias_site_id = @siteId
+  `, { service, siteId: siteId.toLowerCase() }) as PublisherAliasRow[];
+  if (aliases.length === 0) {
+    throw new Error(`No alias ${service}:${siteId} (a publisher's primary key cannot be split out)`);
+  }
+  const alias = aliases[0];
+  const source = await getPublisher(alias.publisher_id);
+
+  // Keys staying with the source decide which messages stay
+  const remaining = new Set(
+    (await run(`
+      SELECT CONCAT(alias_service, ':', alias_site_id) AS k
+      FROM ${fq('publisher_aliases')}
+      WHERE publisher_id = @sourceId
+    `, { sourceId: source.publisher_id })).map((r) => r.k)
+  );
+  remaining.add(`${source.service}:${source.site_id.toLowerCase()}`);
+  const splitKey = `${service}:${siteId.toLowerCase()}`;
+  remaining.delete(splitKey);
+
+  const senders = await run(`
+    SELECT gmail_message_id,
+      ANY_VALUE(from_email) AS from_email,
+      ANY_VALUE(from_name) AS from_name,
+      ANY_VALUE(reply_to) AS reply_to,
+      ANY_VALUE(list_id) AS list_id
+    FROM ${fq('raw_emails')}
+    WHERE gmail_message_id IN (
+      SELECT DISTINCT gmail_message_id FROM ${fq('chunks')} WHERE publisher_id = @sourceId
+    )
+    GROUP BY gmail_message_id
+  `, { sourceId: source.publisher_id }) as Array<SenderFields & { gmail_message_id: string }>;
+
+  const messageIds = senders
+    .filter((sender) => {
+      const first = publisherKeys(sender)
+        .map((k) => `${k.service}:${k.siteId.toLowerCase()}`)
+        .find((k) => k === splitKey || remaining.has(k));
+      return first === splitKey;
+    })
+    .map((s) => s.gmail_message_id);
+
+  const now = new Date().toISOString();
+  const created: PublisherRow = {
+    publisher_id: uuidv4(),
+    service,
+    site_id: siteId.toLowerCase(),
+    domain_root: service === 'domain' ? siteId.toLowerCase() : source.domain_root,
+    display_name: ctx.displayName || siteId,
+    first_seen_at: now,
+    last_seen_at: now,
+  };
+
+  const detail: SplitDetail = { alias, created, messageIds };
+  const audit = auditRow('split', source.publisher_id, created.publisher_id, detail, ctx);
+  const statements = [
+    insertPublisherStatement(),
+    `DELETE FROM ${fq('publisher_aliases')}
+    WHERE alias_service = @service AND alias_site_id = @siteId AND publisher_id = @sourceId`,
+  ];
+  const params: Record<string, any> = {
+    ...rowParams(created),
+    ...auditParams(audit),
+    service,
+    siteId: siteId.toLowerCase(),
+    sourceId: source.publisher_id,
+  };
+  // Empty array parameters need an explicit type, so the UPDATE is left out instead
+  if (messageIds.length > 0) {
+    statements.push(`UPDATE ${fq('chunks')} SET publisher_id = @newId
+    WHERE publisher_id = @sourceId AND gmail_message_id IN UNNEST(@messageIds)`);
+    Object.assign(params, { newId: created.publisher_id, messageIds });
+  }
+  statements.push(insertAuditStatement());
+
+  await transaction(statements, params);
+  return audit;
+}
+
+/**
+ * Change a publisher's display name
+ */
+export async function renamePublisher(publisherId: string, displayName: string, ctx: AdminContext): Promise<PublisherAuditRow> {
+  const name = displayName.trim();
+  if (!name) {
+    throw new Error('Display name must be non-empty');
+  }
+  const publisher = await getPublisher(publisherId);
+  const detail: RenameDetail = { before: publisher.display_name, after: name };
+  const audit = auditRow('rename', publisherId, null, detail, ctx);
+  await transaction([
+    `UPDATE ${fq('publishers')} SET display_name = @name WHERE publisher_id = @publisherId`,
+    insertAuditStatement(),
+  ], { name, publisherId, ...auditParams(audit) });
+  return audit;
+}
+
+/**
+ * Undo a merge, split or rename recorded in publisher_audit
+ */
+export async function revertChange(auditId: string, ctx: AdminContext): Promise<PublisherAuditRow> {
+  const rows = await run(`
+    SELECT audit_id, action, publisher_id, other_publisher_id, detail, reverted_at
+    FROM ${fq('publisher_audit')}
+    WHERE audit_id = @auditId
+  `, { auditId });
+  if (rows.length === 0) {
+    throw new Error(`Unknown audit entry: ${auditId}`);
+  }
+  const entry = rows[0];
+  if (entry.reverted_at) {
+    throw new Error(`Audit entry ${auditId} was already reverted`);
+  }
+
+  const revert = auditRow('revert', entry.publisher_id, auditId, { reverted: entry.action }, ctx);
+  const statements: string[] = [];
+  const params: Record<string, any> = { ...auditParams(revert), auditId };
+
+  if (entry.action === 'merge') {
+    const detail = JSON.parse(entry.detail) as MergeDetail;
+    const mergedKeys = detail.mergedAliases.map((a) => `${a.alias_service}:${a.alias_site_id}`);
+    Object.assign(params, rowParams(detail.merged), {
+      survivorId: entry.publisher_id,
+      mergedId: detail.merged.publisher_id,
+      service: detail.merged.service,
+      siteId: detail.merged.site_id.toLowerCase(),
+      firstSeen: detail.survivorSeen.first_seen_at,
+      lastSeen: detail.survivorSeen.last_seen_at,
+    });
+    statements.push(
+      insertPublisherStatement(),
+      `DELETE FROM ${fq('publisher_aliases')}
+      WHERE publisher_id = @survivorId AND alias_service = @service AND alias_site_id = @siteId`
+    );
+    if (mergedKeys.length > 0) {
+      statements.push(`UPDATE ${fq('publisher_aliases')} SET publisher_id = @mergedId
+        WHERE publisher_id = @survivorId AND CONCAT(alias_service, ':', alias_site_id) IN UNNEST(@mergedKeys)`);
+      params.mergedKeys = mergedKeys;
+    }
+    if (detail.messageIds.length > 0) {
+      statements.push(`UPDATE ${fq('chunks')} SET publisher_id = @mergedId
+        WHERE publisher_id = @survivorId AND gmail_message_id IN UNNEST(@messageIds)`);
+      params.messageIds = detail.messageIds;
+    }
+    statements.push(`UPDATE ${fq('publishers')}
+      SET first_seen_at = TIMESTAMP(@firstSeen), last_seen_at = TIMESTAMP(@lastSeen)
+      WHERE publisher_id = @survivorId`);
+  } else if (entry.action === 'split') {
+    const detail = JSON.parse(entry.detail) as SplitDetail;
+    Object.assign(params, {
+      sourceId: entry.publisher_id,
+      newId: entry.other_publisher_id,
+      service: detail.alias.alias_service,
+      siteId: detail.alias.alias_site_id,
+    });
+    // The split-out publisher may have gained aliases and chunks since; all go back
+    statements.push(
+      `UPDATE ${fq('publisher_aliases')} SET publisher_id = @sourceId WHERE publisher_id = @newId`,
+      `INSERT INTO ${fq('publisher_aliases')} (alias_service, alias_site_id, publisher_id)
+      VALUES (@service, @siteId, @sourceId)`,
+      `UPDATE ${fq('chunks')} SET publisher_id = @sourceId WHERE publisher_id = @newId`,
+      `DELETE FROM ${fq('publishers')} WHERE publisher_id = @newId`
+    );
+  } else if (entry.action === 'rename') {
+    const detail = JSON.parse(entry.detail) as RenameDetail;
+    Object.assign(params, { name: detail.before, publisherId: entry.publisher_id });
+    statements.push(`UPDATE ${fq('publishers')} SET display_name = @name WHERE publisher_id = @publisherId`);
+  } else {
+    throw new Error(`Cannot revert a ${entry.action} entry`);
+  }
+
+  statements.push(
+    insertAuditStatement(),
+    `UPDATE ${fq('publisher_audit')}
+    SET reverted_at = TIMESTAMP(@audit_created_at), reverted_by = @audit_audit_id
+    WHERE audit_id = @auditId`
+  );
+  await transaction(statements, params);
+  return revert;
+}
+
+/**
+ * Recent audit entries, newest first, optionally for one publisher
+ */
+export async function listAudit(options: { publisherId?: string; limit?: number } = {}): Promise<PublisherAuditRow[]> {
+  const rows = await run(`
+    SELECT audit_id, action, publisher_id, other_publisher_id, detail, actor, reason,
+      CAST(created_at AS STRING) AS created_at,
+      CAST(reverted_at AS STRING) AS reverted_at,
+      reverted_by
+    FROM ${fq('publisher_audit')}
+    WHERE @publisherId IS NULL OR publisher_id = @publisherId OR other_publisher_id = @publisherId
+    ORDER BY created_at DESC
+    LIMIT @limit
+  `, { publisherId: options.publisherId || null, limit: options.limit || 50 });
+  return rows as PublisherAuditRow[];
+}
@@ -1,8 +1,586 @@
 /**
  * Publisher canonicalization module
+ *
+ * A publisher is identified by (service, site_id) keys derived from a
+ * message's sender headers. publisherCanonical turns From / List-Id /
+ * Reply-To into a primary key (substack:observingjapan, beehiiv:morningbrew,
+ * ghost:someblog, domain:example.com, email:someone@gmail.com), the alias keys
+ * the same sender can also show up under, and a display name. The publishers
+ * table holds each publisher's primary key; publisher_aliases maps every
+ * other key seen for it to the same publisher_id.
+ *
+ * syncPublishers applies that to the tables: unknown senders get a publisher
+ * and aliases, known ones pick up any new aliases, and when one sender's keys
+ * point at two publishers those are merged into one.
  */
 
-export function publisherCanonical(_: any): any {
-  throw new Error('publisherCanonical not implemented yet');
+import { v4 as uuidv4 } from 'uuid';
+import { getBigQuery } from '../bq/client';
+import { cfg } from '../lib/config';
+
+// ===== TYPES =====
+
+export interface PublisherKey {
+  service: string;   // 'substack' | 'beehiiv' | 'ghost' | 'list' | 'domain' | 'email'
+  siteId: string;
+}
+
+export interface SenderFields {
+  from_email: string | null;
+  list_id: string | null;
+  from_name?: string | null;
+  reply_to?: string | null;
+}
+
+export interface CanonicalPublisher {
+  key: PublisherKey;          // Primary identity
+  aliases: PublisherKey[];    // Other keys that identify the same publisher
+  domainRoot: string | null;
+  displayName: string;
+}
+
+export interface PublisherRow {
+  publisher_id: string;
+  service: string;
+  site_id: string;
+  domain_root: string | null;
+  display_name: string | null;
+  first_seen_at: string | null;
+  last_seen_at: string | null;
+}
+
+export interface PublisherAliasRow {
+  alias_service: string;
+  alias_site_id: string;
+  publisher_id: string;
+}
+
+export interface PublisherResolver {
+  /** publisher_id for a sender, or null when no key is known yet */
+  resolve(sender: SenderFields): string | null;
+}
+
+export interface PublisherSnapshot {
+  publishers: PublisherRow[];
+  aliases: PublisherAliasRow[];
+  blocks?: Array<[string, string]>;  // Publisher pairs an admin split apart; never auto-merged
+}
+
+/**
+ * Storage for publishers/publisher_aliases; the BigQuery implementation is
+ * below, the fixture check swaps in an in-memory one
+ */
+export interface PublisherStore {
+  load(): Promise<PublisherSnapshot>;
+  insertPublishers(rows: PublisherRow[]): Promise<void>;
+  insertAliases(rows: PublisherAliasRow[]): Promise<void>;
+  touchPublishers(ids: string[], seenAt: string): Promise<void>;
+  mergePublishers(survivorId: string, mergedIds: string[]): Promise<void>;
+}
+
+export interface PublisherSyncReport {
+  senders: number;
+  created: number;
+  aliasesAdded: number;
+  merges: Array<{ survivor: string; merged: string[] }>;
+  failedMerges: Array<{ survivor: string; merged: string[]; error: string }>;  // Retried only when a sender links the pair again
+  idsByKey: Map<string, string>;  // keyString -> publisher_id after the sync
+}
+
+// ===== KEYS =====
+
+// Mailbox providers: the address is the identity, the domain says nothing
+const MAILBOX_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'outlook.com', 'hotmail.com', 'live.com',
+  'yahoo.com', 'icloud.com', 'me.com', 'proton.me', 'protonmail.com', 'aol.com',
+]);
+
+// Sending infrastructure shared by unrelated publishers
+const SHARED_SENDER_DOMAINS = new Set([
+  'substack.com', 'beehiiv.com', 'ghost.io', 'mailchimp.com', 'mcsv.net', 'mcdlv.net',
+  'convertkit.com', 'ck.page', 'buttondown.email', 'sendgrid.net', 'mailgun.org',
+  'amazonses.com', 'campaign-archive.com', 'list-manage.com',
+]);
+
+// Platform sender/list hosts and how to read the publication's site id
+const PLATFORMS: Array<{ service: string; root: string }> = [
+  { service: 'substack', root: 'substack.com' },
+  { service: 'beehiiv', root: 'beehiiv.com' },
+  { service: 'ghost', root: 'ghost.io' },
+];
+
+// Local parts that name a mailbox rather than a publication
+const GENERIC_LOCAL_PARTS = new Set([
+  'no-reply', 'noreply', 'reply', 'hello', 'hi', 'news', 'newsletter', 'mail',
+  'info', 'team', 'support', 'notifications', 'bounce',
+]);
+
+/**
+ * Registrable root of a host: "news.example.co.uk" -> "example.co.uk"
+ */
+export function domainRoot(host: string): string {
+  const labels = host.toLowerCase().replace(/\.$/, '').split('.');
+  if (labels.length <= 2) return labels.join('.');
+  const secondLevel = labels[labels.length - 2];
+  const tld = labels[labels.length - 1];
+  const take = tld.length === 2 && ['co', 'com', 'org', 'net', 'ac', 'gov'].includes(secondLevel) ? 3 : 2;
+  return labels.slice(-take).join('.');
 }
 
+interface ParsedAddress {
+  local: string;       // Without +suffix
+  suffix: string | null;
+  host: string;
+  address: string;     // local@host, lowercased, without +suffix
+}
+
+function parseAddress(raw: string | null | undefined): ParsedAddress | null {
+  if (!raw) return null;
+  const bracketed = raw.match(/<([^>]+)>/);
+  const value = (bracketed ? bracketed[1] : raw).trim().toLowerCase();
+  const match = value.match(/^([^@\s<>"]+)@([^@\s<>"]+\.[a-z0-9-]+)$/);
+  if (!match) return null;
+  const [fullLocal, host] = [match[1], match[2]];
+  const plus = fullLocal.indexOf('+');
+  const local = plus > 0 ? fullLocal.slice(0, plus) : fullLocal;
+  return { local, suffix: plus > 0 ? fullLocal.slice(plus + 1) : null, host, address: `${local}@${host}` };
+}
+
+interface ParsedListId {
+  phrase: string | null;   // "Observing Japan" in "Observing Japan <observingjapan.substack.com>"
+  id: string;
+}
+
+function parseListId(raw: string | null | undefined): ParsedListId | null {
+  if (!raw) return null;
+  const bracketed = raw.match(/^(.*?)<([^>]+)>\s*$/);
+  const id = (bracketed ? bracketed[2] : raw).trim().toLowerCase();
+  if (!id) return null;
+  const phrase = bracketed ? cleanName(bracketed[1]) : null;
+  return { phrase: phrase || null, id };
+}
+
+/**
+ * Platform key for a host like "observingjapan.substack.com" or
+ * "mail.beehiiv.com" (site id from the local part, see platformFromAddress)
+ */
+function platformFromHost(host: string): PublisherKey | null {
+  for (const platform of PLATFORMS) {
+    if (host === platform.root || !host.endsWith(`.${platform.root}`)) continue;
+    const sub = host.slice(0, -(platform.root.length + 1)).split('.');
+    const siteId = sub[sub.length - 1];
+    if (siteId && siteId !== 'mail' && siteId !== 'email') {
+      return { service: platform.service, siteId };
+    }
+  }
+  return null;
+}
+
+/**
+ * Platform key for a sender address: name@substack.com, name@mail.beehiiv.com,
+ * noreply@name.ghost.io. Subaddress suffixes (name+section@substack.com) are
+ * sections of the same publication and are dropped.
+ */
+function platformFromAddress(addr: ParsedAddress): PublisherKey | null {
+  const fromHost = platformFromHost(addr.host);
+  if (fromHost) return fromHost;
+  for (const platform of PLATFORMS) {
+    const onPlatform = addr.host === platform.root || addr.host.endsWith(`.${platform.root}`);
+    if (onPlatform && !GENERIC_LOCAL_PARTS.has(addr.local)) {
+      return { service: platform.service, siteId: addr.local };
+    }
+  }
+  return null;
+}
+
+function cleanName(raw: string | null | undefined): string {
+  return (raw || '')
+    .replace(/^["'\s]+|["'\s]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Display name: a List-Id phrase names the publication itself; From names
+ * often name the writer ("Tobias Harris from Observing Japan"), so take the
+ * part after " from " when present.
+ */
+function displayNameFor(sender: SenderFields, list: ParsedListId | null, key: PublisherKey): string {
+  if (list?.phrase && !list.phrase.includes('@')) return list.phrase;
+  const fromName = cleanName(sender.from_name);
+  if (fromName && !fromName.includes('@')) {
+    const from = fromName.match(/^.+?\s+from\s+(.+)$/i);
+    return from ? cleanName(from[1]) : fromName;
+  }
+  return key.siteId;
+}
+
+const keyString = (service: string, siteId: string) => `${service}:${siteId.toLowerCase()}`;
+
+function pushKey(keys: PublisherKey[], key: PublisherKey | null): void {
+  if (key && !keys.some((k) => k.service === key.service && k.siteId === key.siteId)) {
+    keys.push(key);
+  }
+}
+
+/**
+ * Deterministic identity for a sender. Precedence for the primary key:
+ * platform publication (from List-Id, then From, then Reply-To), then the
+ * List-Id itself, then the sender's root domain, then the bare address for
+ * mailbox providers.
+ */
+export function publisherCanonical(sender: SenderFields): CanonicalPublisher | null {
+  const from = parseAddress(sender.from_email);
+  const replyTo = parseAddress(sender.reply_to);
+  const list = parseListId(sender.list_id);
+
+  const keys: PublisherKey[] = [];
+  pushKey(keys, list ? platformFromHost(list.id) : null);
+  pushKey(keys, from ? platformFromAddress(from) : null);
+  pushKey(keys, replyTo ? platformFromAddress(replyTo) : null);
+  if (list) pushKey(keys, { service: 'list', siteId: list.id });
+
+  let fromRoot: string | null = null;
+  if (from) {
+    const root = domainRoot(from.host);
+    if (!MAILBOX_DOMAINS.has(root) && !SHARED_SENDER_DOMAINS.has(root)) {
+      fromRoot = root;
+      pushKey(keys, { service: 'domain', siteId: root });
+    }
+    pushKey(keys, { service: 'email', siteId: from.address });
+  }
+
+  if (keys.length === 0) return null;
+
+  // A platform key outranks everything; a list key outranks domain/email
+  const primary = keys[0];
+  return {
+    key: primary,
+    aliases: keys.slice(1),
+    domainRoot: fromRoot,  // The publisher's own domain, never a platform's
+    displayName: displayNameFor(sender, list, primary),
+  };
+}
+
+// Lookup order: the most specific key decides which publisher a sender
+// belongs to, so an address split out of a domain keeps its own publisher
+const KEY_SPECIFICITY: Record<string, number> = { list: 1, email: 2, domain: 3 };
+
+// Keys one sending address or domain shares across every list it sends
+const SHARED_KEY_SERVICES = new Set(['email', 'domain']);
+
+/**
+ * Every key a sender can be looked up by, most specific first (platform
+ * publication, List-Id, address, domain). A sender with a platform or List-Id
+ * key is looked up by those alone: one domain (or address) often sends
+ * several newsletters, so its other keys say nothing about which one.
+ */
+export function publisherKeys(sender: SenderFields): PublisherKey[] {
+  const canonical = publisherCanonical(sender);
+  if (!canonical) return [];
+  const keys = [canonical.key, ...canonical.aliases];
+  const publication = keys.filter((key) => !SHARED_KEY_SERVICES.has(key.service));
+  return (publication.length > 0 ? publication : keys)
+    .map((key, i) => ({ key, rank: KEY_SPECIFICITY[key.service] ?? 0, i }))
+    .sort((a, b) => a.rank - b.rank || a.i - b.i)
+    .map((k) => k.key);
+}
+
+// ===== RESOLUTION =====
+
+/**
+ * Resolver over an in-memory key -> publisher_id map
+ */
+export function createPublisherResolver(idsByKey: Map<string, string>): PublisherResolver {
+  return {
+    resolve(sender) {
+      for (const key of publisherKeys(sender)) {
+        const id = idsByKey.get(keyString(key.service, key.siteId));
+        if (id) return id;
+      }
+      return null;
+    },
+  };
+}
+
+/**
+ * key -> publisher_id from table contents. Aliases win over a publisher's own
+ * key so a merged publisher's key points at the survivor.
+ */
+function indexKeys(publishers: PublisherRow[], aliases: PublisherAliasRow[]): Map<string, string> {
+  const idsByKey = new Map<string, string>();
+  for (const p of publishers) {
+    if (p.service && p.site_id) idsByKey.set(keyString(p.service, p.site_id), p.publisher_id);
+  }
+  for (const a of aliases) {
+    if (a.alias_service && a.alias_site_id) idsByKey.set(keyString(a.alias_service, a.alias_site_id), a.publisher_id);
+  }
+  return idsByKey;
+}
+
+/**
+ * Load publishers and publisher_aliases into a resolver
+ */
+export async function loadPublisherResolver(
+  store: PublisherStore = createBigQueryPublisherStore()
+): Promise<PublisherResolver> {
+  const { publishers, aliases } = await store.load();
+  return createPublisherResolver(indexKeys(publishers, aliases));
+}
+
+// ===== SYNC =====
+
+/**
+ * Make sure every sender has a publisher: create missing publishers and
+ * aliases, and merge publishers that turn out to be the same sender. The
+ * survivor of a merge is the publisher owning the primary key, else the
+ * earliest seen. Pairs in snapshot.blocks are never merged, and a key owned
+ * by another publisher is never re-pointed. A merge that fails is reported
+ * in failedMerges and nothing else records it: it is retried only by a sync
+ * that sees a sender linking the pair again, so callers surface the failures
+ * and syncAllPublishers (which sees every sender) retries them all. Senders
+ * still resolve to the survivor meanwhile.
+ */
+export async function syncPublishers(
+  store: PublisherStore,
+  senders: SenderFields[],
+  seenAt: string = new Date().toISOString()
+): Promise<PublisherSyncReport> {
+  const { publishers, aliases, blocks = [] } = await store.load();
+  const byId = new Map(publishers.map((p) => [p.publisher_id, p]));
+  const idsByKey = indexKeys(publishers, aliases);
+  const blocked = new Set(blocks.flatMap(([a, b]) => [`${a}|${b}`, `${b}|${a}`]));
+
+  const report: PublisherSyncReport = { senders: senders.length, created: 0, aliasesAdded: 0, merges: [], failedMerges: [], idsByKey };
+  const newPublishers: PublisherRow[] = [];
+  const newAliases: PublisherAliasRow[] = [];
+  const touched = new Set<string>();
+  const mergedInto = new Map<string, string>();
+  const live = (id: string) => {
+    while (mergedInto.has(id)) id = mergedInto.get(id)!;
+    return id;
+  };
+
+  for (const sender of senders) {
+    const canonical = publisherCanonical(sender);
+    if (!canonical) continue;
+    const allKeys = [canonical.key, ...canonical.aliases];
+
+    // Publishers this sender's lookup keys already point at, most specific
+    // first; a sender whose List-Id or platform key is new gets its own
+    const found: string[] = [];
+    for (const key of publisherKeys(sender)) {
+      const id = idsByKey.get(keyString(key.service, key.siteId));
+      if (id && !found.includes(live(id))) found.push(live(id));
+    }
+
+    let publisherId: string;
+    if (found.length === 0) {
+      publisherId = uuidv4();
+      const row: PublisherRow = {
+        publisher_id: publisherId,
+        service: canonical.key.service,
+        site_id: canonical.key.siteId,
+        domain_root: canonical.domainRoot,
+        display_name: canonical.displayName,
+        first_seen_at: seenAt,
+        last_seen_at: seenAt,
+      };
+      newPublishers.push(row);
+      byId.set(publisherId, row);
+      idsByKey.set(keyString(canonical.key.service, canonical.key.siteId), publisherId);
+      report.created++;
+    } else {
+      const candidates = found.filter((id) => id === found[0] || !blocked.has(`${found[0]}|${id}`));
+      const primaryOwner = idsByKey.get(keyString(canonical.key.service, canonical.key.siteId));
+      publisherId = primaryOwner && candidates.includes(live(primaryOwner))
+        ? live(primaryOwner)
+        : [...candidates].sort((a, b) => (byId.get(a)?.first_seen_at || '').localeCompare(byId.get(b)?.first_seen_at || ''))[0];
+
+      const merged = candidates.filter((id) => id !== publisherId);
+      if (merged.length > 0) {
+        for (const id of merged) mergedInto.set(id, publisherId);
+        report.merges.push({ survivor: publisherId, merged });
+      }
+      touched.add(publisherId);
+    }
+
+    // Keys nobody owns yet become aliases of this publisher; keys of merged
+    // publishers follow them in mergePublishers
+    for (const key of allKeys) {
+      const k = keyString(key.service, key.siteId);
+      if (idsByKey.has(k)) continue;
+      idsByKey.set(k, publisherId);
+      newAliases.push({ alias_service: key.service, alias_site_id: key.siteId.toLowerCase(), publisher_id: publisherId });
+      report.aliasesAdded++;
+    }
+  }
+
+  // New publishers first so a merge can land on one; a new publisher that was
+  // itself merged away is never written, its key becomes an alias instead
+  const createdIds = new Set(newPublishers.map((p) => p.publisher_id));
+  const failed = new Set<{ survivor: string; merged: string[] }>();
+  await store.insertPublishers(newPublishers.filter((p) => !mergedInto.has(p.publisher_id)));
+  for (const merge of report.merges) {
+    const existing = merge.merged.filter((id) => !createdIds.has(id));
+    if (existing.length === 0) continue;
+    try {
+      await store.mergePublishers(live(merge.survivor), existing);
+    } catch (err: any) {
+      console.warn(`⚠️  Merge of ${existing.join(', ')} into ${live(merge.survivor)} failed, retrying on the next sync: ${err.message}`);
+      report.failedMerges.push({ survivor: live(merge.survivor), merged: existing, error: err.message });
+      failed.add(merge);
+    }
+  }
+  report.merges = report.merges.filter((merge) => !failed.has(merge));
+  for (const p of newPublishers) {
+    if (mergedInto.has(p.publisher_id)) {
+      newAliases.push({ alias_service: p.service, alias_site_id: p.site_id.toLowerCase(), publisher_id: p.publisher_id });
+    }
+  }
+  await store.insertAliases(newAliases.map((a) => ({ ...a, publisher_id: live(a.publisher_id) })));
+  await store.touchPublishers(Array.from(touched).filter((id) => !createdIds.has(id) && !mergedInto.has(id)), seenAt);
+
+  for (const [key, id] of idsByKey) idsByKey.set(key, live(id));
+  return report;
+}
+
+/**
+ * Resolver over the keys as they stand after a sync, without reloading
+ */
+export function resolverFromSync(report: PublisherSyncReport): PublisherResolver {
+  return createPublisherResolver(report.idsByKey);
+}
+
+/**
+ * Re-run the sync over every distinct sender in raw_emails. Creates
+ * publishers that chunking never got to, merges duplicates that older
+ * rules split apart and retries merges that failed in earlier syncs.
+ */
+export async function syncAllPublishers(
+  store: PublisherStore = createBigQueryPublisherStore()
+): Promise<PublisherSyncReport> {
+  const [rows] = await getBigQuery().query({
+    query: `
+      SELECT from_email, list_id,
+        ANY_VALUE(from_name) AS from_name,
+        ANY_VALUE(reply_to) AS reply_to
+      FROM \`${cfg.projectId}.${cfg.dataset}.raw_emails\`
+      WHERE from_email IS NOT NULL OR list_id IS NOT NULL
+      GROUP BY from_email, list_id
+    `,
+    location: cfg.location,
+  });
+  return syncPublishers(store, rows as SenderFields[]);
+}
+
+// ===== ADAPTERS =====
+
+/**
+ * DML folding @mergedIds into @survivorId, in order; the caller wraps them in
+ * a transaction (publisher-admin adds its audit row to the same one)
+ */
+export function mergeStatements(fq: (name: string) => string): string[] {
+  return [
+    // Merged publishers' own keys become aliases of the survivor
+    `INSERT INTO ${fq('publisher_aliases')} (alias_service, alias_site_id, publisher_id)
+        SELECT service, LOWER(site_id), @survivorId
+        FROM ${fq('publishers')}
+        WHERE publisher_id IN UNNEST(@mergedIds)`,
+    `UPDATE ${fq('publisher_aliases')} SET publisher_id = @survivorId
+        WHERE publisher_id IN UNNEST(@mergedIds)`,
+    `UPDATE ${fq('publishers')} s
+        SET first_seen_at = LEAST(s.first_seen_at, m.first_seen_at),
+            last_seen_at = GREATEST(s.last_seen_at, m.last_seen_at)
+        FROM (
+          SELECT MIN(first_seen_at) AS first_seen_at, MAX(last_seen_at) AS last_seen_at
+          FROM ${fq('publishers')}
+          WHERE publisher_id IN UNNEST(@mergedIds)
+        ) m
+        WHERE s.publisher_id = @survivorId`,
+    `UPDATE ${fq('chunks')} SET publisher_id = @survivorId
+        WHERE publisher_id IN UNNEST(@mergedIds)`,
+    `DELETE FROM ${fq('publishers')} WHERE publisher_id IN UNNEST(@mergedIds)`,
+  ];
+}
+
+export function createBigQueryPublisherStore(
+  projectId = cfg.projectId,
+  dataset = cfg.dataset,
+  location = cfg.location
+): PublisherStore {
+  const bq = getBigQuery();
+  const fq = (name: string) => `\`${projectId}.${dataset}.${name}\``;
+  const run = (query: string, params?: Record<string, any>) => bq.query({ query, params, location });
+
+  return {
+    async load() {
+      const [[publishers], [aliases]] = await Promise.all([
+        run(`
+          SELECT publisher_id, service, site_id, domain_root, display_name,
+            CAST(first_seen_at AS STRING) AS first_seen_at,
+            CAST(last_seen_at AS STRING) AS last_seen_at
+          FROM ${fq('publishers')}
+        `),
+        run(`
+          SELECT alias_service, alias_site_id, publisher_id
+          FROM ${fq('publisher_aliases')}
+        `),
+      ]);
+      // Splits recorded by publisher-admin keep the two halves apart
+      const [splits] = await run(`
+        SELECT publisher_id, other_publisher_id
+        FROM ${fq('publisher_audit')}
+        WHERE action = 'split' AND reverted_at IS NULL
+      `).catch((err: any) => {
+        if (String(err?.message).includes('Not found')) return [[]];  // Dataset predates the audit table
+        throw err;
+      });
+      return {
+        publishers: publishers as PublisherRow[],
+        aliases: aliases as PublisherAliasRow[],
+        blocks: (splits as any[]).map((r): [string, string] => [r.publisher_id, r.other_publisher_id]),
+      };
+    },
+
+    // DML inserts (not streaming) so merges can update these rows right away
+    async insertPublishers(rows) {
+      if (rows.length === 0) return;
+      await run(`
+        INSERT INTO ${fq('publishers')}
+          (publisher_id, service, site_id, domain_root, display_name, first_seen_at, last_seen_at)
+        SELECT publisher_id, service, site_id, domain_root, display_name,
+          TIMESTAMP(first_seen_at), TIMESTAMP(last_seen_at)
+        FROM UNNEST(@rows)
+      `, { rows });
+    },
+
+    async insertAliases(rows) {
+      if (rows.length === 0) return;
+      await run(`
+        INSERT INTO ${fq('publisher_aliases')} (alias_service, alias_site_id, publisher_id)
+        SELECT alias_service, alias_site_id, publisher_id FROM UNNEST(@rows)
+      `, { rows });
+    },
+
+    async touchPublishers(ids, seenAt) {
+      if (ids.length === 0) return;
+      await run(`
+        UPDATE ${fq('publishers')}
+        SET last_seen_at = GREATEST(IFNULL(last_seen_at, TIMESTAMP(@seenAt)), TIMESTAMP(@seenAt))
+        WHERE publisher_id IN UNNEST(@ids)
+      `, { ids, seenAt });
+    },
+
+    // One transaction, so a failure leaves nothing half-merged. Chunks still
+    // in the streaming buffer reject the UPDATE and roll the merge back;
+    // syncPublishers retries it on a later run once the buffer has flushed
+    async mergePublishers(survivorId, mergedIds) {
+      await run(`
+        BEGIN TRANSACTION;
+        ${mergeStatements(fq).join(';\n')};
+        COMMIT TRANSACTION;
+      `, { survivorId, mergedIds });
+    },
+  };
+}
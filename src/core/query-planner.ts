@@ -0,0 +1,323 @@
+/**
+ * Query Planner - multi-query decomposition
+ *
+ * One embedding and a top-10 search can't serve "compare how Bloomberg and
+ * Semafor covered the Fed this month": the results come back dominated by
+ * whichever publisher is closest in vector space. The planner splits such a
+ * question into sub-queries, one per facet (entity, publisher or time slice),
+ * each retrieved separately with its own filters, then merges the results
+ * with an equal quota per facet so every side of the comparison is in the
+ * context. The answer is then written facet by facet.
+ *
+ * Only questions that look comparative or multi-part go to the model; the
+ * rest get a single-query plan without an LLM call.
+ */
+
+import { getBigQuery } from '../bq/client';
+import { cfg } from '../lib/config';
+import { LLMProvider, LLMUsage } from '../lib/llm/types';
+import { countSources } from './diversify';
+import { addUsage } from './rag-synthesis';
+import {
+  executeRAGQuery,
+  retrievalWindow,
+  RAGDecision,
+  RAGFilters,
+  RAGQueryOptions,
+  SearchResult,
+  VectorSearchPath,
+} from './rag';
+
+// ===== TYPES =====
+
+export interface SubQuery {
+  facet: string;  // Section heading in the answer, e.g. "Bloomberg" or "March 2025"
+  query: string;  // Standalone search query for this facet
+  filters: Pick<RAGFilters, 'publishers' | 'fromDate' | 'toDate'>;
+}
+
+export interface QueryPlan {
+  strategy: 'single' | 'decomposed';
+  reason: string;
+  subQueries: SubQuery[];
+}
+
+/**
+ * What one sub-query contributed to the merged context
+ */
+export interface FacetRetrieval {
+  facet: string;
+  query: string;
+  filters: SubQuery['filters'];
+  chunks_found: number;
+  chunks_used: number;
+  confidence: RAGDecision['confidence'];
+}
+
+export interface PlannedRetrieval {
+  decision: RAGDecision;                // Over the merged results
+  facets: FacetRetrieval[];
+  chunkFacets: Map<string, string>;     // chunk_id -> facet it was retrieved for
+  chunksFound: number;
+  path: VectorSearchPath;               // brute_force if any sub-query needed it
+}
+
+// At most this many sub-queries, and this many chunks across all of them
+const MAX_SUB_QUERIES = 4;
+const MAX_PLANNED_CHUNKS = 12;
+const MIN_FACET_QUOTA = 2;
+
+// Publishers table rows, for resolving the planner's names
+const PUBLISHER_NAMES_TTL_MS = 10 * 60 * 1000;
+
+// ===== PLANNING =====
+
+// Wording that signals a comparison or several questions in one
+const COMPARATIVE_PATTERN = /\b(compare[ds]?|comparison|comparing|versus|vs\.?|differ(s|ed|ence|ences)?|contrast(ed)?|each of|respectively|on the other hand|side by side)\b/i;
+const PAIRED_NAMES_PATTERN = /\b[A-Z][\w&.-]+(?:\s+[A-Z][\w&.-]+)*\s*(?:,|\band\b|\bor\b)\s*[A-Z][\w&.-]+/;
+const PERIOD_PATTERN = /\b(month over month|year over year|week over week|over time|before and after|then and now)\b/i;
+
+/**
+ * Cheap check for questions worth a planning call
+ */
+export function looksMultiPart(query: string): boolean {
+  const questionMarks = (query.match(/\?/g) || []).length;
+  return COMPARATIVE_PATTERN.test(query)
+    || PERIOD_PATTERN.test(query)
+    || questionMarks > 1
+    || PAIRED_NAMES_PATTERN.test(query.replace(/^\s*\w+/, ''));  // Ignore the capitalized first word
+}
+
+function singlePlan(query: string, reason: string): QueryPlan {
+  return { strategy: 'single', reason, subQueries: [{ facet: query, query, filters: {} }] };
+}
+
+const PLANNER_PROMPT = `You plan searches over an archive of email newsletters.
+Decide whether the question needs several separate searches to answer well: comparisons between
+publishers, entities or time periods, or several distinct questions asked at once.
+
+Return ONLY JSON of the form:
+{"reason": "...", "subQueries": [{"facet": "...", "query": "...", "publishers": ["..."] | null, "fromDate": "YYYY-MM-DD" | null, "toDate": "YYYY-MM-DD" | null}]}
+
+Rules:
+- One sub-query per facet, at most ${MAX_SUB_QUERIES}. Use a single sub-query (the question itself) if no split is needed.
+- facet is a short heading for that part of the answer ("Bloomberg", "Semafor", "Q1 2025").
+- query is a standalone search query for that facet alone, without the other facets in it.
+- publishers: only when the facet is a named publication; use its name as written.
+- fromDate/toDate: only when the facet or the question is limited to a period; resolve relative
+  dates ("this month", "last week") against today's date.`;
+
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+/**
+ * Parse the planner's JSON; null if it isn't a usable plan
+ */
+function parsePlan(content: string): { reason: string; subQueries: SubQuery[] } | null {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content.slice(content.indexOf('{'), content.lastIndexOf('}') + 1));
+  } catch {
+    return null;
+  }
+  if (!parsed || !Array.isArray(parsed.subQueries)) return null;
+
+  const subQueries: SubQuery[] = parsed.subQueries
+    .filter((s: any) => s && typeof s.query === 'string' && s.query.trim().length > 0)
+    .slice(0, MAX_SUB_QUERIES)
+    .map((s: any) => ({
+      facet: typeof s.facet === 'string' && s.facet.trim() ? s.facet.trim() : s.query.trim(),
+      query: s.query.trim(),
+      filters: {
+        publishers: Array.isArray(s.publishers) && s.publishers.length > 0
+          ? s.publishers.filter((p: unknown) => typeof p === 'string' && p.trim())
+          : undefined,
+        fromDate: isDate(s.fromDate) ? s.fromDate : undefined,
+        toDate: isDate(s.toDate) ? s.toDate : undefined,
+      },
+    }));
+  return subQueries.length > 0 ? { reason: String(parsed.reason || ''), subQueries } : null;
+}
+
+/**
+ * Plan retrieval for a question: one sub-query, or one per facet
+ */
+export async function planQuery(
+  query: string,
+  provider: LLMProvider,
+  filters: RAGFilters = {}
+): Promise<{ plan: QueryPlan; usage: LLMUsage | null }> {
+  if (!looksMultiPart(query)) {
+    return { plan: singlePlan(query, 'Single-topic question'), usage: null };
+  }
+
+  // Relative dates resolve against the as-of date when there is one
+  const today = (retrievalWindow(filters).asOf || new Date().toISOString()).slice(0, 10);
+  const response = await provider.generateAnswer({
+    query,
+    context: `Today's date: ${today}`,
+    systemPrompt: PLANNER_PROMPT,
+    temperature: 0,
+    maxOutputTokens: 1024,
+    responseFormat: 'json',
+  });
+
+  const parsed = parsePlan(response.content);
+  if (!parsed) {
+    console.warn('Query planner returned no usable plan; searching the question as asked');
+    return { plan: singlePlan(query, 'Planner output unusable'), usage: response.usage };
+  }
+  if (parsed.subQueries.length === 1) {
+    return { plan: singlePlan(query, parsed.reason || 'No split needed'), usage: response.usage };
+  }
+
+  const subQueries = await resolvePublisherFilters(parsed.subQueries);
+  return { plan: { strategy: 'decomposed', reason: parsed.reason, subQueries }, usage: response.usage };
+}
+
+// ===== PUBLISHER NAMES =====
+
+interface PublisherName {
+  publisher_id: string;
+  display_name: string;
+}
+
+let publisherNamesCache: { publishers: PublisherName[]; loadedAt: number } | null = null;
+
+async function getPublishers(): Promise<PublisherName[]> {
+  if (publisherNamesCache && Date.now() - publisherNamesCache.loadedAt < PUBLISHER_NAMES_TTL_MS) {
+    return publisherNamesCache.publishers;
+  }
+  const projectId = cfg.projectId || getBigQuery().projectId;
+  const [rows] = await getBigQuery().query({
+    query: `
+      SELECT publisher_id, display_name
+      FROM \`${projectId}.${cfg.dataset}.publishers\`
+      WHERE display_name IS NOT NULL
+    `,
+    location: cfg.location,
+  });
+  publisherNamesCache = { publishers: rows as PublisherName[], loadedAt: Date.now() };
+  return publisherNamesCache.publishers;
+}
+
+/**
+ * Publisher filters match display names exactly, and the planner writes
+ * "Bloomberg" for "Bloomberg Markets": swap each name for the display names
+ * containing it. A name matching nothing is dropped from the filter (the
+ * sub-query text still names it) rather than returning no results.
+ */
+async function resolvePublisherFilters(subQueries: SubQuery[]): Promise<SubQuery[]> {
+  if (!subQueries.some(s => s.filters.publishers)) return subQueries;
+
+  const names = Array.from(new Set((await getPublishers()).map(p => p.display_name)));
+  return subQueries.map(sub => {
+    if (!sub.filters.publishers) return sub;
+    const matched = Array.from(new Set(sub.filters.publishers.flatMap(wanted => {
+      const needle = wanted.trim().toLowerCase();
+      return names.filter(name => name.toLowerCase().includes(needle));
+    })));
+    return { ...sub, filters: { ...sub.filters, publishers: matched.length > 0 ? matched : undefined } };
+  });
+}
+
+// ===== RETRIEVAL =====
+
+/**
+ * Each sub-query's publisher filter: the request's narrowed by the facet's,
+ * as the date bounds are, so a facet keeps only the publishers both allow
+ * (the request's matched by publisher_id or display name). null for a facet
+ * whose publishers are all outside the request's filter.
+ */
+async function narrowPublisherFilters(options: RAGQueryOptions, subQueries: SubQuery[]): Promise<Array<string[] | undefined | null>> {
+  const requested = (options.publishers || []).map(p => p.trim().toLowerCase()).filter(Boolean);
+  if (requested.length === 0 || !subQueries.some(s => s.filters.publishers)) {
+    return subQueries.map(sub => sub.filters.publishers ?? options.publishers);
+  }
+
+  const allowed = new Set((await getPublishers())
+    .filter(p => requested.includes(p.publisher_id.toLowerCase()) || requested.includes(p.display_name.toLowerCase()))
+    .map(p => p.display_name.toLowerCase()));
+  return subQueries.map(sub => {
+    if (!sub.filters.publishers) return options.publishers;
+    const both = sub.filters.publishers.filter(name => allowed.has(name.toLowerCase()));
+    return both.length > 0 ? both : null;
+  });
+}
+
+/**
+ * The request's options narrowed by a sub-query's filters
+ */
+function subQueryOptions(options: RAGQueryOptions, sub: SubQuery, publishers: string[] | undefined): RAGQueryOptions {
+  const { fromDate, toDate } = sub.filters;
+  return {
+    ...options,
+    onEvent: undefined,  // Sub-queries run side by side; progress is reported for the whole plan
+    publishers,
+    fromDate: [options.fromDate, fromDate].filter(isDate).sort().pop(),
+    toDate: [options.toDate, toDate].filter(isDate).sort().shift(),
+  };
+}
+
+/**
+ * Retrieve every sub-query of a decomposed plan and merge the results,
+ * taking up to an equal share of MAX_PLANNED_CHUNKS from each facet
+ */
+export async function executePlannedQuery(plan: QueryPlan, options: RAGQueryOptions = {}): Promise<PlannedRetrieval> {
+  // A facet naming only publishers outside the request's filter is dropped
+  const publisherFilters = await narrowPublisherFilters(options, plan.subQueries);
+  const kept = plan.subQueries
+    .map((sub, i) => ({ sub, publishers: publisherFilters[i] }))
+    .filter((k): k is { sub: SubQuery; publishers: string[] | undefined } => k.publishers !== null);
+  const dropped = plan.subQueries.filter((_, i) => publisherFilters[i] === null).map(sub => sub.facet);
+  const subQueries = kept.map(k => k.sub);
+  const results = await Promise.all(kept.map(({ sub, publishers }) => executeRAGQuery(sub.query, subQueryOptions(options, sub, publishers))));
+
+  const quota = Math.max(MIN_FACET_QUOTA, Math.floor(MAX_PLANNED_CHUNKS / Math.max(1, subQueries.length)));
+  const chunkFacets = new Map<string, string>();
+  const merged: SearchResult[] = [];
+  const facets = subQueries.map((sub, i): FacetRetrieval => {
+    const { decision, searchResults } = results[i];
+    // A chunk found by two facets counts for the first
+    const fresh = decision.filteredResults.filter(r => !chunkFacets.has(r.chunk_id)).slice(0, quota);
+    for (const chunk of fresh) {
+      chunkFacets.set(chunk.chunk_id, sub.facet);
+      merged.push(chunk);
+    }
+    return {
+      facet: sub.facet,
+      query: sub.query,
+      filters: sub.filters,
+      chunks_found: searchResults.length,
+      chunks_used: fresh.length,
+      confidence: decision.confidence,
+    };
+  });
+
+  // Answer if any facet cleared the usual bar; gaps in the others are stated in the answer
+  const answered = results.filter(r => r.decision.shouldAnswer);
+  const usages = results.map(r => r.decision.usage).filter((u): u is LLMUsage => !!u);
+  const uncovered = facets.filter(f => f.chunks_used === 0).map(f => f.facet);
+  const decision: RAGDecision = {
+    shouldAnswer: answered.length > 0,
+    confidence: answered.length === 0 ? 'none'
+      : answered.length === results.length && answered.every(r => r.decision.confidence === 'high') ? 'high'
+      : 'medium',
+    reason: `${answered.length} of ${results.length} facets have enough relevant sources`
+      + (uncovered.length > 0 ? ` (none found for: ${uncovered.join(', ')})` : '')
+      + (dropped.length > 0 ? ` (outside the publisher filter: ${dropped.join(', ')})` : ''),
+    usableChunks: merged.length,
+    distinctSources: countSources(merged),
+    filteredResults: merged,
+    usage: usages.length > 0 ? usages.reduce(addUsage) : undefined,
+  };
+
+  return {
+    decision,
+    facets,
+    chunkFacets,
+    chunksFound: results.reduce((sum, r) => sum + r.searchResults.length, 0),
+    path: results.some(r => r.timing.vector_search_path === 'brute_force') ? 'brute_force' : 'vector_index',
+  };
+}
@@ -2,11 +2,59 @@
  * Enhanced RAG Application Logic
  * 
  * Coordinates Phase 1 (Retrieval) and Phase 2 (Generation).
+ *
+ * Two pipelines over the same steps:
+ * - executeRAGWithAnswer: two-stage filter, one cited answer ([n] citations)
+ *   (Express /query)
+ * - executeResearchQuery: hybrid search, fact extraction, synthesis and
+ *   publisher rankings (newsletter-search /api/intelligence/query)
+ *
+ * Given a conversationId, either pipeline answers as the next turn of that
+ * conversation (see conversation.ts): the query is rewritten into a
+ * standalone one for retrieval, earlier turns go to the model as history,
+ * and citation numbers carry over between turns.
+ *
+ * executeRAGWithAnswer also plans comparative and multi-part questions
+ * (query-planner.ts): one search per facet, answered facet by facet.
  */
 
-import { executeRAGQuery, SearchResult, RAGQueryResult } from './rag';
+import {
+  assertWithinWindow,
+  embedQuery,
+  executeRAGQuery,
+  hybridSearch,
+  retrievalWindow,
+  HybridSearchOptions,
+  RAGDecision,
+  SearchResult,
+  RAGQueryResult,
+  RAGQueryOptions,
+  RetrievalWindow,
+  VectorSearchPath,
+} from './rag';
+import {
+  addUsage,
+  asOfInstruction,
+  calculatePublisherRankings,
+  extractFacts,
+  formatCitation,
+  publisherLabel,
+  synthesizeAnswer,
+  ExtractedFact,
+  PublisherRanking,
+} from './rag-synthesis';
+import { diversifyResults, CANDIDATE_MULTIPLIER } from './diversify';
+import { getVerificationMode, verifyCitations, CitationVerification, VerificationMode } from './citation-verifier';
+import { executePlannedQuery, planQuery, FacetRetrieval, QueryPlan } from './query-planner';
+import {
+  citationNumbers,
+  openTurn,
+  recordTurn,
+  ConversationState,
+  ConversationStore,
+} from './conversation';
 import { getLLMProvider } from '../lib/llm/factory';
-import { LLMUsage } from '../lib/llm/types';
+import { LLMProvider, LLMRequest, LLMUsage } from '../lib/llm/types';
 
 export interface Citation {
   chunk_id: string;
@@ -26,24 +74,119 @@ export interface RAGResponse {
   answer: string;
   citations: Citation[];
   confidence: 'high' | 'medium' | 'none';
+  window: RetrievalWindow;  // Sent-date range the answer was drawn from
   usage?: LLMUsage;
   timing: {
     retrieval_ms: number;
     generation_ms: number;
+    verification_ms?: number;
     total_ms: number;
   };
+  conversation?: ConversationInfo;
+  verification?: Omit<CitationVerification, 'answer' | 'usage'>;  // Per-claim support, unless mode is off
   diagnostics?: {
     rag_decision: RAGQueryResult['decision'];
     chunks_found: number;
+    plan?: QueryPlan & { facets?: FacetRetrieval[] };  // facets: per sub-query results, when decomposed
+  };
+}
+
+export interface AnswerOptions extends RAGQueryOptions, ConversationOptions {
+  decompose?: boolean;                  // Default true: split comparative/multi-part questions into sub-queries
+  verifyCitations?: VerificationMode;   // Default: RAG_VERIFY_CITATIONS, else 'flag'
+}
+
+/**
+ * Phase 1 output, from one search or a decomposed plan
+ */
+interface Retrieval {
+  decision: RAGDecision;
+  chunksFound: number;
+  facets?: FacetRetrieval[];           // Decomposed plans only
+  chunkFacets?: Map<string, string>;   // chunk_id -> facet, decomposed plans only
+}
+
+export interface ConversationOptions {
+  conversationId?: string;                 // Answer as the next turn of this conversation
+  conversationStore?: ConversationStore;   // Default: getConversationStore()
+}
+
+export interface ConversationInfo {
+  id: string;
+  turn_index: number;
+  standalone_query: string;  // What retrieval searched for
+}
+
+/**
+ * Load the conversation and rewrite the query, reporting the rewrite as an event
+ */
+async function startTurn(
+  query: string,
+  provider: LLMProvider,
+  options: ConversationOptions & { onEvent?: RAGQueryOptions['onEvent'] }
+): Promise<ConversationState | null> {
+  if (!options.conversationId) return null;
+
+  const start = Date.now();
+  const state = await openTurn(options.conversationId, query, provider, options.conversationStore);
+  if (state.turns.length > 0) {
+    options.onEvent?.({ type: 'rewrite', query: state.standaloneQuery, ms: Date.now() - start });
+  }
+  return state;
+}
+
+function conversationInfo(state: ConversationState): ConversationInfo {
+  return { id: state.conversationId, turn_index: state.turnIndex, standalone_query: state.standaloneQuery };
+}
+
+/**
+ * Citation number for each chunk: positions in this answer, or the
+ * conversation's numbering when there is one
+ */
+function numberChunks(chunkIds: string[], conversation: ConversationState | null): Map<string, number> {
+  return conversation
+    ? citationNumbers(conversation.turns, chunkIds)
+    : new Map(chunkIds.map((id, index) => [id, index + 1]));
+}
+
+function sumUsage(...usages: Array<LLMUsage | null | undefined>): LLMUsage | undefined {
+  const present = usages.filter((u): u is LLMUsage => !!u);
+  return present.length > 0 ? present.reduce(addUsage) : undefined;
+}
+
+async function retrieveSingle(query: string, options: RAGQueryOptions): Promise<Retrieval> {
+  const result = await executeRAGQuery(query, options);
+  return { decision: result.decision, chunksFound: result.searchResults.length };
+}
+
+/**
+ * Sub-queries search side by side, so progress is reported as the plan
+ * and then the merged relevance result
+ */
+async function retrievePlanned(plan: QueryPlan, options: RAGQueryOptions, planMs: number): Promise<Retrieval> {
+  options.onEvent?.({ type: 'plan', facets: plan.subQueries.map(s => s.facet), ms: planMs });
+  const start = Date.now();
+  const planned = await executePlannedQuery(plan, options);
+  options.onEvent?.({
+    type: 'relevance',
+    usableChunks: planned.decision.usableChunks,
+    confidence: planned.decision.confidence,
+    ms: Date.now() - start
+  });
+  return {
+    decision: planned.decision,
+    chunksFound: planned.chunksFound,
+    facets: planned.facets,
+    chunkFacets: planned.chunkFacets
   };
 }
 
 /**
  * Format chunks into a context string for the LLM
  */
-function formatContext(chunks: SearchResult[]): string {
-  return chunks.map((chunk, index) => `
-[${index + 1}] Source:
+function formatContext(chunks: SearchResult[], numbers: Map<string, number>): string {
+  return chunks.map(chunk => `
+[${numbers.get(chunk.chunk_id)}] Source:
 Subject: ${chunk.subject}
 From: ${chunk.from_name} (${chunk.from_email})
 Date: ${chunk.sent_date}
@@ -52,13 +195,40 @@ Content: ${chunk.chunk_text}
 `).join('\n---\n');
 }
 
+/**
+ * Context for a decomposed question: the chunks grouped under their facets
+ */
+function formatFacetedContext(
+  facets: FacetRetrieval[],
+  chunks: SearchResult[],
+  chunkFacets: Map<string, string>,
+  numbers: Map<string, number>
+): string {
+  return facets.map(facet => {
+    const group = chunks.filter(c => chunkFacets.get(c.chunk_id) === facet.facet);
+    return `=== Facet: ${facet.facet} ===
+${group.length > 0 ? formatContext(group, numbers) : '(No relevant sources found for this facet.)'}`;
+  }).join('\n\n');
+}
+
+/**
+ * Extra system prompt lines for a decomposed question: one section per facet
+ */
+function facetInstruction(facets: FacetRetrieval[] | undefined): string {
+  if (!facets) return '';
+  return `
+- Organize the answer in sections, one per facet, in this order: ${facets.map(f => f.facet).join('; ')}.
+- Where the question asks for a comparison, close with how the facets agree and differ.
+- For a facet with no sources, say the archive has no coverage of it rather than guessing.`;
+}
+
 /**
  * Create rich citations from the chunks used
  */
-function createCitations(chunks: SearchResult[]): Citation[] {
-  return chunks.map((chunk, index) => ({
+function createCitations(chunks: SearchResult[], numbers: Map<string, number>): Citation[] {
+  return chunks.map(chunk => ({
     chunk_id: chunk.chunk_id,
-    citation_index: index + 1,
+    citation_index: numbers.get(chunk.chunk_id)!,
     preview: chunk.chunk_text.substring(0, 200) + '...',
     metadata: {
       subject: chunk.subject,
@@ -72,69 +242,277 @@ function createCitations(chunks: SearchResult[]): Citation[] {
 
 /**
  * Execute RAG pipeline with answer generation
+ * Options (date range, publishers, VIP/paid/inbox) narrow retrieval;
+ * with options.onEvent the answer is streamed as token events
  */
-export async function executeRAGWithAnswer(query: string): Promise<RAGResponse> {
+export async function executeRAGWithAnswer(
+  query: string,
+  options: AnswerOptions = {}
+): Promise<RAGResponse> {
   const startTotal = Date.now();
-  
-  // Phase 1: Retrieval
-  const retrievalResult = await executeRAGQuery(query);
+  const provider = getLLMProvider();
+  const window = retrievalWindow(options);
+
+  // Follow-ups are retrieved and answered as their standalone rewrite
+  const conversation = await startTurn(query, provider, options);
+  const searchQuery = conversation ? conversation.standaloneQuery : query;
+
+  // Phase 1: Retrieval, one search per facet for comparative/multi-part questions
+  const startPlan = Date.now();
+  const planning = options.decompose === false
+    ? { plan: null, usage: null }
+    : await planQuery(searchQuery, provider, options);
+  const plan = planning.plan;
+  const retrieval = plan?.strategy === 'decomposed'
+    ? await retrievePlanned(plan, options, Date.now() - startPlan)
+    : await retrieveSingle(searchQuery, options);
+  const decision = retrieval.decision;
   const retrievalTime = Date.now() - startTotal;
+
+  const diagnostics = {
+    rag_decision: decision,
+    chunks_found: retrieval.chunksFound,
+    plan: plan ? { ...plan, facets: retrieval.facets } : undefined
+  };
   
   // If decision is not to answer, return early with diagnostics
-  if (!retrievalResult.decision.shouldAnswer) {
+  if (!decision.shouldAnswer) {
+    const answer = "I don't have enough relevant information in the newsletter archive to answer this query confidently.";
+    options.onEvent?.({ type: 'token', text: answer });
+    if (conversation) {
+      await recordTurn(conversation, query, answer, [], options.conversationStore);
+    }
     return {
       query,
-      answer: "I don't have enough relevant information in the newsletter archive to answer this query confidently.",
+      answer,
       citations: [],
       confidence: 'none',
+      window,
+      usage: sumUsage(conversation?.usage, planning.usage, decision.usage),
+      conversation: conversation ? conversationInfo(conversation) : undefined,
       timing: {
         retrieval_ms: retrievalTime,
         generation_ms: 0,
         total_ms: Date.now() - startTotal
       },
-      diagnostics: {
-        rag_decision: retrievalResult.decision,
-        chunks_found: retrievalResult.searchResults.length
-      }
+      diagnostics
     };
   }
 
   // Phase 2: Generation
   const startGen = Date.now();
-  const provider = getLLMProvider();
   
   // Use filtered results from Phase 1
-  const relevantChunks = retrievalResult.decision.filteredResults;
-  const context = formatContext(relevantChunks);
+  const relevantChunks = decision.filteredResults;
+  const numbers = numberChunks(relevantChunks.map(c => c.chunk_id), conversation);
+  const context = retrieval.chunkFacets
+    ? formatFacetedContext(retrieval.facets!, relevantChunks, retrieval.chunkFacets, numbers)
+    : formatContext(relevantChunks, numbers);
   
-  const llmResponse = await provider.generateAnswer({
-    query,
+  const request: LLMRequest = {
+    query: searchQuery,
     context,
+    history: conversation?.history,
     systemPrompt: `You are an intelligent assistant for the Newsletter Control Center. 
 Your goal is to answer the user's question based ONLY on the provided newsletter chunks.
 - Be concise and direct.
 - Cite your sources using the [1], [2] format provided in the context.
 - If the context has conflicting information, mention it.
-- If the context is insufficient to answer a specific part of the question, admit it.`
-  });
+- If the context is insufficient to answer a specific part of the question, admit it.${facetInstruction(retrieval.facets)}${asOfInstruction(window)}`
+  };
+  // Strip mode can remove claims after generation, so their tokens are held
+  // back and the verified answer is sent as a single token event
+  const onEvent = options.onEvent;
+  const verificationMode = getVerificationMode(options.verifyCitations);
+  const streamTokens = onEvent && verificationMode !== 'strip';
+  const llmResponse = streamTokens
+    ? await provider.streamAnswer(request, text => onEvent({ type: 'token', text }))
+    : await provider.generateAnswer(request);
   
   const generationTime = Date.now() - startGen;
+
+  // Check each claim against the chunks it cites; citations are then only the chunks the answer uses
+  const startVerify = Date.now();
+  const verification = verificationMode === 'off' ? null : await verifyCitations(
+    llmResponse.content,
+    new Map(relevantChunks.map(chunk => [numbers.get(chunk.chunk_id)!, chunk])),
+    provider,
+    { mode: verificationMode }
+  );
+  const verificationTime = Date.now() - startVerify;
+  const answer = verification ? verification.answer : llmResponse.content;
+  if (onEvent && !streamTokens) {
+    onEvent({ type: 'token', text: answer });
+  }
+  if (verification) {
+    onEvent?.({
+      type: 'verification',
+      supportedRatio: verification.supported_ratio,
+      stripped: verification.stripped,
+      ms: verificationTime
+    });
+  }
+
+  const citedChunks = verification
+    ? relevantChunks.filter(chunk => verification.cited_numbers.includes(numbers.get(chunk.chunk_id)!))
+    : relevantChunks;
+  const citations = createCitations(citedChunks, numbers);
+
+  if (conversation) {
+    await recordTurn(conversation, query, answer, citedChunks.map(chunk => ({
+      chunk_id: chunk.chunk_id,
+      citation_index: numbers.get(chunk.chunk_id)!,
+      citation: formatCitation(chunk),
+    })), options.conversationStore);
+  }
   
   return {
     query,
-    answer: llmResponse.content,
-    citations: createCitations(relevantChunks),
-    confidence: retrievalResult.decision.confidence,
-    usage: llmResponse.usage,
+    answer,
+    citations,
+    confidence: decision.confidence,
+    window,
+    usage: sumUsage(conversation?.usage, planning.usage, decision.usage, llmResponse.usage, verification?.usage),
+    conversation: conversation ? conversationInfo(conversation) : undefined,
+    verification: verification ? {
+      mode: verification.mode,
+      claims: verification.claims,
+      supported_ratio: verification.supported_ratio,
+      stripped: verification.stripped,
+      cited_numbers: verification.cited_numbers
+    } : undefined,
     timing: {
       retrieval_ms: retrievalTime,
       generation_ms: generationTime,
+      verification_ms: verification ? verificationTime : undefined,
       total_ms: Date.now() - startTotal
     },
-    diagnostics: {
-      rag_decision: retrievalResult.decision,
-      chunks_found: retrievalResult.searchResults.length
-    }
+    diagnostics
   };
 }
 
+
+// ===== RESEARCH PIPELINE =====
+
+export interface ResearchCitation {
+  chunk_id: string;
+  citation_index: number;  // Stable across a conversation's turns
+  gmail_message_id: string;
+  chunk_index: number | undefined;
+  citation: string;  // "Publisher · Date · Subject"
+  publisher: string;
+  date: string;
+  subject: string;
+}
+
+export interface ResearchResponse {
+  query: string;
+  answer: string;
+  facts: ExtractedFact[];
+  citations: ResearchCitation[];
+  chunks: SearchResult[];
+  publisher_rankings: PublisherRanking[];
+  window: RetrievalWindow;
+  usage: LLMUsage;
+  conversation?: ConversationInfo;
+  timing: {
+    retrieval_ms: number;
+    extraction_ms: number;
+    synthesis_ms: number;
+    total_ms: number;
+    vector_search_path: VectorSearchPath;
+  };
+}
+
+export interface ResearchOptions extends HybridSearchOptions, ConversationOptions {
+  provider?: LLMProvider;  // Default: getLLMProvider()
+  maxCitations?: number;   // Default 5
+}
+
+/**
+ * Hybrid search → fact extraction → synthesis, with publisher rankings;
+ * with options.onEvent the synthesis is streamed as token events
+ */
+export async function executeResearchQuery(query: string, options: ResearchOptions = {}): Promise<ResearchResponse> {
+  const startTotal = Date.now();
+  const provider = options.provider || getLLMProvider();
+  const window = retrievalWindow(options);
+
+  const onEvent = options.onEvent;
+
+  const conversation = await startTurn(query, provider, options);
+  const searchQuery = conversation ? conversation.standaloneQuery : query;
+
+  const startEmbed = Date.now();
+  const embedding = await embedQuery(searchQuery);
+  onEvent?.({ type: 'embedding', ms: Date.now() - startEmbed });
+  const startSearch = Date.now();
+  // Over-fetch, then collapse/dedup/MMR down to the context size (diversify.ts)
+  const limit = options.limit ?? 10;
+  const search = await hybridSearch(searchQuery, embedding, {
+    ...options,
+    limit: options.diversify === false ? limit : limit * CANDIDATE_MULTIPLIER
+  });
+  assertWithinWindow(search.results, window, 'Hybrid search');
+  const chunks = options.diversify === false ? search.results : diversifyResults(search.results, { limit }).results;
+  onEvent?.({ type: 'search', chunks: chunks.length, path: search.path, ms: Date.now() - startSearch });
+  const retrievalTime = Date.now() - startTotal;
+
+  const startExtract = Date.now();
+  const extraction = await extractFacts(chunks, searchQuery, provider, window);
+  const extractionTime = Date.now() - startExtract;
+  onEvent?.({ type: 'facts', count: extraction.facts.length, ms: extractionTime });
+
+  const startSynth = Date.now();
+  const synthesis = await synthesizeAnswer(extraction.facts, searchQuery, chunks, provider, {
+    history: conversation?.history,
+    onText: onEvent && (text => onEvent({ type: 'token', text })),
+    window,
+  });
+  const synthesisTime = Date.now() - startSynth;
+
+  // One citation per chunk a fact came from, in fact order
+  const byId = new Map(chunks.map(c => [c.chunk_id, c]));
+  const citedIds = Array.from(new Set(extraction.facts.map(f => f.chunk_id))).slice(0, options.maxCitations ?? 5);
+  const numbers = numberChunks(citedIds, conversation);
+  const citations = citedIds.map(id => {
+    const chunk = byId.get(id)!;
+    return {
+      chunk_id: chunk.chunk_id,
+      citation_index: numbers.get(id)!,
+      gmail_message_id: chunk.gmail_message_id,
+      chunk_index: chunk.chunk_index,
+      citation: formatCitation(chunk),
+      publisher: publisherLabel(chunk),
+      date: chunk.sent_date,
+      subject: chunk.subject
+    };
+  });
+
+  if (conversation) {
+    await recordTurn(conversation, query, synthesis.answer, citations.map(c => ({
+      chunk_id: c.chunk_id,
+      citation_index: c.citation_index,
+      citation: c.citation,
+    })), options.conversationStore);
+  }
+
+  return {
+    query,
+    answer: synthesis.answer,
+    facts: extraction.facts,
+    citations,
+    chunks,
+    publisher_rankings: calculatePublisherRankings(chunks),
+    window,
+    usage: sumUsage(conversation?.usage, extraction.usage, synthesis.usage)!,
+    conversation: conversation ? conversationInfo(conversation) : undefined,
+    timing: {
+      retrieval_ms: retrievalTime,
+      extraction_ms: extractionTime,
+      synthesis_ms: synthesisTime,
+      total_ms: Date.now() - startTotal,
+      vector_search_path: search.path
+    }
+  };
+}
@@ -0,0 +1,230 @@
+/**
+ * Fact Extraction & Synthesis
+ *
+ * The two-call answer path: pull the facts relevant to the query out of the
+ * retrieved chunks, then write an answer from those facts alone, citing each
+ * as "Publisher · Date · Subject". Also publisher rankings for a result set.
+ *
+ * Steps take the LLMProvider to use, so callers choose the model;
+ * synthesizeAnswer streams when given an onText callback, and takes the
+ * conversation history for follow-up questions.
+ */
+
+import type { RetrievalWindow, SearchResult } from './rag';
+import { LLMProvider, LLMRequest, LLMTurn, LLMUsage } from '../lib/llm/types';
+
+// ===== TYPES =====
+
+export interface ExtractedFact {
+  fact: string;
+  chunk_id: string;
+}
+
+export interface FactExtraction {
+  facts: ExtractedFact[];
+  usage: LLMUsage;
+}
+
+export interface Synthesis {
+  answer: string;
+  usage: LLMUsage;
+}
+
+export interface SynthesisOptions {
+  onText?: (delta: string) => void;  // Stream the answer
+  history?: LLMTurn[];               // Earlier turns of the conversation
+  window?: RetrievalWindow;          // Answer as of window.asOf, when set
+}
+
+export interface PublisherRanking {
+  publisher: string;
+  relevance_score: number;
+  chunk_count: number;
+  avg_score: number;
+  latest_date: string | null;
+}
+
+export const NO_USAGE: LLMUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0, estimatedCostUSD: 0 };
+
+export function addUsage(a: LLMUsage, b: LLMUsage): LLMUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    estimatedCostUSD: a.estimatedCostUSD + b.estimatedCostUSD,
+  };
+}
+
+/**
+ * Publisher shown for a chunk: the canonical publisher, else the sender
+ */
+export function publisherLabel(chunk: SearchResult): string {
+  return chunk.publisher_name || chunk.from_name || chunk.from_email || 'Unknown Publisher';
+}
+
+/**
+ * Format citation as "Publisher · Date · Subject"
+ */
+export function formatCitation(chunk: SearchResult): string {
+  const date = chunk.sent_date
+    ? new Date(chunk.sent_date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+    : 'Date unknown';
+  return `${publisherLabel(chunk)} · ${date} · ${chunk.subject || 'No subject'}`;
+}
+
+/**
+ * Extra system prompt lines for an as-of query: the model should answer as
+ * of that date and not bring in what it knows happened afterwards
+ */
+export function asOfInstruction(window: RetrievalWindow | undefined): string {
+  if (!window?.asOf) return '';
+  return `
+- Today is ${window.asOf}. The sources are everything available up to that moment.
+- Answer as an analyst would have at that time: do not use or hint at knowledge of later events.`;
+}
+
+// ===== FACT EXTRACTION =====
+
+const EXTRACTION_PROMPT = `Extract all facts, quotes, and data points from the numbered chunks that are relevant to the query.
+
+Return your response as a JSON array where each item has:
+- fact: The extracted fact or data point
+- chunk_id: The ID of the chunk it came from
+
+Only extract facts that directly answer the query. If no relevant facts exist, return an empty array.
+Return ONLY valid JSON, no additional text.`;
+
+/**
+ * Parse the extraction output, salvaging the complete items of a response
+ * that was cut off mid-array
+ */
+function parseFacts(text: string, chunkIds: Set<string>): ExtractedFact[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    const lastComplete = text.lastIndexOf('}');
+    if (lastComplete === -1) return [];
+    try {
+      parsed = JSON.parse(`${text.substring(0, lastComplete + 1)}]`);
+      console.warn('Fact extraction output was truncated; kept the complete facts');
+    } catch {
+      console.warn('Fact extraction output was not valid JSON; no facts extracted');
+      return [];
+    }
+  }
+  if (!Array.isArray(parsed)) return [];
+  // Drop facts pointing at chunks that weren't in the context
+  return parsed.filter((f: any) => f && typeof f.fact === 'string' && chunkIds.has(f.chunk_id));
+}
+
+export async function extractFacts(
+  chunks: SearchResult[],
+  query: string,
+  provider: LLMProvider,
+  window?: RetrievalWindow
+): Promise<FactExtraction> {
+  if (chunks.length === 0) {
+    return { facts: [], usage: NO_USAGE };
+  }
+
+  const context = chunks.map((chunk, idx) => `
+Chunk ${idx + 1} (chunk_id: ${chunk.chunk_id}):
+Publisher: ${publisherLabel(chunk)}
+Date: ${chunk.sent_date || 'Unknown'}
+Subject: ${chunk.subject}
+Content: ${chunk.chunk_text}
+`).join('\n---\n');
+
+  const response = await provider.generateAnswer({
+    query,
+    context,
+    systemPrompt: `${EXTRACTION_PROMPT}${asOfInstruction(window)}`,
+    temperature: 0.1,
+    maxOutputTokens: 8192,
+    responseFormat: 'json',
+  });
+
+  return {
+    facts: parseFacts(response.content, new Set(chunks.map(c => c.chunk_id))),
+    usage: response.usage,
+  };
+}
+
+// ===== SYNTHESIS =====
+
+const SYNTHESIS_PROMPT = `You are an intelligence analyst answering questions based on newsletter content.
+The context lists facts extracted from newsletters, each prefixed with its citation.
+
+CRITICAL RULES:
+1. Answer the query using ONLY the provided facts
+2. Include inline citations: (Publisher · Date · Subject) after each statement
+3. If information isn't in the facts, don't make it up
+4. Write naturally and concisely
+5. If facts are contradictory, mention both perspectives`;
+
+export async function synthesizeAnswer(
+  facts: ExtractedFact[],
+  query: string,
+  chunks: SearchResult[],
+  provider: LLMProvider,
+  options: SynthesisOptions = {}
+): Promise<Synthesis> {
+  const { onText } = options;
+  if (facts.length === 0) {
+    const answer = 'No information found in the newsletter archive that answers this query.';
+    onText?.(answer);
+    return { answer, usage: NO_USAGE };
+  }
+
+  const byId = new Map(chunks.map(c => [c.chunk_id, c]));
+  const factsList = facts.map(f => {
+    const chunk = byId.get(f.chunk_id);
+    return `- ${chunk ? formatCitation(chunk) : `[${f.chunk_id}]`}: ${f.fact}`;
+  }).join('\n');
+
+  const request: LLMRequest = {
+    query,
+    context: factsList,
+    systemPrompt: `${SYNTHESIS_PROMPT}${asOfInstruction(options.window)}`,
+    temperature: 0.3,
+    maxOutputTokens: 8192,
+    history: options.history,
+    // Citations here are (Publisher · Date · Subject), not the provider's default [n]
+    answerInstructions: false,
+  };
+  const response = onText ? await provider.streamAnswer(request, onText) : await provider.generateAnswer(request);
+
+  return { answer: response.content.trim(), usage: response.usage };
+}
+
+// ===== PUBLISHER RANKINGS =====
+
+/**
+ * Rank the publishers behind a result set:
+ * average score (40%) + best score (30%) + chunk count, saturating at 5 (20%)
+ */
+export function calculatePublisherRankings(chunks: SearchResult[]): PublisherRanking[] {
+  const byPublisher = new Map<string, SearchResult[]>();
+  for (const chunk of chunks) {
+    const publisher = publisherLabel(chunk);
+    byPublisher.set(publisher, [...(byPublisher.get(publisher) || []), chunk]);
+  }
+
+  const rankings = Array.from(byPublisher.entries()).map(([publisher, group]) => {
+    const scores = group.map(c => c.combined_score ?? c.similarity ?? 0);
+    const avgScore = scores.reduce((a, b) => a + b, 0) / scores.length;
+    const maxScore = Math.max(...scores);
+    const dates = group.map(c => c.sent_date).filter(Boolean).sort();
+
+    return {
+      publisher,
+      relevance_score: Math.min(avgScore * 0.4 + maxScore * 0.3 + Math.min(group.length / 5, 1) * 0.2, 1),
+      chunk_count: group.length,
+      avg_score: avgScore,
+      latest_date: dates.length > 0 ? dates[dates.length - 1] : null,
+    };
+  });
+
+  return rankings.sort((a, b) => b.relevance_score - a.relevance_score);
+}
@@ -3,14 +3,22 @@
  * 
  * Implements two-stage filtering for newsletter query answering:
  * - Stage 1: Vector similarity search (similarity > 0.75)
- * - Stage 2: Relevance check (keyword matching + context validation)
+ * - Stage 2: Relevance check by a pluggable reranker (see ./rerank)
+ * Between search and Stage 2, candidates are diversified (see ./diversify) and
+ * the answer/reject decision counts distinct emails rather than chunks.
  * 
  * This prevents hallucination by rejecting queries when we lack relevant data.
  * Critical test case: "cryptocurrency" query should be rejected (no coverage).
+ *
+ * The retrieval steps (embedQuery, vectorSearch, keywordSearch, hybridSearch)
+ * are exported for the other pipelines built on them (rag-application.ts).
  */
 
 import { getBigQuery } from '../bq/client';
 import { embedBatch } from '../embeddings/vertex';
+import { LLMUsage } from '../lib/llm/types';
+import { getReranker, Reranker, RerankerName } from './rerank';
+import { countSources, diversifyResults, DiversificationStats, CANDIDATE_MULTIPLIER } from './diversify';
 
 const PROJECT_ID = 'newsletter-control-center';
 const DATASET = 'ncc_production';
@@ -28,7 +36,12 @@ export interface SearchResult {
   sent_date: string;
   publisher_name: string | null;
   gmail_message_id: string;
+  chunk_index?: number;
   relevance_score?: number;  // Added by Stage 2
+  keyword_score?: number;    // Added by hybridSearch (0-1, relative to the best keyword hit)
+  combined_score?: number;   // Added by hybridSearch
+  merged_chunk_ids?: string[];     // Added by diversification: adjacent chunks joined into this passage
+  duplicate_chunk_ids?: string[];  // Added by diversification: near-identical passages dropped for this one
 }
 
 export interface RAGDecision {
@@ -36,51 +49,375 @@ export interface RAGDecision {
   confidence: 'high' | 'medium' | 'none';
   reason: string;
   usableChunks: number;
+  distinctSources: number;  // Emails behind filteredResults
   filteredResults: SearchResult[];
+  usage?: LLMUsage;         // The reranker's model calls, if it made any
+}
+
+/**
+ * The sent-date range retrieval was limited to. until is exclusive and is
+ * the earlier of asOf and the end of toDate; null bounds are open.
+ */
+export interface RetrievalWindow {
+  from: string | null;   // YYYY-MM-DD, inclusive
+  until: string | null;  // ISO timestamp, exclusive
+  asOf: string | null;   // ISO timestamp, when running as-of
 }
 
 export interface RAGQueryResult {
   query: string;
+  window: RetrievalWindow;
+  reranker: RerankerName;
   decision: RAGDecision;
   searchResults: SearchResult[];
+  diversification: DiversificationStats | null;  // null when options.diversify is false
   timing: {
     embedding_ms: number;
     vector_search_ms: number;
+    vector_search_path: VectorSearchPath;
+    index_coverage: number | null;
     relevance_check_ms: number;
     total_ms: number;
   };
 }
 
-// ===== THRESHOLDS (from score calibration testing) =====
+// ===== VECTOR INDEX =====
 
-const SIMILARITY_THRESHOLD = 0.75;  // Stage 1: Minimum similarity score
-const RELEVANCE_THRESHOLD = 0.5;    // Stage 2: Minimum relevance score
-const MIN_HIGH_CONFIDENCE_CHUNKS = 3;  // Need 3+ high-quality chunks to answer confidently
+const VECTOR_INDEX_NAME = 'chunk_embedding_index';  // Built by scripts/vector/build-index.ts
+const MIN_INDEX_COVERAGE = parseFloat(process.env.RAG_MIN_INDEX_COVERAGE || '90');  // Percent
+const FRACTION_LISTS_TO_SEARCH = parseFloat(process.env.RAG_FRACTION_LISTS_TO_SEARCH || '0.05');
+const INDEX_STATUS_TTL_MS = 10 * 60 * 1000;
+// Index-path neighbours fetched per result wanted, since junk and filtered-out
+// chunks are dropped after the index has picked its top_k
+const INDEX_OVERFETCH = 3;
+const INDEX_OVERFETCH_FILTERED = 20;
 
 // ===== STAGE 1: VECTOR SEARCH =====
 
 /**
  * Generate embedding for query text using Vertex AI
  */
-async function generateQueryEmbedding(queryText: string): Promise<number[]> {
+export async function embedQuery(queryText: string): Promise<number[]> {
   const [embedding] = await embedBatch([queryText]);
   return embedding;
 }
 
 /**
- * Search for similar chunks using BigQuery vector search
- * Returns top N results ranked by cosine similarity
+ * Index coverage (percent of chunk_embeddings rows in the active vector
+ * index), cached briefly so every query doesn't hit INFORMATION_SCHEMA.
+ * null means there is no usable index.
  */
-async function vectorSearch(embedding: number[], limit: number = 10): Promise<SearchResult[]> {
+let indexCoverageCache: { coverage: number | null; checkedAt: number } | null = null;
+
+async function getIndexCoverage(): Promise<number | null> {
+  if (indexCoverageCache && Date.now() - indexCoverageCache.checkedAt < INDEX_STATUS_TTL_MS) {
+    return indexCoverageCache.coverage;
+  }
+
   const bq = getBigQuery();
-  
+  let coverage: number | null = null;
+  try {
+    const [rows] = await bq.query({
+      query: `
+        SELECT coverage_percentage
+        FROM \`${PROJECT_ID}.${DATASET}.INFORMATION_SCHEMA.VECTOR_INDEXES\`
+        WHERE table_name = 'chunk_embeddings'
+          AND index_name = @indexName
+          AND index_status = 'ACTIVE'
+        LIMIT 1
+      `,
+      params: { indexName: VECTOR_INDEX_NAME },
+      location: 'US'
+    });
+    coverage = rows.length > 0 ? Number(rows[0].coverage_percentage) : null;
+  } catch (error: any) {
+    // No vector indexes in the dataset yet
+    if (!error.message?.includes('Not found')) throw error;
+  }
+
+  indexCoverageCache = { coverage, checkedAt: Date.now() };
+  return coverage;
+}
+
+/**
+ * Metadata filters, applied to the chunks VECTOR_SEARCH ranks (not to its
+ * top-k afterwards), so a narrow filter still returns a full result set.
+ */
+export interface RAGFilters {
+  fromDate?: string;              // YYYY-MM-DD, inclusive
+  toDate?: string;                // YYYY-MM-DD, inclusive
+  publishers?: string[];          // publisher_id or display name (case-insensitive)
+  excludePublishers?: string[];   // same matching as publishers
+  vipOnly?: boolean;              // publishers.is_vip
+  paidOnly?: boolean;             // raw_emails.is_paid
+  inboxes?: string[];             // raw_emails.inbox
+  asOf?: string;                  // ISO date/timestamp: only emails sent before this instant
+}
+
+export interface RAGQueryOptions extends RAGFilters {
+  limit?: number;
+  fractionListsToSearch?: number;  // Share of IVF lists probed on the index path
+  minIndexCoverage?: number;       // Below this coverage %, search exactly instead
+  reranker?: Reranker | RerankerName;  // Stage 2 scorer (default: RAG_RERANKER / heuristic)
+  diversify?: boolean;             // Default true: collapse, dedup and MMR-select a larger candidate set
+  onEvent?: (event: RAGEvent) => void;  // Progress, for streaming responses
+}
+
+/**
+ * Progress through a query, in order: rewrite (follow-ups in a conversation),
+ * embedding, search, then relevance (two-stage pipeline) or facts (research
+ * pipeline), then answer tokens, then verification (two-stage pipeline, when
+ * citations are checked). A decomposed question reports plan in place of
+ * embedding and search.
+ */
+export type RAGEvent =
+  | { type: 'rewrite'; query: string; ms: number }
+  | { type: 'plan'; facets: string[]; ms: number }
+  | { type: 'embedding'; ms: number }
+  | { type: 'search'; chunks: number; path: VectorSearchPath; ms: number }
+  | { type: 'relevance'; usableChunks: number; confidence: RAGDecision['confidence']; ms: number }
+  | { type: 'facts'; count: number; ms: number }
+  | { type: 'token'; text: string }
+  | { type: 'verification'; supportedRatio: number; stripped: number; ms: number };
+
+export type VectorSearchPath = 'vector_index' | 'brute_force';
+
+export interface VectorSearchResponse {
+  results: SearchResult[];
+  path: VectorSearchPath;
+  indexCoverage: number | null;
+}
+
+/**
+ * Parse an asOf value. A bare date means the start of that day (UTC), so
+ * "2023-11-30" excludes everything sent on the 30th.
+ */
+function parseAsOf(asOf: string): Date {
+  const instant = new Date(asOf);
+  if (isNaN(instant.getTime())) {
+    throw new Error(`Invalid asOf: ${asOf}`);
+  }
+  return instant;
+}
+
+/**
+ * Effective retrieval window for a set of filters
+ */
+export function retrievalWindow(filters: RAGFilters): RetrievalWindow {
+  const asOf = filters.asOf ? parseAsOf(filters.asOf) : null;
+  let until = asOf;
+  if (filters.toDate) {
+    const dayAfter = new Date(`${filters.toDate}T00:00:00Z`);
+    dayAfter.setUTCDate(dayAfter.getUTCDate() + 1);
+    if (!until || dayAfter < until) until = dayAfter;
+  }
+  return {
+    from: filters.fromDate || null,
+    until: until ? until.toISOString() : null,
+    asOf: asOf ? asOf.toISOString() : null,
+  };
+}
+
+/**
+ * Throw if any result was sent at or after the window's end. Retrospectives
+ * rely on this: nothing sent after the window may reach the answer.
+ */
+export function assertWithinWindow(results: SearchResult[], window: RetrievalWindow, source: string): void {
+  if (!window.until) return;
+  const lastDay = new Date(new Date(window.until).getTime() - 1).toISOString().slice(0, 10);
+  const leaked = results.find(r => r.sent_date > lastDay);
+  if (leaked) {
+    throw new Error(`${source} returned chunk ${leaked.chunk_id} (${leaked.sent_date}) outside window ending ${window.until}`);
+  }
+}
+
+/**
+ * SQL conditions (over chunks c, raw_emails re, publishers p) for the filters
+ * that are set, with their query parameters
+ */
+function buildFilterConditions(filters: RAGFilters): { conditions: string[]; params: Record<string, any> } {
+  const conditions: string[] = [];
+  const params: Record<string, any> = {};
+  const lower = (values: string[]) => values.map(v => v.trim().toLowerCase()).filter(Boolean);
+  const matchesPublisher = (param: string) =>
+    `(LOWER(c.publisher_id) IN UNNEST(@${param}) OR LOWER(p.display_name) IN UNNEST(@${param}))`;
+
+  if (filters.fromDate) {
+    conditions.push('DATE(re.sent_date) >= DATE(@fromDate)');
+    params.fromDate = filters.fromDate;
+  }
+  if (filters.toDate) {
+    conditions.push('DATE(re.sent_date) <= DATE(@toDate)');
+    params.toDate = filters.toDate;
+  }
+  if (filters.publishers && lower(filters.publishers).length > 0) {
+    conditions.push(matchesPublisher('publishers'));
+    params.publishers = lower(filters.publishers);
+  }
+  if (filters.excludePublishers && lower(filters.excludePublishers).length > 0) {
+    conditions.push(`NOT COALESCE(${matchesPublisher('excludePublishers')}, FALSE)`);
+    params.excludePublishers = lower(filters.excludePublishers);
+  }
+  if (filters.vipOnly) {
+    conditions.push('p.is_vip = TRUE');
+  }
+  if (filters.paidOnly) {
+    conditions.push('re.is_paid = TRUE');
+  }
+  if (filters.inboxes && filters.inboxes.length > 0) {
+    conditions.push('re.inbox IN UNNEST(@inboxes)');
+    params.inboxes = filters.inboxes;
+  }
+  if (filters.asOf) {
+    conditions.push('re.sent_date < TIMESTAMP(@asOf)');
+    params.asOf = parseAsOf(filters.asOf).toISOString();
+  }
+
+  return { conditions, params };
+}
+
+/**
+ * Search for similar chunks using BigQuery VECTOR_SEARCH
+ *
+ * Uses chunk_embedding_index when it covers enough of the table; otherwise
+ * (no index, or it is still catching up after a large embedding run) asks
+ * VECTOR_SEARCH for an exact brute-force scan so recent chunks aren't missed.
+ *
+ * The index only holds chunk_id and embedding, so junk and metadata filters
+ * are applied after it has picked its neighbours: the index path over-fetches
+ * (more for filtered searches) before the final LIMIT, and a filtered search
+ * that still comes back short is re-run on the exact path, where the filters
+ * narrow the base table first.
+ */
+export async function vectorSearch(embedding: number[], options: RAGQueryOptions = {}): Promise<VectorSearchResponse> {
+  const bq = getBigQuery();
+  const limit = options.limit ?? 10;
+  const minCoverage = options.minIndexCoverage ?? MIN_INDEX_COVERAGE;
+
+  const filter = buildFilterConditions(options);
+  const conditions = ['c.is_junk IS NOT TRUE', ...filter.conditions];
+  const params: Record<string, any> = { embedding, ...filter.params };
+  const types: Record<string, any> = { embedding: ['FLOAT64'] };
+
+  const indexCoverage = await getIndexCoverage();
+  const useIndex = indexCoverage !== null && indexCoverage >= minCoverage;
+
+  const chunkMeta = `
+    \`${PROJECT_ID}.${DATASET}.chunks\` c
+    JOIN \`${PROJECT_ID}.${DATASET}.raw_emails\` re
+      ON c.gmail_message_id = re.gmail_message_id
+    LEFT JOIN \`${PROJECT_ID}.${DATASET}.publishers\` p
+      ON c.publisher_id = p.publisher_id
+  `;
+
+  const search = async (path: VectorSearchPath): Promise<SearchResult[]> => {
+    let baseTable: string;
+    let searchOptions: string;
+    let topK = limit;
+    if (path === 'vector_index') {
+      baseTable = `TABLE \`${PROJECT_ID}.${DATASET}.chunk_embeddings\``;
+      searchOptions = JSON.stringify({ fraction_lists_to_search: options.fractionListsToSearch ?? FRACTION_LISTS_TO_SEARCH });
+      topK = limit * (filter.conditions.length > 0 ? INDEX_OVERFETCH_FILTERED : INDEX_OVERFETCH);
+    } else {
+      baseTable = `(
+        SELECT ce.chunk_id, ce.embedding
+        FROM \`${PROJECT_ID}.${DATASET}.chunk_embeddings\` ce
+        WHERE ce.chunk_id IN (
+          SELECT c.chunk_id FROM ${chunkMeta}
+          WHERE ${conditions.join(' AND ')}
+        )
+      )`;
+      searchOptions = JSON.stringify({ use_brute_force: true });
+    }
+
+    const [rows] = await bq.query({
+      query: `
+        SELECT
+          vs.base.chunk_id AS chunk_id,
+          c.chunk_index,
+          c.chunk_text,
+          c.gmail_message_id,
+          re.subject,
+          re.from_name,
+          re.from_email,
+          CAST(DATE(re.sent_date) AS STRING) as sent_date,
+          p.display_name as publisher_name,
+          -- Cosine distance (0 = identical, 2 = opposite)
+          vs.distance
+        FROM VECTOR_SEARCH(
+          ${baseTable},
+          'embedding',
+          (SELECT @embedding AS embedding),
+          top_k => ${topK},
+          distance_type => 'COSINE',
+          options => '${searchOptions}'
+        ) AS vs
+        JOIN \`${PROJECT_ID}.${DATASET}.chunks\` c
+          ON vs.base.chunk_id = c.chunk_id
+        JOIN \`${PROJECT_ID}.${DATASET}.raw_emails\` re
+          ON c.gmail_message_id = re.gmail_message_id
+        LEFT JOIN \`${PROJECT_ID}.${DATASET}.publishers\` p
+          ON c.publisher_id = p.publisher_id
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY vs.distance ASC
+        LIMIT ${limit}
+      `,
+      params,
+      types,
+      location: 'US'
+    });
+
+    return rows.map(row => ({
+      chunk_id: row.chunk_id,
+      chunk_index: row.chunk_index,
+      distance: row.distance,
+      similarity: 1 - row.distance,  // Convert distance to similarity (1 = identical, 0 = orthogonal)
+      chunk_text: row.chunk_text,
+      gmail_message_id: row.gmail_message_id,
+      subject: row.subject,
+      from_name: row.from_name,
+      from_email: row.from_email,
+      sent_date: row.sent_date,
+      publisher_name: row.publisher_name
+    }));
+  };
+
+  let path: VectorSearchPath = useIndex ? 'vector_index' : 'brute_force';
+  let results = await search(path);
+  if (path === 'vector_index' && filter.conditions.length > 0 && results.length < limit) {
+    path = 'brute_force';
+    results = await search(path);
+  }
+
+  return { results, path, indexCoverage };
+}
+
+// ===== HYBRID SEARCH =====
+
+export interface HybridSearchOptions extends RAGQueryOptions {
+  vectorWeight?: number;    // Default 0.7
+  keywordWeight?: number;   // Default 0.3
+  freshnessBias?: boolean;  // Boost the last 30/90 days (relative to asOf when set); default true
+}
+
+/**
+ * Phrase search over chunk text and subjects, ranked by how often the whole
+ * query appears in the chunk. Same filters as vectorSearch.
+ */
+export async function keywordSearch(queryText: string, options: RAGQueryOptions = {}): Promise<SearchResult[]> {
+  const phrase = queryText.trim().toLowerCase();
+  if (!phrase) return [];
+
+  const bq = getBigQuery();
+  const limit = options.limit ?? 10;
+  const filter = buildFilterConditions(options);
+  const conditions = ['c.is_junk IS NOT TRUE', ...filter.conditions];
+
   const [rows] = await bq.query({
     query: `
-      WITH query_embedding AS (
-        SELECT ${JSON.stringify(embedding)} AS embedding
-      )
-      SELECT 
-        ce.chunk_id,
+      SELECT
+        c.chunk_id,
+        c.chunk_index,
         c.chunk_text,
         c.gmail_message_id,
         re.subject,
@@ -88,136 +425,107 @@ async function vectorSearch(embedding: number[], limit: number = 10): Promise<Se
         re.from_email,
         CAST(DATE(re.sent_date) AS STRING) as sent_date,
         p.display_name as publisher_name,
-        -- Calculate cosine distance (0 = identical, 2 = opposite)
-        (1 - (
-          (SELECT SUM(a * b) FROM UNNEST(ce.embedding) AS a WITH OFFSET pos1
-           JOIN UNNEST(query_embedding.embedding) AS b WITH OFFSET pos2
-           ON pos1 = pos2)
-          /
-          (SQRT((SELECT SUM(a * a) FROM UNNEST(ce.embedding) AS a)) *
-           SQRT((SELECT SUM(b * b) FROM UNNEST(query_embedding.embedding) AS b)))
-        )) AS distance
-      FROM \`${PROJECT_ID}.${DATASET}.chunk_embeddings\` ce
-      CROSS JOIN query_embedding
-      JOIN \`${PROJECT_ID}.${DATASET}.chunks\` c
-        ON ce.chunk_id = c.chunk_id
+        DIV(LENGTH(LOWER(c.chunk_text)) - LENGTH(REPLACE(LOWER(c.chunk_text), @phrase, '')), LENGTH(@phrase)) AS occurrences
+      FROM \`${PROJECT_ID}.${DATASET}.chunks\` c
       JOIN \`${PROJECT_ID}.${DATASET}.raw_emails\` re
         ON c.gmail_message_id = re.gmail_message_id
       LEFT JOIN \`${PROJECT_ID}.${DATASET}.publishers\` p
         ON c.publisher_id = p.publisher_id
-      WHERE c.is_junk = FALSE
-      ORDER BY distance ASC
+      WHERE ${conditions.join(' AND ')}
+        AND (STRPOS(LOWER(c.chunk_text), @phrase) > 0 OR STRPOS(LOWER(re.subject), @phrase) > 0)
+      ORDER BY occurrences DESC
       LIMIT ${limit}
     `,
+    params: { phrase, ...filter.params },
     location: 'US'
   });
 
+  // Subject-only hits count as one occurrence
+  const best = Math.max(1, ...rows.map(row => Number(row.occurrences)));
   return rows.map(row => ({
     chunk_id: row.chunk_id,
-    distance: row.distance,
-    similarity: 1 - row.distance,  // Convert distance to similarity (1 = identical, 0 = orthogonal)
+    chunk_index: row.chunk_index,
+    distance: 1,
+    similarity: 0,
     chunk_text: row.chunk_text,
     gmail_message_id: row.gmail_message_id,
     subject: row.subject,
     from_name: row.from_name,
     from_email: row.from_email,
     sent_date: row.sent_date,
-    publisher_name: row.publisher_name
+    publisher_name: row.publisher_name,
+    keyword_score: Math.max(1, Number(row.occurrences)) / best
   }));
 }
 
-// ===== STAGE 2: RELEVANCE CHECK =====
-
 /**
- * Check if a search result is actually relevant to the query
- * Returns relevance score 0.0-1.0 based on:
- * - Keyword matching (query terms in chunk text)
- * - Context validation (terms appear with substantial context, not just mentions)
- * 
- * This is CRITICAL for preventing hallucination.
- * Example: "cryptocurrency" query may have high similarity scores (0.80+)
- * but zero relevance (no matching keywords) → correctly rejected
+ * Vector + keyword search merged by weighted score, with a freshness boost
+ * (+0.1 for the last 30 days, +0.05 for the last 90), best first
  */
-export function checkRelevance(queryText: string, result: SearchResult): number {
-  const normalize = (s: string) => s.toLowerCase().replace(/[''’]/g, "'");
-  const query = normalize(queryText);
-  const text = normalize(result.chunk_text);
-  const subject = normalize(result.subject || '');
-  
-  // Extract key terms from query (filter out common words)
-  const stopWords = new Set(['the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'from', 'as', 'is', 'was', 'are', 'were', 'been', 'be', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'should', 'could', 'may', 'might', 'must', 'can']);
-  
-  // Helper to strip possessives and non-word characters
-  const cleanTerm = (t: string) => t.replace(/'s$/, '').replace(/[^\w']$/, '');
+export async function hybridSearch(
+  queryText: string,
+  embedding: number[],
+  options: HybridSearchOptions = {}
+): Promise<VectorSearchResponse> {
+  const limit = options.limit ?? 10;
+  const vectorWeight = options.vectorWeight ?? 0.7;
+  const keywordWeight = options.keywordWeight ?? 0.3;
 
-  const queryTerms = query
-    .split(/\s+/)
-    .map(cleanTerm)
-    .filter(term => term.length > 3 && !stopWords.has(term));
-  
-  if (queryTerms.length === 0) {
-    // Very short query, fallback to similarity score
-    return result.similarity;
-  }
-  
-  // Count how many query terms appear in the result
-  const matchedTerms = queryTerms.filter(term => 
-    text.includes(term) || subject.includes(term)
-  );
-  
-  const matchRatio = matchedTerms.length / queryTerms.length;
-  
-  // Check if terms appear with substantial context (50+ chars around them)
-  // This distinguishes "cryptocurrency mentioned once" from "article about cryptocurrency"
-  const hasStrongContext = queryTerms.some(term => {
-    const index = text.indexOf(term);
-    if (index === -1) return false;
-    
-    const contextStart = Math.max(0, index - 50);
-    const contextEnd = Math.min(text.length, index + 50);
-    const context = text.substring(contextStart, contextEnd);
-    
-    return context.length > 70;  // Must have substantial context
-  });
-  
-  // Calculate relevance score
-  let relevanceScore = 0.0;
-  
-  // Base score from keyword matching
-  relevanceScore += matchRatio * 0.6;  // Up to 0.6 for perfect keyword match
-  
-  // Bonus for strong context
-  if (hasStrongContext) {
-    relevanceScore += 0.3;
+  const [vector, keywordResults] = await Promise.all([
+    vectorSearch(embedding, { ...options, limit: limit * 2 }),
+    keywordSearch(queryText, { ...options, limit: limit * 2 })
+  ]);
+
+  const combined = new Map<string, SearchResult>();
+  for (const result of vector.results) {
+    combined.set(result.chunk_id, { ...result, keyword_score: 0, combined_score: result.similarity * vectorWeight });
   }
-  
-  // Small bonus for subject line match (signals topical relevance)
-  const subjectMatches = queryTerms.filter(term => subject.includes(term)).length;
-  if (subjectMatches > 0) {
-    relevanceScore += 0.1;
+  for (const result of keywordResults) {
+    const existing = combined.get(result.chunk_id);
+    if (existing) {
+      existing.keyword_score = result.keyword_score;
+      existing.combined_score = existing.similarity * vectorWeight + result.keyword_score! * keywordWeight;
+    } else {
+      combined.set(result.chunk_id, { ...result, combined_score: result.keyword_score! * keywordWeight });
+    }
   }
-  
-  // Cap at 1.0
-  return Math.min(1.0, relevanceScore);
+
+  const now = options.asOf ? parseAsOf(options.asOf).getTime() : Date.now();
+  const results = Array.from(combined.values()).map(result => {
+    if (options.freshnessBias === false || !result.sent_date) return result;
+    const daysAgo = (now - new Date(result.sent_date).getTime()) / (1000 * 60 * 60 * 24);
+    const bonus = daysAgo <= 30 ? 0.1 : daysAgo <= 90 ? 0.05 : 0;
+    return { ...result, combined_score: Math.min(result.combined_score! + bonus, 1.0) };
+  });
+
+  results.sort((a, b) => b.combined_score! - a.combined_score!);
+  return { results: results.slice(0, limit), path: vector.path, indexCoverage: vector.indexCoverage };
 }
 
+// ===== STAGE 2: RERANKING =====
+
 /**
  * Apply two-stage filtering to search results:
- * 1. Filter by similarity threshold (>0.75)
- * 2. Calculate relevance scores for remaining results
- * 3. Filter by relevance threshold (>0.5)
+ * 1. Filter by the reranker's similarity threshold
+ * 2. Score remaining results with the reranker
+ * 3. Filter by its relevance threshold
  */
-function applyTwoStageFilter(queryText: string, results: SearchResult[]): SearchResult[] {
+async function applyTwoStageFilter(
+  queryText: string,
+  results: SearchResult[],
+  reranker: Reranker
+): Promise<{ results: SearchResult[]; usage?: LLMUsage }> {
   // Stage 1: Similarity filter
-  const stage1Results = results.filter(r => r.similarity > SIMILARITY_THRESHOLD);
+  const stage1Results = results.filter(r => r.similarity > reranker.thresholds.similarity);
   
   // Stage 2: Relevance check
-  const stage2Results = stage1Results.map(result => ({
+  const { scores, usage } = await reranker.score(queryText, stage1Results);
+  const stage2Results = stage1Results.map((result, i) => ({
     ...result,
-    relevance_score: checkRelevance(queryText, result)
-  })).filter(r => r.relevance_score! > RELEVANCE_THRESHOLD);
+    relevance_score: scores[i]
+  })).filter(r => r.relevance_score! > reranker.thresholds.relevance);
   
-  return stage2Results;
+  return { results: stage2Results, usage };
 }
 
 // ===== RAG DECISION LOGIC =====
@@ -225,42 +533,52 @@ function applyTwoStageFilter(queryText: string, results: SearchResult[]): Search
 /**
  * Decide whether to answer the query based on filtered results
  * 
- * Logic:
- * - HIGH confidence: 3+ results with similarity >0.80 AND relevance >0.5
- * - MEDIUM confidence: 3+ results with similarity >0.75 AND relevance >0.5
- * - REJECT: Fewer than 3 relevant results
+ * Counts distinct emails, not chunks, so one long email can't carry the answer alone.
+ * Logic (default thresholds; each reranker may set its own):
+ * - HIGH confidence: 3+ sources with similarity >0.80 AND relevance >0.5
+ * - MEDIUM confidence: 3+ sources with similarity >0.75 AND relevance >0.5
+ * - REJECT: Fewer than 3 relevant sources
  */
-function makeRAGDecision(queryText: string, searchResults: SearchResult[]): RAGDecision {
+async function makeRAGDecision(queryText: string, searchResults: SearchResult[], reranker: Reranker): Promise<RAGDecision> {
+  const { highSimilarity, minChunks } = reranker.thresholds;
+
   // Apply two-stage filtering
-  const filteredResults = applyTwoStageFilter(queryText, searchResults);
+  const { results: filteredResults, usage } = await applyTwoStageFilter(queryText, searchResults, reranker);
+  const distinctSources = countSources(filteredResults);
   
-  // Count high-confidence chunks (very high similarity + relevant)
-  const highConfidenceChunks = filteredResults.filter(r => r.similarity > 0.80);
+  // Count high-confidence sources (very high similarity + relevant)
+  const highConfidenceSources = countSources(filteredResults.filter(r => r.similarity > highSimilarity));
   
   // Decision tree
-  if (highConfidenceChunks.length >= MIN_HIGH_CONFIDENCE_CHUNKS) {
+  if (highConfidenceSources >= minChunks) {
     return {
       shouldAnswer: true,
       confidence: 'high',
-      reason: `Found ${highConfidenceChunks.length} highly relevant sources`,
+      reason: `Found ${highConfidenceSources} highly relevant sources`,
       usableChunks: filteredResults.length,
-      filteredResults
+      distinctSources,
+      filteredResults,
+      usage
     };
-  } else if (filteredResults.length >= MIN_HIGH_CONFIDENCE_CHUNKS) {
+  } else if (distinctSources >= minChunks) {
     return {
       shouldAnswer: true,
       confidence: 'medium',
-      reason: `Found ${filteredResults.length} relevant sources, but confidence is limited`,
+      reason: `Found ${distinctSources} relevant sources, but confidence is limited`,
       usableChunks: filteredResults.length,
-      filteredResults
+      distinctSources,
+      filteredResults,
+      usage
     };
   } else {
     return {
       shouldAnswer: false,
       confidence: 'none',
-      reason: `Insufficient relevant data (only ${filteredResults.length} relevant chunks found)`,
+      reason: `Insufficient relevant data (only ${distinctSources} relevant sources found)`,
       usableChunks: filteredResults.length,
-      filteredResults
+      distinctSources,
+      filteredResults,
+      usage
     };
   }
 }
@@ -272,40 +590,57 @@ function makeRAGDecision(queryText: string, searchResults: SearchResult[]): RAGD
  * 
  * Steps:
  * 1. Generate query embedding (Vertex AI)
- * 2. Vector search (BigQuery, top 10 by similarity)
- * 3. Two-stage filtering (similarity + relevance)
+ * 2. Vector search (BigQuery VECTOR_SEARCH, top 20 by similarity), then
+ *    diversification down to 10 passages (see diversify.ts)
+ * 3. Two-stage filtering (similarity + reranker relevance)
  * 4. Make RAG decision (answer or reject)
  * 
  * @param queryText - Natural language question
+ * @param options - Metadata filters and vector search tuning (limit defaults to 10)
  * @returns RAGQueryResult with decision, filtered results, and timing
  */
-export async function executeRAGQuery(queryText: string): Promise<RAGQueryResult> {
+export async function executeRAGQuery(queryText: string, options: RAGQueryOptions = {}): Promise<RAGQueryResult> {
   const overallStart = Date.now();
+  const window = retrievalWindow(options);  // Validates asOf before any work
+  const reranker = typeof options.reranker === 'object' ? options.reranker : getReranker(options.reranker);
   
   // Step 1: Generate embedding
   const embeddingStart = Date.now();
-  const embedding = await generateQueryEmbedding(queryText);
+  const embedding = await embedQuery(queryText);
   const embeddingTime = Date.now() - embeddingStart;
+  options.onEvent?.({ type: 'embedding', ms: embeddingTime });
   
-  // Step 2: Vector search
+  // Step 2: Vector search, over-fetching so diversification has room to choose
   const searchStart = Date.now();
-  const searchResults = await vectorSearch(embedding, 10);
+  const limit = options.limit ?? 10;
+  const diversify = options.diversify !== false;
+  const search = await vectorSearch(embedding, { ...options, limit: diversify ? limit * CANDIDATE_MULTIPLIER : limit });
+  assertWithinWindow(search.results, window, 'Vector search');
+  const diversified = diversify ? diversifyResults(search.results, { limit }) : null;
+  const searchResults = diversified ? diversified.results : search.results;
   const searchTime = Date.now() - searchStart;
+  options.onEvent?.({ type: 'search', chunks: searchResults.length, path: search.path, ms: searchTime });
   
   // Step 3 & 4: Two-stage filtering + RAG decision
   const relevanceStart = Date.now();
-  const decision = makeRAGDecision(queryText, searchResults);
+  const decision = await makeRAGDecision(queryText, searchResults, reranker);
   const relevanceTime = Date.now() - relevanceStart;
+  options.onEvent?.({ type: 'relevance', usableChunks: decision.usableChunks, confidence: decision.confidence, ms: relevanceTime });
   
   const totalTime = Date.now() - overallStart;
   
   return {
     query: queryText,
+    window,
+    reranker: reranker.name,
     decision,
     searchResults,
+    diversification: diversified ? diversified.stats : null,
     timing: {
       embedding_ms: embeddingTime,
       vector_search_ms: searchTime,
+      vector_search_path: search.path,
+      index_coverage: search.indexCoverage,
       relevance_check_ms: relevanceTime,
       total_ms: totalTime
     }
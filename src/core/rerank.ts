@@ -0,0 +1,296 @@
+/**
+ * RAG Stage 2: Rerankers
+ *
+ * A reranker scores each Stage 1 candidate 0.0-1.0 for how relevant it is to
+ * the query, and carries the thresholds makeRAGDecision applies to its
+ * scores (each scorer has its own scale, so one set of cut-offs can't serve all).
+ *
+ * - heuristic: the original keyword/context check (checkRelevance)
+ * - bm25: local BM25 over the candidates, with query bigrams for multi-word entities
+ * - llm: the configured LLMProvider judges every candidate in one call (falls
+ *   back to the heuristic when the reply is unusable)
+ *
+ * Selected with RAG_RERANKER (default: heuristic) or per query.
+ */
+
+import type { SearchResult } from './rag';
+import { getLLMProvider } from '../lib/llm/factory';
+import { LLMProvider, LLMUsage } from '../lib/llm/types';
+
+// ===== TYPES =====
+
+export interface RerankerThresholds {
+  similarity: number;      // Stage 1: minimum vector similarity
+  relevance: number;       // Stage 2: minimum reranker score
+  highSimilarity: number;  // Similarity a relevant chunk needs to count towards HIGH confidence
+  minChunks: number;       // Relevant chunks needed to answer at all
+}
+
+export interface RerankScores {
+  scores: number[];   // Relevance of each result to the query (0.0-1.0), in the same order
+  usage?: LLMUsage;   // Rerankers that call a model
+}
+
+export interface Reranker {
+  name: RerankerName;
+  thresholds: RerankerThresholds;
+
+  score(queryText: string, results: SearchResult[]): Promise<RerankScores>;
+}
+
+export type RerankerName = 'heuristic' | 'bm25' | 'llm';
+
+export const RERANKER_NAMES: RerankerName[] = ['heuristic', 'bm25', 'llm'];
+
+// ===== THRESHOLDS (from score calibration testing) =====
+
+export const DEFAULT_THRESHOLDS: RerankerThresholds = {
+  similarity: 0.75,
+  relevance: 0.5,
+  highSimilarity: 0.80,
+  minChunks: 3,
+};
+
+// ===== HEURISTIC =====
+
+/**
+ * Check if a search result is actually relevant to the query
+ * Returns relevance score 0.0-1.0 based on:
+ * - Keyword matching (query terms in chunk text)
+ * - Context validation (terms appear with substantial context, not just mentions)
+ *
+ * This is CRITICAL for preventing hallucination.
+ * Example: "cryptocurrency" query may have high similarity scores (0.80+)
+ * but zero relevance (no matching keywords) → correctly rejected
+ */
+export function checkRelevance(queryText: string, result: SearchResult): number {
+  const normalize = (s: string) => s.toLowerCase().replace(/[''’]/g, "'");
+  const query = normalize(queryText);
+  const text = normalize(result.chunk_text);
+  const subject = normalize(result.subject || '');
+
+  // Extract key terms from query (filter out common words)
+  const stopWords = new Set(['the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'from', 'as', 'is', 'was', 'are', 'were', 'been', 'be', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'should', 'could', 'may', 'might', 'must', 'can']);
+
+  // Helper to strip possessives and non-word characters
+  const cleanTerm = (t: string) => t.replace(/'s$/, '').replace(/[^\w']$/, '');
+
+  const queryTerms = query
+    .split(/\s+/)
+    .map(cleanTerm)
+    .filter(term => term.length > 3 && !stopWords.has(term));
+
+  if (queryTerms.length === 0) {
+    // Very short query, fallback to similarity score
+    return result.similarity;
+  }
+
+  // Count how many query terms appear in the result
+  const matchedTerms = queryTerms.filter(term =>
+    text.includes(term) || subject.includes(term)
+  );
+
+  const matchRatio = matchedTerms.length / queryTerms.length;
+
+  // Check if terms appear with substantial context (50+ chars around them)
+  // This distinguishes "cryptocurrency mentioned once" from "article about cryptocurrency"
+  const hasStrongContext = queryTerms.some(term => {
+    const index = text.indexOf(term);
+    if (index === -1) return false;
+
+    const contextStart = Math.max(0, index - 50);
+    const contextEnd = Math.min(text.length, index + 50);
+    const context = text.substring(contextStart, contextEnd);
+
+    return context.length > 70;  // Must have substantial context
+  });
+
+  // Calculate relevance score
+  let relevanceScore = 0.0;
+
+  // Base score from keyword matching
+  relevanceScore += matchRatio * 0.6;  // Up to 0.6 for perfect keyword match
+
+  // Bonus for strong context
+  if (hasStrongContext) {
+    relevanceScore += 0.3;
+  }
+
+  // Small bonus for subject line match (signals topical relevance)
+  const subjectMatches = queryTerms.filter(term => subject.includes(term)).length;
+  if (subjectMatches > 0) {
+    relevanceScore += 0.1;
+  }
+
+  // Cap at 1.0
+  return Math.min(1.0, relevanceScore);
+}
+
+export function createHeuristicReranker(thresholds: Partial<RerankerThresholds> = {}): Reranker {
+  return {
+    name: 'heuristic',
+    thresholds: { ...DEFAULT_THRESHOLDS, ...thresholds },
+    async score(queryText, results) {
+      return { scores: results.map(result => checkRelevance(queryText, result)) };
+    },
+  };
+}
+
+// ===== BM25 =====
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const BM25_STOPWORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can', 'could', 'did', 'do', 'does',
+  'for', 'from', 'had', 'has', 'have', 'how', 'in', 'into', 'is', 'it', 'its', 'may', 'might', 'must', 'of', 'on',
+  'or', 'over', 'say', 'said', 'should', 'that', 'the', 'their', 'them', 'they', 'this', 'to', 'was', 'were',
+  'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'would',
+]);
+
+/**
+ * Lowercased word tokens with possessives and plural -s stripped, so
+ * "China's chips" and "china chip" match
+ */
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().replace(/[’']s\b/g, '').match(/[\p{L}\p{N}]+/gu) || [])
+    .map(token => (token.length > 4 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+}
+
+/**
+ * Unigrams without stopwords, plus bigrams of adjacent query words so
+ * "Federal Reserve" scores higher where the words appear together
+ */
+function bm25Terms(tokens: string[]): string[] {
+  const terms = tokens.filter(t => !BM25_STOPWORDS.has(t));
+  for (let i = 0; i + 1 < tokens.length; i++) {
+    if (!BM25_STOPWORDS.has(tokens[i]) && !BM25_STOPWORDS.has(tokens[i + 1])) {
+      terms.push(`${tokens[i]} ${tokens[i + 1]}`);
+    }
+  }
+  return terms;
+}
+
+/**
+ * BM25 with the candidate set as the corpus. Each term's weight is capped
+ * at what one occurrence in an average-length chunk earns, and the total is
+ * divided by the sum of IDFs: 1.0 means every query term (and bigram) is
+ * there, 0 means none.
+ */
+export function createBM25Reranker(thresholds: Partial<RerankerThresholds> = {}): Reranker {
+  return {
+    name: 'bm25',
+    thresholds: { ...DEFAULT_THRESHOLDS, relevance: 0.35, ...thresholds },
+    async score(queryText, results) {
+      if (results.length === 0) return { scores: [] };
+
+      const queryTerms = Array.from(new Set(bm25Terms(tokenize(queryText))));
+      if (queryTerms.length === 0) {
+        return { scores: results.map(r => r.similarity) };
+      }
+
+      const docs = results.map(r => {
+        const termCounts = new Map<string, number>();
+        const terms = bm25Terms(tokenize(`${r.subject || ''} ${r.chunk_text}`));
+        for (const term of terms) termCounts.set(term, (termCounts.get(term) || 0) + 1);
+        return { termCounts, length: terms.length };
+      });
+      const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / docs.length || 1;
+
+      // BM25+ style IDF stays positive when a term is in every candidate
+      const idf = new Map(queryTerms.map(term => {
+        const n = docs.filter(d => d.termCounts.has(term)).length;
+        return [term, Math.log(1 + (docs.length - n + 0.5) / (n + 0.5))] as [string, number];
+      }));
+      const maxScore = queryTerms.reduce((sum, term) => sum + idf.get(term)!, 0);
+
+      const scores = docs.map(doc => {
+        let score = 0;
+        for (const term of queryTerms) {
+          const tf = doc.termCounts.get(term) || 0;
+          if (tf === 0) continue;
+          const norm = tf * (BM25_K1 + 1) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / avgLength));
+          score += idf.get(term)! * Math.min(1, norm);
+        }
+        return Math.min(1, score / maxScore);
+      });
+      return { scores };
+    },
+  };
+}
+
+// ===== LLM =====
+
+const LLM_RERANK_PROMPT = `You are grading search results for a newsletter research tool.
+For each numbered passage, judge how directly it helps answer the query:
+1.0 = directly answers or discusses the query's subject
+0.5 = related background, partially useful
+0.0 = unrelated, or only shares vocabulary with the query
+Paraphrases and synonyms count as matches. Do not answer the query.
+Respond with ONLY a JSON array of numbers, one per passage, in order, e.g. [0.9, 0.1, 0.5].`;
+
+/**
+ * Parse the model's score array; throws if it isn't JSON with one score per passage
+ */
+function parseScores(content: string, expected: number): number[] {
+  const match = content.match(/\[[\s\S]*?\]/);
+  if (!match) {
+    throw new Error(`LLM reranker returned no score array: ${content.slice(0, 200)}`);
+  }
+  const scores = JSON.parse(match[0]);
+  if (!Array.isArray(scores) || scores.length !== expected || scores.some(s => typeof s !== 'number')) {
+    throw new Error(`LLM reranker returned ${Array.isArray(scores) ? scores.length : 'invalid'} scores for ${expected} passages`);
+  }
+  return scores.map(s => Math.max(0, Math.min(1, s)));
+}
+
+export function createLLMReranker(
+  provider: LLMProvider = getLLMProvider(),
+  thresholds: Partial<RerankerThresholds> = {}
+): Reranker {
+  return {
+    name: 'llm',
+    // The model judges relevance itself, so Stage 1 only needs to drop clear misses
+    thresholds: { ...DEFAULT_THRESHOLDS, similarity: 0.65, relevance: 0.5, ...thresholds },
+    async score(queryText, results) {
+      if (results.length === 0) return { scores: [] };
+
+      const context = results.map((r, i) => `[${i + 1}] Subject: ${r.subject}\n${r.chunk_text}`).join('\n\n---\n\n');
+      const response = await provider.generateAnswer({
+        query: queryText,
+        context,
+        systemPrompt: LLM_RERANK_PROMPT,
+        temperature: 0,
+        maxOutputTokens: 256,
+        responseFormat: 'json',
+      });
+      try {
+        return { scores: parseScores(response.content, results.length), usage: response.usage };
+      } catch (error: any) {
+        // A bad reply shouldn't fail the query; the keyword check still filters the candidates
+        console.warn(`LLM reranker failed, using heuristic scores: ${error.message}`);
+        return { scores: results.map(result => checkRelevance(queryText, result)), usage: response.usage };
+      }
+    },
+  };
+}
+
+// ===== FACTORY =====
+
+/**
+ * Reranker by name (default: RAG_RERANKER, else heuristic)
+ */
+export function getReranker(name?: string): Reranker {
+  const rerankerName = (name || process.env.RAG_RERANKER || 'heuristic').toLowerCase();
+
+  switch (rerankerName) {
+    case 'heuristic':
+      return createHeuristicReranker();
+    case 'bm25':
+      return createBM25Reranker();
+    case 'llm':
+      return createLLMReranker();
+    default:
+      throw new Error(`Unknown reranker '${rerankerName}' (expected one of: ${RERANKER_NAMES.join(', ')})`);
+  }
+}
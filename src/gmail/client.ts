@@ -8,29 +8,27 @@ import * as path from 'path';
 
 import { getOAuthCredentials } from './token-provider';
 
+import { tokenPathFor } from './inboxes';
 
 
-const TOKEN_DIR = path.resolve('.tokens');
-
-const TOKEN_PATH = (inbox: 'me' | 'other') => path.join(TOKEN_DIR, `token.${inbox}.json`);
 
 const CREDENTIALS_PATH = path.resolve('credentials.json');
 
 
 
-async function ensureTokenDir() {
+async function ensureTokenDir(inbox: string) {
 
-  try { await fs.mkdir(TOKEN_DIR, { recursive: true }); } catch {}
+  try { await fs.mkdir(path.dirname(tokenPathFor(inbox)), { recursive: true }); } catch {}
 
 }
 
 
 
-async function loadSavedCredentials(inbox: 'me' | 'other') {
+async function loadSavedCredentials(inbox: string) {
 
   try {
 
-    const content = await fs.readFile(TOKEN_PATH(inbox), 'utf8');
+    const content = await fs.readFile(tokenPathFor(inbox), 'utf8');
 
     const creds = JSON.parse(content);
 
@@ -46,7 +44,7 @@ async function loadSavedCredentials(inbox: 'me' | 'other') {
 
 
 
-async function saveCredentials(auth: any, inbox: 'me' | 'other') {
+async function saveCredentials(auth: any, inbox: string) {
 
   const raw = await fs.readFile(CREDENTIALS_PATH, 'utf8');
 
@@ -66,21 +64,21 @@ async function saveCredentials(auth: any, inbox: 'me' | 'other') {
 
   };
 
-  await ensureTokenDir();
+  await ensureTokenDir(inbox);
 
-  await fs.writeFile(TOKEN_PATH(inbox), JSON.stringify(payload, null, 2));
+  await fs.writeFile(tokenPathFor(inbox), JSON.stringify(payload, null, 2));
 
 }
 
 
 
-export async function deleteToken(inbox: 'me' | 'other'): Promise<void> {
-  try { await fs.unlink(TOKEN_PATH(inbox)); } catch {}
+export async function deleteToken(inbox: string): Promise<void> {
+  try { await fs.unlink(tokenPathFor(inbox)); } catch {}
 }
 
 
 
-export async function getGmail(inbox: 'me' | 'other', opts?: { reauth?: boolean }): Promise<gmail_v1.Gmail> {
+export async function getGmail(inbox: string, opts?: { reauth?: boolean }): Promise<gmail_v1.Gmail> {
 
   if (opts?.reauth) await deleteToken(inbox);
 
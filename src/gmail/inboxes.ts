@@ -0,0 +1,83 @@
+/**
+ * Inbox registry
+ *
+ * Maps an inbox key ('me', 'other', ...) to where its Gmail credentials come
+ * from, the ingest query, label names and the Cloud Run job that ingests it.
+ * Adding a mailbox means adding an entry to config/inboxes.json and minting
+ * its refresh token; the token provider, ingester, job deployer and jobs
+ * runner all read from here.
+ */
+
+import * as path from 'path';
+import registryConfig from '../../config/inboxes.json';
+
+export interface InboxCredentialSource {
+  refreshTokenEnv: string;    // Env var (or Cloud Run secret binding) holding the refresh token
+  secret?: string;            // Secret Manager name; defaults to refreshTokenEnv
+  tokenFile?: string;         // Local fallback; defaults to .tokens/token.<key>.json
+  clientIdEnv?: string;       // Defaults to GMAIL_CLIENT_ID
+  clientSecretEnv?: string;   // Defaults to GMAIL_CLIENT_SECRET
+}
+
+export interface InboxConfig {
+  key: string;
+  description?: string;
+  credentials: InboxCredentialSource;
+  query?: string;             // Falls back to GMAIL_QUERY
+  processedLabel?: string;    // Falls back to GMAIL_PROCESSED_LABEL
+  paidLabel?: string;         // Falls back to GMAIL_PAID_LABEL
+  markRead?: boolean;         // Falls back to GMAIL_MARK_READ
+  job?: string;               // Cloud Run job name; defaults to ncc-ingest-<key>
+}
+
+const INBOXES: InboxConfig[] = (registryConfig as { inboxes: InboxConfig[] }).inboxes;
+
+export function listInboxes(): InboxConfig[] {
+  return INBOXES;
+}
+
+export function listInboxKeys(): string[] {
+  return INBOXES.map(i => i.key);
+}
+
+export function getInbox(key: string): InboxConfig {
+  const inbox = INBOXES.find(i => i.key === key);
+  if (!inbox) {
+    throw new Error(`Unknown inbox '${key}'. Registered inboxes: ${listInboxKeys().join(', ')}`);
+  }
+  return inbox;
+}
+
+export function tokenPathFor(key: string): string {
+  const inbox = getInbox(key);
+  return path.resolve(inbox.credentials.tokenFile || path.join('.tokens', `token.${key}.json`));
+}
+
+export function ingestJobName(inbox: InboxConfig): string {
+  return inbox.job || `ncc-ingest-${inbox.key}`;
+}
+
+/**
+ * Secret Manager names holding an inbox's OAuth client and refresh token
+ */
+export function inboxSecretNames(inbox: InboxConfig): { clientId: string; clientSecret: string; refreshToken: string } {
+  const { credentials } = inbox;
+  return {
+    clientId: credentials.clientIdEnv || 'GMAIL_CLIENT_ID',
+    clientSecret: credentials.clientSecretEnv || 'GMAIL_CLIENT_SECRET',
+    refreshToken: credentials.secret || credentials.refreshTokenEnv,
+  };
+}
+
+/**
+ * Cloud Run --set-secrets bindings for an inbox's ingest job
+ */
+export function secretBindings(inbox: InboxConfig): string[] {
+  const { credentials } = inbox;
+  const secrets = inboxSecretNames(inbox);
+  return [
+    `${secrets.clientId}=${secrets.clientId}:latest`,
+    `${secrets.clientSecret}=${secrets.clientSecret}:latest`,
+    `${credentials.refreshTokenEnv}=${secrets.refreshToken}:latest`,
+  ];
+}
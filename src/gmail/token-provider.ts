@@ -1,5 +1,6 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { getInbox, tokenPathFor } from './inboxes';
 
 export interface OAuthCredentials {
   client_id: string;
@@ -7,33 +8,33 @@ export interface OAuthCredentials {
   refresh_token: string;
 }
 
-const TOKEN_DIR = path.resolve('.tokens');
-const TOKEN_PATH = (inbox: 'me' | 'other') => path.join(TOKEN_DIR, `token.${inbox}.json`);
 const CREDENTIALS_PATH = path.resolve('credentials.json');
 
 /**
  * Get OAuth credentials for the specified inbox.
  * 
+ * The env var and token file names come from the inbox registry
+ * (config/inboxes.json).
+ * 
  * Cloud path (preferred): Reads from environment variables:
- *   - GMAIL_CLIENT_ID
- *   - GMAIL_CLIENT_SECRET
- *   - GMAIL_REFRESH_TOKEN_ME (for 'me' inbox)
- *   - GMAIL_REFRESH_TOKEN_OTHER (for 'other' inbox)
+ *   - GMAIL_CLIENT_ID (or the inbox's clientIdEnv)
+ *   - GMAIL_CLIENT_SECRET (or the inbox's clientSecretEnv)
+ *   - the inbox's refreshTokenEnv, e.g. GMAIL_REFRESH_TOKEN_ME
  * 
  * Local path (fallback): Reads from local files:
  *   - credentials.json (for client_id/client_secret)
- *   - .tokens/token.{me|other}.json (for refresh_token)
+ *   - the inbox's tokenFile, default .tokens/token.<key>.json (for refresh_token)
  * 
- * @param inbox - 'me' or 'other'
+ * @param inbox - registered inbox key, e.g. 'me' or 'other'
  * @returns OAuth credentials or null if not found
  */
-export async function getOAuthCredentials(inbox: 'me' | 'other'): Promise<OAuthCredentials | null> {
+export async function getOAuthCredentials(inbox: string): Promise<OAuthCredentials | null> {
+  const source = getInbox(inbox).credentials;
+
   // Cloud path: prefer environment variables
-  const clientId = process.env.GMAIL_CLIENT_ID;
-  const clientSecret = process.env.GMAIL_CLIENT_SECRET;
-  const refreshTokenEnv = inbox === 'me' 
-    ? process.env.GMAIL_REFRESH_TOKEN_ME 
-    : process.env.GMAIL_REFRESH_TOKEN_OTHER;
+  const clientId = process.env[source.clientIdEnv || 'GMAIL_CLIENT_ID'];
+  const clientSecret = process.env[source.clientSecretEnv || 'GMAIL_CLIENT_SECRET'];
+  const refreshTokenEnv = process.env[source.refreshTokenEnv];
 
   if (clientId && clientSecret && refreshTokenEnv) {
     return {
@@ -55,7 +56,7 @@ export async function getOAuthCredentials(inbox: 'me' | 'other'): Promise<OAuthC
     }
 
     // Read token file for refresh_token
-    const tokenContent = await fs.readFile(TOKEN_PATH(inbox), 'utf8');
+    const tokenContent = await fs.readFile(tokenPathFor(inbox), 'utf8');
     const tokenData = JSON.parse(tokenContent);
     
     // Token file format: { type: 'authorized_user', client_id, client_secret, refresh_token }
@@ -0,0 +1,337 @@
+/**
+ * Chunking - splits a newsletter body into section-aware chunks for embedding
+ *
+ * The body is first turned into a StructuredDocument: a list of blocks
+ * (headings, paragraphs, list items, blockquotes) laid out as plain text with
+ * a blank line between blocks. Chunks are then packed from sentences within a
+ * token budget, never crossing a heading, preferring to break between blocks,
+ * and carrying a sentence or two of overlap inside a section. Every chunk is
+ * an exact slice of document.text, so charStart/charEnd are real offsets.
+ */
+
+// ===== TYPES =====
+
+export type BlockType = 'heading' | 'paragraph' | 'list_item' | 'blockquote';
+
+export interface TextBlock {
+  type: BlockType;
+  text: string;
+  start: number;   // Offset of text in StructuredDocument.text
+  end: number;
+}
+
+export interface StructuredDocument {
+  text: string;
+  blocks: TextBlock[];
+}
+
+// Which part of the message a document (and its chunks) was built from
+export type SourcePart = 'html' | 'plaintext' | 'snippet';
+
+export interface SourceDocument extends StructuredDocument {
+  sourcePart: SourcePart;
+}
+
+export interface TextChunk {
+  text: string;
+  charStart: number;  // Offset into StructuredDocument.text
+  charEnd: number;
+  sectionHeading: string | null;  // Nearest heading above the chunk
+}
+
+export interface ChunkOptions {
+  maxTokens: number;
+  overlapTokens: number;
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  maxTokens: 220,
+  overlapTokens: 40,
+};
+export const MIN_CHUNKABLE_LENGTH = 10;
+
+const CHARS_PER_TOKEN = 4;
+const BLOCK_SEPARATOR = '\n\n';
+const LIST_ITEM_PREFIX = '- ';
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// ===== DOCUMENT BUILDING =====
+
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'",
+  rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“',
+  mdash: '—', ndash: '–', hellip: '…', bull: '•',
+  zwnj: '', zwj: '', shy: '',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 ? String.fromCodePoint(code) : match;
+    }
+    const named = NAMED_ENTITIES[entity.toLowerCase()];
+    return named !== undefined ? named : match;
+  });
+}
+
+function cleanInline(text: string): string {
+  return decodeEntities(text)
+    .replace(/[\u200B-\u200D\u034F\uFEFF]/g, '')  // Zero-width preheader padding
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Lay blocks out as text, recording where each one lands
+ */
+function layoutBlocks(raw: Array<{ type: BlockType; text: string }>): StructuredDocument {
+  const blocks: TextBlock[] = [];
+  let text = '';
+  for (const block of raw) {
+    if (!block.text) continue;
+    const rendered = block.type === 'list_item' ? LIST_ITEM_PREFIX + block.text : block.text;
+    if (text) text += BLOCK_SEPARATOR;
+    blocks.push({ type: block.type, text: rendered, start: text.length, end: text.length + rendered.length });
+    text += rendered;
+  }
+  return { text, blocks };
+}
+
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'header', 'footer', 'table', 'tr', 'td', 'th',
+  'ul', 'ol', 'pre', 'hr', 'center', 'figure', 'figcaption',
+]);
+
+/**
+ * Parse newsletter HTML into blocks. Layout tags (tables, divs) only act as
+ * boundaries; headings, list items and blockquotes keep their type, and
+ * paragraphs inside a blockquote are quoted.
+ */
+export function htmlToDocument(html: string): StructuredDocument {
+  const source = html
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<(script|style|head|title)\b[\s\S]*?<\/\1>/gi, ' ');
+
+  const raw: Array<{ type: BlockType; text: string }> = [];
+  let buffer = '';
+  let current: BlockType = 'paragraph';
+  let quoteDepth = 0;
+
+  const flush = (next: BlockType) => {
+    const text = cleanInline(buffer);
+    if (text) raw.push({ type: current, text });
+    buffer = '';
+    current = next;
+  };
+  const bodyType = (): BlockType => (quoteDepth > 0 ? 'blockquote' : 'paragraph');
+
+  const tagPattern = /<(\/?)([a-z][a-z0-9]*)\b[^>]*>/gi;
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(source)) !== null) {
+    buffer += source.slice(last, match.index);
+    last = tagPattern.lastIndex;
+
+    const closing = match[1] === '/';
+    const tag = match[2].toLowerCase();
+
+    if (HEADING_TAGS.has(tag)) {
+      flush(closing ? bodyType() : 'heading');
+    } else if (tag === 'li') {
+      flush(closing ? bodyType() : 'list_item');
+    } else if (tag === 'blockquote') {
+      quoteDepth = Math.max(0, quoteDepth + (closing ? -1 : 1));
+      flush(bodyType());
+    } else if (tag === 'br') {
+      // A line break ends a paragraph but not a heading or list item
+      if (current === 'paragraph' || current === 'blockquote') flush(current);
+      else buffer += ' ';
+    } else if (BLOCK_TAGS.has(tag)) {
+      if (current === 'paragraph' || current === 'blockquote') flush(bodyType());
+      else buffer += ' ';
+    }
+    // Inline tags (a, span, strong, em, img, ...) are dropped, text kept
+  }
+  buffer += source.slice(last);
+  flush('paragraph');
+
+  return layoutBlocks(raw);
+}
+
+/**
+ * Parse plaintext into blocks: blank lines separate paragraphs, markdown-ish
+ * "#" lines are headings, "-", "*", "•" and "1." lines are list items and
+ * ">" lines are quotes.
+ */
+export function plaintextToDocument(text: string): StructuredDocument {
+  const raw: Array<{ type: BlockType; text: string }> = [];
+  const normalized = decodeEntities(text.replace(/\r\n?/g, '\n'));
+
+  for (const para of normalized.split(/\n\s*\n/)) {
+    let paragraph: string[] = [];
+    const flushParagraph = () => {
+      const joined = cleanInline(paragraph.join(' '));
+      if (joined) raw.push({ type: 'paragraph', text: joined });
+      paragraph = [];
+    };
+
+    for (const line of para.split('\n')) {
+      const trimmed = line.trim();
+      let m: RegExpMatchArray | null;
+      if ((m = trimmed.match(/^#{1,6}\s+(.*)$/))) {
+        flushParagraph();
+        raw.push({ type: 'heading', text: cleanInline(m[1]) });
+      } else if ((m = trimmed.match(/^(?:[-*•]|\d{1,3}[.)])\s+(.*)$/))) {
+        flushParagraph();
+        raw.push({ type: 'list_item', text: cleanInline(m[1]) });
+      } else if ((m = trimmed.match(/^>\s?(.*)$/))) {
+        flushParagraph();
+        raw.push({ type: 'blockquote', text: cleanInline(m[1]) });
+      } else {
+        paragraph.push(trimmed);
+      }
+    }
+    flushParagraph();
+  }
+
+  return layoutBlocks(raw);
+}
+
+/**
+ * Document for a raw_emails row: the HTML body if it has real text, else the
+ * text/plain body, else the Gmail snippet. body_text falls back to the
+ * snippet at ingest time, so a body_text equal to the snippet counts as one.
+ */
+export function buildDocument(
+  bodyHtml: string | null,
+  bodyText: string | null,
+  snippet: string | null = null
+): SourceDocument {
+  if (bodyHtml) {
+    const doc = htmlToDocument(bodyHtml);
+    if (doc.text.length >= MIN_CHUNKABLE_LENGTH) return { ...doc, sourcePart: 'html' };
+  }
+  const text = (bodyText || '').trim();
+  const preview = (snippet || '').trim();
+  if (text && text !== preview) {
+    const doc = plaintextToDocument(text);
+    if (doc.text.length >= MIN_CHUNKABLE_LENGTH) return { ...doc, sourcePart: 'plaintext' };
+  }
+  return { ...plaintextToDocument(preview || text), sourcePart: 'snippet' };
+}
+
+// ===== CHUNKING =====
+
+interface Span {
+  start: number;
+  end: number;
+  block: number;  // Index into StructuredDocument.blocks
+}
+
+/**
+ * Sentence spans of a block, with sentences over the budget hard-split at
+ * the last word boundary that fits
+ */
+function sentenceSpans(block: TextBlock, blockIndex: number, maxChars: number): Span[] {
+  const spans: Span[] = [];
+  // A sentence ends at terminal punctuation (plus closing quotes/brackets)
+  // followed by whitespace, so "3.5%" and "U.S.-based" stay whole
+  const pattern = /\S[\s\S]*?(?:[.!?…]+["'”’)\]]*(?=\s|$)|$)\s*/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(block.text)) !== null) {
+    let start = block.start + match.index;
+    const end = block.start + match.index + match[0].trimEnd().length;
+    while (end - start > maxChars) {
+      const window = block.text.slice(start - block.start, start - block.start + maxChars);
+      const cut = window.lastIndexOf(' ');
+      const splitAt = start + (cut > maxChars / 2 ? cut : maxChars);
+      spans.push({ start, end: splitAt, block: blockIndex });
+      start = splitAt;
+      while (start < end && block.text[start - block.start] === ' ') start++;
+    }
+    if (end > start) spans.push({ start, end, block: blockIndex });
+  }
+  return spans;
+}
+
+/**
+ * Split a document into chunks of at most options.maxTokens (estimated)
+ */
+export function chunkDocument(
+  doc: StructuredDocument,
+  options: ChunkOptions = DEFAULT_CHUNK_OPTIONS
+): TextChunk[] {
+  const maxChars = options.maxTokens * CHARS_PER_TOKEN;
+  const overlapChars = options.overlapTokens * CHARS_PER_TOKEN;
+  const chunks: TextChunk[] = [];
+
+  let spans: Span[] = [];       // Spans in the chunk being built
+  let heading: string | null = null;
+  let chunkHeading: string | null = null;
+  let headingOnly = true;       // Chunk holds nothing but headings so far
+
+  const size = (from: Span[]) => (from.length ? from[from.length - 1].end - from[0].start : 0);
+  const emit = () => {
+    if (spans.length === 0) return;
+    const start = spans[0].start;
+    const end = spans[spans.length - 1].end;
+    chunks.push({ text: doc.text.slice(start, end), charStart: start, charEnd: end, sectionHeading: chunkHeading });
+  };
+  const startChunk = (carry: Span[]) => {
+    spans = carry;
+    chunkHeading = heading;
+    headingOnly = carry.length === 0;
+  };
+  // Trailing sentences of the previous chunk that fit the overlap budget
+  const overlapTail = (): Span[] => {
+    const tail: Span[] = [];
+    for (let i = spans.length - 1; i > 0; i--) {
+      if (spans[spans.length - 1].end - spans[i].start > overlapChars) break;
+      tail.unshift(spans[i]);
+    }
+    return tail;
+  };
+
+  doc.blocks.forEach((block, index) => {
+    if (block.type === 'heading') {
+      // A heading always opens a new chunk unless the open one is only headings
+      if (!headingOnly) {
+        emit();
+        spans = [];
+      }
+      heading = block.text;
+      if (spans.length === 0) startChunk([]);
+      else chunkHeading = heading;
+      spans.push({ start: block.start, end: block.end, block: index });
+      return;
+    }
+
+    const blockFits = spans.length === 0 || block.end - spans[0].start <= maxChars;
+    // Prefer a block boundary once the chunk is half full
+    if (!blockFits && !headingOnly && size(spans) >= maxChars / 2) {
+      emit();
+      startChunk([]);
+    }
+
+    for (const span of sentenceSpans(block, index, maxChars)) {
+      // A heading-only chunk keeps its first sentence even if that runs over
+      if (!headingOnly && span.end - spans[0].start > maxChars) {
+        const carry = overlapTail();
+        emit();
+        startChunk(carry.filter((s) => span.end - s.start <= maxChars));
+      }
+      spans.push(span);
+      headingOnly = false;
+    }
+  });
+  emit();
+
+  return chunks;
+}
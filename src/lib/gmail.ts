@@ -70,6 +70,20 @@ export function extractEmailAddress(fromHeader: string): string {
   return emailMatch ? emailMatch[0].trim().toLowerCase() : fromHeader.trim().toLowerCase();
 }
 
+/**
+ * Extracts the display name from a From header.
+ * Examples:
+ *   "\"Name\" <user@example.com>" -> "Name"
+ *   "user@example.com"          -> ""
+ */
+export function extractFromName(fromHeader: string): string {
+  const match = (fromHeader || '').match(/^(.+?)\s*<[^>]+>$/);
+  if (match && match[1]) {
+    return match[1].replace(/^["']|["']$/g, '').trim();
+  }
+  return '';
+}
+
 /**
  * Apply "Ingested" label to a message in Gmail
  * 
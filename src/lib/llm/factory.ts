@@ -1,16 +1,34 @@
 import { LLMProvider } from './types';
 import { GeminiProvider } from './providers/gemini';
+import { OpenAICompatibleProvider } from './providers/openai-compatible';
+import { StubProvider } from './providers/stub';
 
-export type ProviderType = 'gemini';
+export type ProviderType = 'gemini' | 'openai' | 'stub';
 
 export function getLLMProvider(type?: string, model?: string): LLMProvider {
   const providerType = type || process.env.LLM_PROVIDER || 'gemini';
-  
+
   switch (providerType.toLowerCase()) {
     case 'gemini':
       return new GeminiProvider(model || process.env.LLM_MODEL || 'gemini-2.5-flash-lite');
+    case 'openai':
+      return new OpenAICompatibleProvider(model || process.env.LLM_MODEL || 'gpt-4o-mini');
+    case 'stub':
+      return new StubProvider({ modelName: model || process.env.LLM_MODEL || 'stub' });
     default:
       console.warn(`Unknown provider '${providerType}', falling back to Gemini`);
       return new GeminiProvider(model || 'gemini-2.5-flash-lite');
   }
 }
+
+/**
+ * Provider for a call site that picks its own Gemini model (Flash for
+ * extraction, Pro for synthesis): that model when LLM_PROVIDER is Gemini,
+ * otherwise the configured provider with its LLM_MODEL/default model
+ */
+export function getLLMProviderFor(geminiModel: string): LLMProvider {
+  const providerType = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+  return providerType === 'gemini'
+    ? getLLMProvider('gemini', geminiModel)
+    : getLLMProvider(providerType);
+}
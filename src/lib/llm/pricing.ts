@@ -0,0 +1,63 @@
+/**
+ * LLM Cost Registry
+ *
+ * Per-token prices for every model a provider may report usage for, so cost
+ * estimates don't depend on which provider made the call. Prices are USD per
+ * token (approximate, from the providers' published per-1M rates).
+ * Models not listed (local servers, the stub) cost nothing.
+ */
+
+export interface ModelPricing {
+  input: number;   // USD per input token
+  output: number;  // USD per output token
+}
+
+const perMillion = (input: number, output: number): ModelPricing => ({
+  input: input / 1_000_000,
+  output: output / 1_000_000,
+});
+
+// https://ai.google.dev/pricing, https://openai.com/api/pricing
+const PRICING: Record<string, ModelPricing> = {
+  // Gemini
+  'gemini-1.5-flash-001': perMillion(0.075, 0.30),
+  'gemini-1.5-pro-001': perMillion(1.25, 5.00),
+  'gemini-2.0-flash': perMillion(0.10, 0.40),
+  'gemini-2.5-pro': perMillion(1.25, 5.00),
+  'gemini-2.5-flash-lite': perMillion(0.075, 0.30),  // Assuming similar to 1.5 Flash
+
+  // OpenAI
+  'gpt-4o': perMillion(2.50, 10.00),
+  'gpt-4o-mini': perMillion(0.15, 0.60),
+  'gpt-4.1': perMillion(2.00, 8.00),
+  'gpt-4.1-mini': perMillion(0.40, 1.60),
+};
+
+/**
+ * Add or replace a model's price (e.g. a hosted open-weights model)
+ */
+export function registerModelPricing(model: string, pricing: ModelPricing): void {
+  PRICING[model] = pricing;
+}
+
+/**
+ * Price for a model: an exact entry, else the longest registered prefix
+ * ("gemini-2.5-flash-lite-001" -> "gemini-2.5-flash-lite"), else null
+ */
+export function getModelPricing(model: string): ModelPricing | null {
+  if (PRICING[model]) return PRICING[model];
+  const prefix = Object.keys(PRICING)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? PRICING[prefix] : null;
+}
+
+/**
+ * Estimated cost of a call; fallbackModel's price applies to unlisted models
+ * (0 without one)
+ */
+export function estimateCost(model: string, inputTokens: number, outputTokens: number, fallbackModel?: string): number {
+  const pricing = getModelPricing(model) || (fallbackModel ? getModelPricing(fallbackModel) : null);
+  if (!pricing) return 0;
+  return inputTokens * pricing.input + outputTokens * pricing.output;
+}
@@ -0,0 +1,37 @@
+/**
+ * Prompt text shared by the providers, so the same LLMRequest reads the
+ * same to every model
+ */
+
+import { LLMRequest } from './types';
+
+export const DEFAULT_SYSTEM_PROMPT = 'You are a helpful assistant.';
+
+const ANSWER_INSTRUCTIONS = `
+Instructions:
+1. Answer the query using ONLY the provided context.
+2. Cite your sources using inline identifiers like [1], [2], etc.
+3. If the context does not contain the information needed to answer the query, state that you do not have enough information. Do not make up an answer.
+4. Be concise and professional.`;
+
+/**
+ * Query, context and (unless turned off, or the response is JSON) the
+ * answer/citation rules
+ */
+export function formatPromptBody(request: LLMRequest): string {
+  const withInstructions = request.answerInstructions ?? request.responseFormat !== 'json';
+  return `Query: "${request.query}"
+
+Context:
+${request.context}
+${withInstructions ? ANSWER_INSTRUCTIONS : ''}`;
+}
+
+/**
+ * System prompt and body as one message, for APIs without a system role
+ */
+export function formatPrompt(request: LLMRequest): string {
+  return `${request.systemPrompt || DEFAULT_SYSTEM_PROMPT}
+
+${formatPromptBody(request)}`;
+}
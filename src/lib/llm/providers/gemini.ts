@@ -1,22 +1,10 @@
-import { VertexAI, GenerativeModel } from '@google-cloud/vertexai';
-import { LLMProvider, LLMRequest, LLMResponse } from '../types';
-
-// Pricing constants (approximate as of late 2024)
-// https://ai.google.dev/pricing
-const PRICING = {
-  'gemini-1.5-flash-001': {
-    input: 0.075 / 1_000_000,  // $0.075 per 1M input tokens
-    output: 0.30 / 1_000_000,  // $0.30 per 1M output tokens
-  },
-  'gemini-1.5-pro-001': {
-    input: 1.25 / 1_000_000,   // $1.25 per 1M input tokens
-    output: 5.00 / 1_000_000,  // $5.00 per 1M output tokens
-  },
-  'gemini-2.5-flash-lite': {
-    input: 0.075 / 1_000_000,  // Assuming similar to 1.5 Flash
-    output: 0.30 / 1_000_000,
-  }
-};
+import { VertexAI, GenerativeModel, GenerateContentRequest, GenerateContentResponse } from '@google-cloud/vertexai';
+import { LLMProvider, LLMRequest, LLMResponse, LLMUsage } from '../types';
+import { estimateCost } from '../pricing';
+import { formatPrompt } from '../prompt';
+
+// Priced as the default model when the registry doesn't list the one in use
+const FALLBACK_PRICING_MODEL = 'gemini-2.5-flash-lite';
 
 export class GeminiProvider implements LLMProvider {
   name = 'Gemini';
@@ -59,28 +47,46 @@ export class GeminiProvider implements LLMProvider {
     });
   }
 
-  async generateAnswer(request: LLMRequest): Promise<LLMResponse> {
-    const prompt = `${request.systemPrompt || 'You are a helpful assistant.'}
+  /**
+   * Full prompt text and generation config for a request
+   */
+  private buildRequest(request: LLMRequest): GenerateContentRequest {
+    const json = request.responseFormat === 'json';
+    const prompt = formatPrompt(request);
+
+    // Gemini calls the assistant side of the conversation "model"
+    const history = (request.history || []).map(turn => ({
+      role: turn.role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: turn.content }],
+    }));
 
-Query: "${request.query}"
+    return {
+      contents: [...history, { role: 'user', parts: [{ text: prompt }] }],
+      generationConfig: {
+        maxOutputTokens: request.maxOutputTokens ?? 4096,
+        temperature: request.temperature ?? 0.3,
+        ...(json ? { responseMimeType: 'application/json' } : {}),
+      }
+    };
+  }
 
-Context:
-${request.context}
+  /**
+   * Usage and cost from a finished response
+   */
+  private usageOf(response: GenerateContentResponse): LLMUsage {
+    const usageMetadata = response.usageMetadata || {};
+    const inputTokens = usageMetadata.promptTokenCount || 0;
+    const outputTokens = usageMetadata.candidatesTokenCount || 0;
+    const totalTokens = usageMetadata.totalTokenCount || (inputTokens + outputTokens);
 
-Instructions:
-1. Answer the query using ONLY the provided context.
-2. Cite your sources using inline identifiers like [1], [2], etc.
-3. If the context does not contain the information needed to answer the query, state that you do not have enough information. Do not make up an answer.
-4. Be concise and professional.`;
+    const estimatedCostUSD = estimateCost(this.modelName, inputTokens, outputTokens, FALLBACK_PRICING_MODEL);
 
+    return { inputTokens, outputTokens, totalTokens, estimatedCostUSD };
+  }
+
+  async generateAnswer(request: LLMRequest): Promise<LLMResponse> {
     try {
-      const result = await this.model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        generationConfig: {
-          maxOutputTokens: request.maxOutputTokens ?? 4096,
-          temperature: request.temperature ?? 0.3,
-        }
-      });
+      const result = await this.model.generateContent(this.buildRequest(request));
 
       const response = await result.response;
       
@@ -90,25 +96,38 @@ Instructions:
 
       const candidate = response.candidates[0];
       const content = candidate.content.parts[0].text || '';
-      
-      // Get token usage
-      const usageMetadata = response.usageMetadata || {};
-      const inputTokens = usageMetadata.promptTokenCount || 0;
-      const outputTokens = usageMetadata.candidatesTokenCount || 0;
-      const totalTokens = usageMetadata.totalTokenCount || (inputTokens + outputTokens);
 
-      // Calculate cost
-      const pricing = PRICING[this.modelName as keyof typeof PRICING] || PRICING['gemini-2.5-flash-lite'];
-      const estimatedCostUSD = (inputTokens * pricing.input) + (outputTokens * pricing.output);
+      return {
+        content,
+        usage: this.usageOf(response),
+        modelUsed: this.modelName,
+        provider: this.name
+      };
+    } catch (error: any) {
+      console.error('Gemini API Error:', error);
+      throw new Error(`Gemini API failed: ${error.message}`);
+    }
+  }
+
+  async streamAnswer(request: LLMRequest, onText: (delta: string) => void): Promise<LLMResponse> {
+    try {
+      const result = await this.model.generateContentStream(this.buildRequest(request));
+
+      let content = '';
+      for await (const item of result.stream) {
+        const delta = (item.candidates?.[0]?.content?.parts || []).map(part => part.text || '').join('');
+        if (delta) {
+          content += delta;
+          onText(delta);
+        }
+      }
+
+      // Aggregated response carries the final usage metadata
+      const response = await result.response;
 
       return {
         content,
-        usage: {
-          inputTokens,
-          outputTokens,
-          totalTokens,
-          estimatedCostUSD
-        },
+        usage: this.usageOf(response),
         modelUsed: this.modelName,
         provider: this.name
       };
@@ -0,0 +1,161 @@
+import { LLMProvider, LLMRequest, LLMResponse, LLMUsage } from '../types';
+import { estimateCost } from '../pricing';
+import { DEFAULT_SYSTEM_PROMPT, formatPromptBody } from '../prompt';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+export interface OpenAICompatibleOptions {
+  baseUrl?: string;  // Default: OPENAI_BASE_URL, else OpenAI itself
+  apiKey?: string;   // Default: OPENAI_API_KEY; local servers don't need one
+  name?: string;     // Provider name reported in responses
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI, Azure-style
+ * gateways, vLLM, llama.cpp's llama-server, Ollama (http://localhost:11434/v1)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  name: string;
+  modelName: string;
+  private baseUrl: string;
+  private apiKey: string;
+
+  constructor(modelName: string = 'gpt-4o-mini', options: OpenAICompatibleOptions = {}) {
+    this.modelName = modelName;
+    this.baseUrl = (options.baseUrl || process.env.OPENAI_BASE_URL || OPENAI_BASE_URL).replace(/\/+$/, '');
+    this.apiKey = options.apiKey ?? process.env.OPENAI_API_KEY ?? '';
+    this.name = options.name || (this.baseUrl === OPENAI_BASE_URL ? 'OpenAI' : 'OpenAI-compatible');
+
+    if (!this.apiKey && this.baseUrl === OPENAI_BASE_URL) {
+      throw new Error('OPENAI_API_KEY environment variable is required (or set OPENAI_BASE_URL to a local server)');
+    }
+  }
+
+  /**
+   * Chat completions body for a request
+   */
+  private buildBody(request: LLMRequest, stream: boolean): Record<string, unknown> {
+    const messages = [
+      { role: 'system', content: request.systemPrompt || DEFAULT_SYSTEM_PROMPT },
+      ...(request.history || []).map(turn => ({ role: turn.role, content: turn.content })),
+      { role: 'user', content: formatPromptBody(request) },
+    ];
+
+    // No response_format for json: json_object mode rejects the top-level
+    // arrays several prompts ask for, and local servers support it unevenly.
+    // The prompts already say "return ONLY JSON" and callers extract it.
+    return {
+      model: this.modelName,
+      messages,
+      max_tokens: request.maxOutputTokens ?? 4096,
+      temperature: request.temperature ?? 0.3,
+      ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+    };
+  }
+
+  private async post(body: Record<string, unknown>): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`${response.status}: ${errorText}`);
+    }
+    return response;
+  }
+
+  /**
+   * Usage and cost from the API's usage block (local servers may omit it)
+   */
+  private usageOf(usage: any): LLMUsage {
+    const inputTokens = usage?.prompt_tokens || 0;
+    const outputTokens = usage?.completion_tokens || 0;
+    return {
+      inputTokens,
+      outputTokens,
+      totalTokens: usage?.total_tokens || (inputTokens + outputTokens),
+      estimatedCostUSD: estimateCost(this.modelName, inputTokens, outputTokens),
+    };
+  }
+
+  async generateAnswer(request: LLMRequest): Promise<LLMResponse> {
+    try {
+      const response = await this.post(this.buildBody(request, false));
+      const data = await response.json();
+
+      if (!data.choices || data.choices.length === 0) {
+        throw new Error('No choices returned');
+      }
+
+      return {
+        content: data.choices[0].message?.content || '',
+        usage: this.usageOf(data.usage),
+        modelUsed: data.model || this.modelName,
+        provider: this.name
+      };
+    } catch (error: any) {
+      console.error(`${this.name} API Error:`, error);
+      throw new Error(`OpenAI-compatible API failed: ${error.message}`);
+    }
+  }
+
+  async streamAnswer(request: LLMRequest, onText: (delta: string) => void): Promise<LLMResponse> {
+    try {
+      const response = await this.post(this.buildBody(request, true));
+      if (!response.body) {
+        throw new Error('Streaming response has no body');
+      }
+
+      let content = '';
+      let usage: any = null;
+      let model = this.modelName;
+      let buffer = '';
+
+      // Data-only SSE: one JSON chunk per "data:" line, then "data: [DONE]"
+      const handleLine = (line: string) => {
+        if (!line.startsWith('data:')) return;
+        const payload = line.slice(5).trim();
+        if (!payload || payload === '[DONE]') return;
+
+        const chunk = JSON.parse(payload);
+        if (chunk.model) model = chunk.model;
+        if (chunk.usage) usage = chunk.usage;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onText(delta);
+        }
+      };
+
+      const decoder = new TextDecoder();
+      const reader = response.body.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        let end: number;
+        while ((end = buffer.indexOf('\n')) !== -1) {
+          handleLine(buffer.slice(0, end).trim());
+          buffer = buffer.slice(end + 1);
+        }
+      }
+      handleLine(buffer.trim());
+
+      return {
+        content,
+        usage: this.usageOf(usage),
+        modelUsed: model,
+        provider: this.name
+      };
+    } catch (error: any) {
+      console.error(`${this.name} API Error:`, error);
+      throw new Error(`OpenAI-compatible API failed: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { LLMProvider, LLMRequest, LLMResponse, LLMUsage } from '../types';
+
+/**
+ * A canned reply: the first rule whose match is found in the request's
+ * query (or system prompt) answers it
+ */
+export interface StubRule {
+  match: string | RegExp;
+  respond: string | ((request: LLMRequest) => string);
+}
+
+export interface StubOptions {
+  rules?: StubRule[];
+  modelName?: string;
+}
+
+/**
+ * Deterministic offline provider for tests, local development and CI runs
+ * of the evaluation scripts: no network, no cost, same answer every time.
+ *
+ * Without a matching rule, JSON requests get output shaped for the RAG
+ * pipeline's prompts (see jsonReply) and text requests a one-line answer
+ * citing the first [n] in the context.
+ */
+export class StubProvider implements LLMProvider {
+  name = 'Stub';
+  modelName: string;
+  calls: LLMRequest[] = [];  // Every request received, oldest first
+  private rules: StubRule[];
+
+  constructor(options: StubOptions = {}) {
+    this.modelName = options.modelName || 'stub';
+    this.rules = options.rules || [];
+  }
+
+  private reply(request: LLMRequest): string {
+    const haystack = `${request.query}\n${request.systemPrompt || ''}`;
+    const rule = this.rules.find(r =>
+      typeof r.match === 'string' ? haystack.includes(r.match) : r.match.test(haystack)
+    );
+    if (rule) {
+      return typeof rule.respond === 'function' ? rule.respond(request) : rule.respond;
+    }
+
+    if (request.responseFormat === 'json') return this.jsonReply(request);
+    const citation = request.context.match(/\[\d+\]/);
+    return `Stub answer to "${request.query}"${citation ? ` ${citation[0]}` : ''}.`;
+  }
+
+  /**
+   * Default JSON for the pipeline's known prompts, so each step gets output
+   * it can use: the question as a one-facet plan for the query planner, one
+   * fact per chunk for fact extraction, and a score of 1 per claim (citation
+   * verifier) or per [n] passage (LLM reranker). Anything else gets "[]".
+   */
+  private jsonReply(request: LLMRequest): string {
+    const prompt = request.systemPrompt || '';
+    if (prompt.includes('subQueries')) {
+      return JSON.stringify({ reason: 'Stub plan', subQueries: [{ facet: request.query, query: request.query }] });
+    }
+    if (prompt.includes('chunk_id')) {
+      const ids = Array.from(request.context.matchAll(/chunk_id: ([^)\s]+)\)/g), m => m[1]);
+      return JSON.stringify(ids.map(id => ({ fact: `Stub fact from ${id}`, chunk_id: id })));
+    }
+    if (/array of numbers/i.test(prompt)) {
+      const claims = (request.query.match(/^Claim \d+/gm) || []).length;
+      const passages = (request.context.match(/^\[\d+\]/gm) || []).length;
+      return JSON.stringify(new Array(claims || passages).fill(1));
+    }
+    return '[]';
+  }
+
+  /**
+   * Roughly 4 characters per token, so usage totals are stable across runs
+   */
+  private usageOf(request: LLMRequest, content: string): LLMUsage {
+    const prompt = [request.systemPrompt, request.query, request.context, ...(request.history || []).map(t => t.content)]
+      .filter(Boolean)
+      .join('\n');
+    const inputTokens = Math.ceil(prompt.length / 4);
+    const outputTokens = Math.ceil(content.length / 4);
+    return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens, estimatedCostUSD: 0 };
+  }
+
+  async generateAnswer(request: LLMRequest): Promise<LLMResponse> {
+    this.calls.push(request);
+    const content = this.reply(request);
+    return {
+      content,
+      usage: this.usageOf(request, content),
+      modelUsed: this.modelName,
+      provider: this.name
+    };
+  }
+
+  async streamAnswer(request: LLMRequest, onText: (delta: string) => void): Promise<LLMResponse> {
+    const response = await this.generateAnswer(request);
+    // Word by word, keeping the whitespace, so the pieces join back exactly
+    for (const piece of response.content.match(/\S+\s*|\s+/g) || []) {
+      onText(piece);
+    }
+    return response;
+  }
+}
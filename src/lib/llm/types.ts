@@ -3,14 +3,26 @@
  * 
  * Abstraction layer for different LLM providers (Gemini, Claude, OpenAI).
  * Allows easy switching between providers without changing core RAG logic.
+ * Implementations live in ./providers and are chosen by getLLMProvider.
  */
 
+/**
+ * An earlier exchange in the conversation; the answer is the assistant turn
+ */
+export interface LLMTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
 export interface LLMRequest {
   query: string;
   context: string;        // Formatted chunks with identifiers
   systemPrompt?: string;  // Instructions (persona, citation rules)
   temperature?: number;   // Default 0.3
   maxOutputTokens?: number; // Default 4096
+  responseFormat?: 'text' | 'json'; // Default text
+  answerInstructions?: boolean;     // Append the provider's answer/citation rules; default true unless json
+  history?: LLMTurn[];    // Earlier turns, oldest first; sent before this request's prompt
 }
 
 export interface LLMUsage {
@@ -35,5 +47,11 @@ export interface LLMProvider {
    * Generate an answer based on the provided context and query
    */
   generateAnswer(request: LLMRequest): Promise<LLMResponse>;
+
+  /**
+   * Same as generateAnswer, but calls onText with each piece of the answer
+   * as it is generated; resolves with the complete response and usage
+   */
+  streamAnswer(request: LLMRequest, onText: (delta: string) => void): Promise<LLMResponse>;
 }
 
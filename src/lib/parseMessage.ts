@@ -89,3 +89,32 @@ export function getHeader(msg: gmail_v1.Schema$Message, name: string): string {
   const h = headers.find(h => (h.name || '').toLowerCase() === name.toLowerCase());
   return (h?.value || '').trim();
 }
+
+// Return the decoded text/html part of a message, or null if there isn't one
+export function extractHtml(msg: gmail_v1.Schema$Message): string | null {
+  if (!msg || !msg.payload) return null;
+
+  const parts: gmail_v1.Schema$MessagePart[] = [];
+  function walk(part?: gmail_v1.Schema$MessagePart) {
+    if (!part) return;
+    parts.push(part);
+    if (part.parts) part.parts.forEach(walk);
+  }
+  walk(msg.payload);
+
+  for (const p of parts) {
+    if ((p.mimeType || '').toLowerCase().startsWith('text/html')) {
+      const data = p.body?.data;
+      if (data) return decodeBase64Url(data);
+    }
+  }
+  return null;
+}
+
+// Parse a Date header; strips " (UTC)"-style comments that trip up the parser
+export function parseHeaderDate(raw?: string): Date | null {
+  if (!raw) return null;
+  const cleaned = raw.replace(/\s+\([^)]*\)/g, ' ').trim();
+  const d = new Date(cleaned);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
@@ -0,0 +1,51 @@
+/**
+ * Server-Sent Events framing, shared by the Express API, the Next.js routes
+ * and the browser client that reads the stream.
+ *
+ * Each frame is a named event with a JSON payload:
+ *   event: search
+ *   data: {"chunks":10,...}
+ */
+
+export const SSE_HEADERS: Record<string, string> = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+  'X-Accel-Buffering': 'no',  // Stop proxies buffering the stream
+};
+
+export function formatSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Whether a request asked for a stream: `"stream": true` in the body or an
+ * Accept header that includes text/event-stream
+ */
+export function wantsEventStream(accept: string | null | undefined, body: any): boolean {
+  return body?.stream === true || (accept || '').includes('text/event-stream');
+}
+
+/**
+ * Incremental parser: feed it text as it arrives; it calls onEvent for each
+ * complete frame and keeps any partial frame for the next call
+ */
+export function createSSEParser(onEvent: (event: string, data: any) => void): (text: string) => void {
+  let buffer = '';
+  return (text: string) => {
+    buffer += text.replace(/\r\n/g, '\n');
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const frame = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+
+      let event = 'message';
+      const dataLines: string[] = [];
+      for (const line of frame.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) dataLines.push(line.slice(5).replace(/^ /, ''));
+      }
+      if (dataLines.length > 0) onEvent(event, JSON.parse(dataLines.join('\n')));
+    }
+  };
+}
@@ -1,5 +1,6 @@
 import { getBigQuery } from '../bq/client';
 import { GoogleAuth } from 'google-auth-library';
+import { listInboxes, ingestJobName } from '../gmail/inboxes';
 
 const PROJECT = process.env.BQ_PROJECT_ID || 'newsletter-control-center';
 const REGION = process.env.NCC_REGION || 'us-central1';
@@ -187,7 +188,7 @@ async function getReconcileStats(): Promise<ReconcileStats> {
  * Run health check
  */
 export async function checkHealth(): Promise<HealthCheckResult> {
-  const monitoredJobs = ['ncc-ingest-me', 'ncc-ingest-other', 'ncc-chunks', 'ncc-embeddings'];
+  const monitoredJobs = [...listInboxes().map(ingestJobName), 'ncc-chunks', 'ncc-embeddings'];
   
   // Get job execution times (parallel)
   const jobPromises = monitoredJobs.map(job => getLastJobExecutionTime(job));